@@ -15,12 +15,25 @@ let redPoint: Cesium.PointPrimitive | null = null;
 let pickedEntity: Cesium.PointPrimitive | null = null;
 let isViewShed = false;
 
+export interface ViewshedSetup {
+  /** Observer position (possibly dragged) and target position */
+  start: Cesium.Cartesian3;
+  end: Cesium.Cartesian3;
+}
+
+export interface ViewshedApi {
+  /** The placed viewshed, or null while none is shown */
+  getSetup(): ViewshedSetup | null;
+  /** Shows a viewshed without the click placement step */
+  restore(setup: ViewshedSetup): void;
+}
+
 /** Sets up the Viewshed interaction tool */
 export default function setupViewshed(
   scene: Scene,
   viewshedButton: { getId: () => string },
   handler: Cesium.ScreenSpaceEventHandler
-): void {
+): ViewshedApi {
   /** Wait until button exists before attaching click listener */
   const observer = new MutationObserver(() => {
     const button = document.getElementById(viewshedButton.getId());
@@ -176,4 +189,22 @@ export default function setupViewshed(
       controller.enableInputs = true;
     }, Cesium.ScreenSpaceEventType.LEFT_UP);
   }
-}
\ No newline at end of file
+
+  function getSetup(): ViewshedSetup | null {
+    if (!isViewShed || !points.start || !points.end || !sensorShadowInstance) return null;
+    return {
+      start: Cesium.Cartesian3.clone(redPoint?.position ?? points.start),
+      end: Cesium.Cartesian3.clone(points.end),
+    };
+  }
+
+  function restore(setup: ViewshedSetup): void {
+    if (isViewShed) return;
+    isViewShed = true;
+    scene.globe.shadows = Cesium.ShadowMode.ENABLED;
+    points = { start: setup.start, end: setup.end };
+    initViewshed();
+  }
+
+  return { getSetup, restore };
+}
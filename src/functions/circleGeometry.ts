@@ -0,0 +1,81 @@
+/**
+ * Circles and cylinders (silos, tanks, towers, roundabouts) drawn as regular polygons around a centre.
+ * The radius and segment count are kept with the polygon, so a cylinder can be edited as a circle until
+ * its corners are moved by hand.
+ */
+
+import { Cartesian3, Cartographic, Ellipsoid, Matrix4, Transforms } from 'cesium';
+
+import { createLocalFrame } from './localFrame';
+
+export interface CircleOptions {
+  /** m */
+  radius: number;
+  /** Number of corners of the polygon approximating the circle */
+  segments: number;
+}
+
+export const DEFAULT_CIRCLE_SEGMENTS = 32;
+export const MIN_CIRCLE_SEGMENTS = 3;
+export const MAX_CIRCLE_SEGMENTS = 256;
+
+/**
+ * Segment count clamped to the supported range, the default for invalid values
+ */
+export function clampSegments(segments: number): number {
+  if (!isFinite(segments)) return DEFAULT_CIRCLE_SEGMENTS;
+  return Math.min(MAX_CIRCLE_SEGMENTS, Math.max(MIN_CIRCLE_SEGMENTS, Math.round(segments)));
+}
+
+/**
+ * Circle of a GeoJSON feature's properties (`radius`, `segments`), undefined for other polygons
+ */
+export function circleFromProperties(properties: any): CircleOptions | undefined {
+  const radius = Number(properties?.radius);
+  if (!(radius > 0)) return undefined;
+  return { radius, segments: clampSegments(Number(properties?.segments ?? DEFAULT_CIRCLE_SEGMENTS)) };
+}
+
+/**
+ * Writes a circle to GeoJSON properties; undefined removes the circle properties
+ */
+export function applyCircleProperties(properties: any, circle: CircleOptions | undefined): void {
+  if (!properties) return;
+  delete properties.radius;
+  delete properties.segments;
+  if (!circle) return;
+  properties.radius = circle.radius;
+  properties.segments = circle.segments;
+}
+
+/**
+ * Corners of a circle around `center` (counter-clockwise from east), at the given ellipsoid height
+ */
+export function circlePositions(center: Cartesian3, circle: CircleOptions, height: number): Cartesian3[] {
+  const c = Cartographic.fromCartesian(center);
+  const fromLocal = Transforms.eastNorthUpToFixedFrame(Cartesian3.fromRadians(c.longitude, c.latitude, 0));
+  const segments = clampSegments(circle.segments);
+  const positions: Cartesian3[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = 2 * Math.PI * i / segments;
+    const local = new Cartesian3(circle.radius * Math.cos(angle), circle.radius * Math.sin(angle), 0);
+    const corner = Cartographic.fromCartesian(Matrix4.multiplyByPoint(fromLocal, local, new Cartesian3()));
+    positions.push(Cartesian3.fromRadians(corner.longitude, corner.latitude, height));
+  }
+  return positions;
+}
+
+/**
+ * Centre of a circle's corners on the ellipsoid surface
+ */
+export function circleCenter(positions: Cartesian3[]): Cartesian3 {
+  return Cartographic.toCartesian(createLocalFrame(positions).toCartographic(0, 0, 0));
+}
+
+/**
+ * Radius (m) from a centre to a point, measured along the ground plane
+ */
+export function circleRadius(center: Cartesian3, point: Cartesian3): number {
+  const surface = [center, point].map(p => Ellipsoid.WGS84.scaleToGeodeticSurface(p) ?? p);
+  return Cartesian3.distance(surface[0], surface[1]);
+}
@@ -0,0 +1,66 @@
+/**
+ * Coordinate lists pasted from surveys, site plans and spreadsheets, one corner per line. A line holds
+ * `x y`, `x y z` or `id x y z`, separated by spaces, tabs, semicolons or commas; a decimal comma is
+ * accepted when the values are not comma separated, and a leading point name (e.g. `P1`) is skipped.
+ */
+
+import { toWgs84, normalizeCrsCode } from './projections';
+
+/** `auto` puts the larger value north, which holds for SWEREF99 and for WGS84 in Sweden */
+export type CoordinateOrder = 'auto' | 'en' | 'ne';
+
+export interface ParsedCoordinates {
+  /** WGS84 [lon, lat] or [lon, lat, z], without a repeated closing corner */
+  coordinates: number[][];
+  /** One message per line that could not be read */
+  errors: string[];
+}
+
+function parseLine(line: string): number[] | null {
+  let tokens = line.trim().split(/[\s;]+/).map(t => t.replace(/,$/, '')).filter(t => t.length > 0);
+  if (tokens.length === 1) tokens = tokens[0].split(',');
+  if (tokens.length > 1 && !isFinite(Number(tokens[0].replace(',', '.')))) tokens = tokens.slice(1);
+
+  const values = tokens.map(t => Number(t.replace(',', '.')));
+  if (values.some(v => !isFinite(v))) return null;
+  if (values.length === 2 || values.length === 3) return values;
+  // Numbered points: id x y z
+  if (values.length === 4) return values.slice(1);
+  return null;
+}
+
+/**
+ * Reads a pasted coordinate list in `crs` and transforms it to WGS84
+ */
+export function parseCoordinateList(text: string, crs: string, order: CoordinateOrder = 'auto'): ParsedCoordinates {
+  const errors: string[] = [];
+  const rows: number[][] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim() || line.trim().charAt(0) === '#') return;
+    const values = parseLine(line);
+    if (values) {
+      rows.push(values);
+    } else {
+      errors.push(`Rad ${i + 1}: kunde inte läsa "${line.trim()}"`);
+    }
+  });
+
+  const code = normalizeCrsCode(crs);
+  const coordinates = rows.map(([a, b, z]) => {
+    const northFirst = order === 'ne' || (order === 'auto' && a > b);
+    const [x, y] = northFirst ? [b, a] : [a, b];
+    const [lon, lat] = toWgs84(code, x, y);
+    return z === undefined ? [lon, lat] : [lon, lat, z];
+  }).filter((c, i, all) => i === 0 || c[0] !== all[i - 1][0] || c[1] !== all[i - 1][1]);
+
+  const first = coordinates[0];
+  const last = coordinates[coordinates.length - 1];
+  if (coordinates.length > 1 && first[0] === last[0] && first[1] === last[1]) {
+    coordinates.pop();
+  }
+
+  if (coordinates.some(([lon, lat]) => !isFinite(lon) || !isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lon) > 180)) {
+    errors.push(`Koordinaterna ligger utanför ${code}`);
+  }
+  return { coordinates, errors };
+}
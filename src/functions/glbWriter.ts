@@ -0,0 +1,155 @@
+/**
+ * Minimal binary glTF 2.0 (GLB) writer for flat-shaded, single-material meshes.
+ */
+
+export interface GlbMesh {
+  name: string;
+  /** Flat x, y, z triples (glTF is Y-up) */
+  positions: number[];
+  /** Flat x, y, z triples, one per position */
+  normals: number[];
+  /** Counter-clockwise triangles */
+  indices: number[];
+  /** Linear RGBA, 0-1 */
+  color: [number, number, number, number];
+  translation?: [number, number, number];
+  extras?: Record<string, any>;
+}
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+const padTo4 = (n: number) => (n + 3) & ~3;
+
+/**
+ * Converts an sRGB colour component (0-1) to the linear value glTF materials expect
+ */
+export function srgbToLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Builds a GLB with one node and mesh per input, all in a single scene
+ */
+export function buildGlb(meshes: GlbMesh[], assetExtras?: Record<string, any>): ArrayBuffer {
+  const gltf: any = {
+    asset: { version: '2.0', generator: 'globe-plugin', ...(assetExtras ? { extras: assetExtras } : {}) },
+    scene: 0,
+    scenes: [{ nodes: meshes.map((_, i) => i) }],
+    nodes: [],
+    meshes: [],
+    materials: [],
+    accessors: [],
+    bufferViews: [],
+    buffers: [],
+  };
+
+  // Collect binary parts first, each 4-byte aligned
+  const parts: ArrayBuffer[] = [];
+  let byteLength = 0;
+  const addBufferView = (data: Float32Array | Uint32Array, target: number): number => {
+    gltf.bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, target });
+    parts.push(data.buffer as ArrayBuffer);
+    byteLength += padTo4(data.byteLength);
+    return gltf.bufferViews.length - 1;
+  };
+
+  meshes.forEach((mesh, i) => {
+    const positions = new Float32Array(mesh.positions);
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let k = 0; k < positions.length; k += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], positions[k + axis]);
+        max[axis] = Math.max(max[axis], positions[k + axis]);
+      }
+    }
+
+    gltf.accessors.push({
+      bufferView: addBufferView(positions, ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: positions.length / 3,
+      type: 'VEC3',
+      min,
+      max,
+    });
+    const positionAccessor = gltf.accessors.length - 1;
+
+    gltf.accessors.push({
+      bufferView: addBufferView(new Float32Array(mesh.normals), ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: mesh.normals.length / 3,
+      type: 'VEC3',
+    });
+    const normalAccessor = gltf.accessors.length - 1;
+
+    gltf.accessors.push({
+      bufferView: addBufferView(new Uint32Array(mesh.indices), ELEMENT_ARRAY_BUFFER),
+      componentType: UNSIGNED_INT,
+      count: mesh.indices.length,
+      type: 'SCALAR',
+    });
+    const indexAccessor = gltf.accessors.length - 1;
+
+    const alpha = mesh.color[3];
+    gltf.materials.push({
+      name: mesh.name,
+      pbrMetallicRoughness: { baseColorFactor: mesh.color, metallicFactor: 0, roughnessFactor: 1 },
+      ...(alpha < 1 ? { alphaMode: 'BLEND' } : {}),
+    });
+
+    gltf.meshes.push({
+      name: mesh.name,
+      primitives: [{
+        attributes: { POSITION: positionAccessor, NORMAL: normalAccessor },
+        indices: indexAccessor,
+        material: i,
+      }],
+    });
+
+    gltf.nodes.push({
+      name: mesh.name,
+      mesh: i,
+      ...(mesh.translation ? { translation: mesh.translation } : {}),
+      ...(mesh.extras ? { extras: mesh.extras } : {}),
+    });
+  });
+
+  gltf.buffers.push({ byteLength });
+
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(gltf));
+  const jsonLength = padTo4(jsonBytes.length);
+  const totalLength = 12 + 8 + jsonLength + 8 + byteLength;
+
+  const glb = new ArrayBuffer(totalLength);
+  const view = new DataView(glb);
+  const bytes = new Uint8Array(glb);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+
+  // JSON chunk, padded with spaces
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  bytes.set(jsonBytes, 20);
+  bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength);
+
+  // Binary chunk, padded with zeros
+  let offset = 20 + jsonLength;
+  view.setUint32(offset, byteLength, true);
+  view.setUint32(offset + 4, CHUNK_BIN, true);
+  offset += 8;
+  parts.forEach(part => {
+    bytes.set(new Uint8Array(part), offset);
+    offset += padTo4(part.byteLength);
+  });
+
+  return glb;
+}
@@ -0,0 +1,38 @@
+/**
+ * Local east-north plane at the centre of a set of positions on the WGS84 ellipsoid, for planar work on
+ * building-sized footprints (areas, roofs, wall outlines) in meters.
+ */
+
+import { Cartesian3, Cartographic, Ellipsoid, Matrix4, Transforms } from 'cesium';
+
+export interface LocalFrame {
+  /** The positions moved to the ellipsoid surface, in meters east (x) and north (y) of the centre */
+  points: { x: number; y: number }[];
+  /** A point of the plane back on the globe, at the given ellipsoid height */
+  toCartographic(x: number, y: number, height: number): Cartographic;
+}
+
+export function createLocalFrame(positions: Cartesian3[]): LocalFrame {
+  const surface = positions.map(p => {
+    const c = Cartographic.fromCartesian(p);
+    return Cartesian3.fromRadians(c.longitude, c.latitude, 0);
+  });
+  const sum = surface.reduce((acc, p) => Cartesian3.add(acc, p, acc), new Cartesian3());
+  const center = Ellipsoid.WGS84.scaleToGeodeticSurface(
+    Cartesian3.multiplyByScalar(sum, 1 / Math.max(1, surface.length), new Cartesian3()),
+  ) ?? surface[0];
+  const fromLocal = Transforms.eastNorthUpToFixedFrame(center);
+  const toLocal = Matrix4.inverseTransformation(fromLocal, new Matrix4());
+
+  return {
+    points: surface.map(p => {
+      const local = Matrix4.multiplyByPoint(toLocal, p, new Cartesian3());
+      return { x: local.x, y: local.y };
+    }),
+    // Back on the ellipsoid first, so the height is exact rather than measured along the plane's normal
+    toCartographic: (x, y, height) => {
+      const c = Cartographic.fromCartesian(Matrix4.multiplyByPoint(fromLocal, new Cartesian3(x, y, 0), new Cartesian3()));
+      return new Cartographic(c.longitude, c.latitude, height);
+    },
+  };
+}
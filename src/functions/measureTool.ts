@@ -7,9 +7,16 @@ import {
   PolylineMaterialAppearance, Material, EllipsoidTangentPlane, Ellipsoid
 } from "cesium";
 import { setMeasuring } from './../globeState';
+import { createSnapper } from './snapping';
 
 export type MeasureMode = 'distance' | 'height' | 'footprint' | 'surface';
 
+/** A finished measurement: two points for distance/height, the clicked ring for footprint/surface */
+export interface Measurement {
+  mode: MeasureMode;
+  positions: Cartesian3[];
+}
+
 // Helper: compute footprint area by projecting to local tangent plane (horizontal projection)
 // This gives the "shadow" area as if looking straight down - good for land plots, building footprints
 function computeFootprintArea(positions: Cartesian3[]): number {
@@ -86,6 +93,8 @@ export default function measureTool(scene: Scene) {
   // Store multiple measurements (can be Primitive, GroundPrimitive, or GroundPolylinePrimitive)
   const primitives: (Primitive | GroundPrimitive | GroundPolylinePrimitive)[] = [];
   const labels: Label[] = [];
+  const measurements: Measurement[] = [];
+  let changeCallback: (() => void) | null = null;
 
   let moving = false;
   let currentMode: MeasureMode = 'distance';
@@ -99,6 +108,10 @@ export default function measureTool(scene: Scene) {
   let activePrimitive: Primitive | null = null;
   let activeLabel: Label | null = null;
 
+  // Snaps to the points of earlier measurements and to any rings given by the host (e.g. drawn polygons)
+  const snapper = createSnapper(scene);
+  let snapTargets: (() => Cartesian3[][]) | null = null;
+
   interface ClickEvent {
     position: { x: number; y: number };
   }
@@ -109,6 +122,12 @@ export default function measureTool(scene: Scene) {
 
   function getCartesianFromScreen(screenPos: { x: number; y: number }): Cartesian3 | undefined {
     const cartesian2Pos = new Cartesian2(screenPos.x, screenPos.y);
+    const snapped = snapper.snap(cartesian2Pos, {
+      line: start ? [start] : areaPoints,
+      rings: measurements.map(m => m.positions).concat(snapTargets?.() ?? []),
+    });
+    if (snapped) return snapped.position;
+
     let cartesian: Cartesian3 | undefined = scene.pickPosition(cartesian2Pos);
     if (!cartesian) {
       const ray = scene.camera.getPickRay(cartesian2Pos);
@@ -147,6 +166,8 @@ export default function measureTool(scene: Scene) {
     // Remove all completed measurement labels
     labels.forEach(l => labelCollection.remove(l));
     labels.length = 0;
+    measurements.length = 0;
+    changeCallback?.();
 
     // Reset state
     start = null;
@@ -172,6 +193,7 @@ export default function measureTool(scene: Scene) {
     end = null;
     moving = false;
     areaPoints = [];
+    snapper.hideIndicator();
     scene.requestRender();
   }
 
@@ -206,6 +228,202 @@ export default function measureTool(scene: Scene) {
     });
   }
 
+  /** Adds a finished distance measurement between two points */
+  function addDistance(start: Cartesian3, end: Cartesian3) {
+    // Create final polyline
+    const primitive = createPolylinePrimitive([start, end]);
+    scene.primitives.add(primitive);
+    primitives.push(primitive);
+
+    // Add label
+    const mid = Cartesian3.midpoint(start, end, new Cartesian3());
+    const distance = Cartesian3.distance(start, end);
+    const label = createLabel(mid, formatDistance(distance));
+    labels.push(label);
+
+    measurements.push({ mode: 'distance', positions: [start.clone(), end.clone()] });
+    changeCallback?.();
+  }
+
+  /** Adds a finished height difference measurement between two points */
+  function addHeight(start: Cartesian3, end: Cartesian3) {
+    // Calculate heights
+    const startCarto = Cartographic.fromCartesian(start);
+    const endCarto = Cartographic.fromCartesian(end);
+    const heightDiff = endCarto.height - startCarto.height;
+
+    let verticalStart: Cartesian3;
+    let verticalEnd: Cartesian3;
+    let horizontalStart: Cartesian3;
+    let horizontalEnd: Cartesian3;
+
+    if (heightDiff >= 0) {
+      // Positive delta: vertical line at start point (going up from start to end's height)
+      verticalStart = start;
+      verticalEnd = Cartesian3.fromRadians(startCarto.longitude, startCarto.latitude, endCarto.height);
+      horizontalStart = verticalEnd;
+      horizontalEnd = end;
+    } else {
+      // Negative delta: vertical line at end point (going down from start's height to end)
+      verticalStart = Cartesian3.fromRadians(endCarto.longitude, endCarto.latitude, startCarto.height);
+      verticalEnd = end;
+      horizontalStart = start;
+      horizontalEnd = verticalStart;
+    }
+
+    // Create lines: horizontal line, then vertical line
+    const horizontalPrimitive = createPolylinePrimitive([horizontalStart, horizontalEnd], Color.CYAN);
+    scene.primitives.add(horizontalPrimitive);
+    primitives.push(horizontalPrimitive);
+
+    const verticalPrimitive = createPolylinePrimitive([verticalStart, verticalEnd], Color.YELLOW);
+    scene.primitives.add(verticalPrimitive);
+    primitives.push(verticalPrimitive);
+
+    // Add height label at midpoint of vertical line
+    const verticalMid = Cartesian3.midpoint(verticalStart, verticalEnd, new Cartesian3());
+    const heightText = heightDiff >= 0 ? `+${formatDistance(heightDiff)}` : formatDistance(heightDiff);
+    const label = createLabel(verticalMid, `Δh: ${heightText}`);
+    labels.push(label);
+
+    // Add horizontal distance label
+    const horizontalDist = Cartesian3.distance(horizontalStart, horizontalEnd);
+    if (horizontalDist > 1) {
+      const horizontalMid = Cartesian3.midpoint(horizontalStart, horizontalEnd, new Cartesian3());
+      const hLabel = createLabel(horizontalMid, formatDistance(horizontalDist));
+      labels.push(hLabel);
+    }
+
+    measurements.push({ mode: 'height', positions: [start.clone(), end.clone()] });
+    changeCallback?.();
+  }
+
+  /** Adds a finished footprint area measurement, draped on terrain and 3D tiles */
+  function addFootprint(points: Cartesian3[]) {
+    // Create final polygon outline that drapes on terrain and 3D tiles
+    const outlinePositions = [...points, points[0]];
+    const outlineInstance = new GeometryInstance({
+      geometry: new GroundPolylineGeometry({
+        positions: outlinePositions,
+        width: 3,
+      }),
+      attributes: {
+        color: ColorGeometryInstanceAttribute.fromColor(Color.YELLOW)
+      }
+    });
+    const outlinePrimitive = new GroundPolylinePrimitive({
+      geometryInstances: outlineInstance,
+      appearance: new PolylineMaterialAppearance({
+        material: Material.fromType('Color', {
+          color: Color.YELLOW
+        })
+      }),
+      classificationType: ClassificationType.BOTH,
+    });
+    scene.primitives.add(outlinePrimitive);
+    primitives.push(outlinePrimitive);
+
+    // Create filled polygon that drapes on terrain and 3D tiles
+    const fillInstance = new GeometryInstance({
+      geometry: new PolygonGeometry({
+        polygonHierarchy: {
+          positions: points,
+          holes: []
+        },
+      }),
+      attributes: {
+        color: ColorGeometryInstanceAttribute.fromColor(Color.YELLOW.withAlpha(0.4))
+      }
+    });
+    const fillPrimitive = new GroundPrimitive({
+      geometryInstances: [fillInstance],
+      appearance: new PerInstanceColorAppearance({
+        translucent: true,
+        flat: true,
+      }),
+      classificationType: ClassificationType.BOTH,
+    });
+    scene.primitives.add(fillPrimitive);
+    primitives.push(fillPrimitive);
+
+    // Calculate and display footprint area (horizontal projection)
+    const area = computeFootprintArea(points);
+
+    // Calculate label position at visual center of polygon
+    const cartos = points.map(p => Cartographic.fromCartesian(p));
+    const avgLon = cartos.reduce((sum, c) => sum + c.longitude, 0) / cartos.length;
+    const avgLat = cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length;
+    const maxHeight = Math.max(...cartos.map(c => c.height));
+
+    // Sample actual surface height at centroid for accurate label placement
+    const centroidCartographic = new Cartographic(avgLon, avgLat);
+    const sampledHeight = scene.sampleHeight(centroidCartographic);
+    const labelHeight = (sampledHeight !== undefined ? sampledHeight : maxHeight) + 2;
+    const labelPosition = Cartesian3.fromRadians(avgLon, avgLat, labelHeight);
+
+    const label = createLabel(labelPosition, formatArea(area));
+    labels.push(label);
+
+    measurements.push({ mode: 'footprint', positions: points.map(p => p.clone()) });
+    changeCallback?.();
+  }
+
+  /** Adds a finished 3D surface area measurement */
+  function addSurface(points: Cartesian3[]) {
+    // Create polygon outline connecting clicked points (not ground-draped - stays on actual surface)
+    const outlinePositions = [...points, points[0]];
+    const outlinePrimitive = createPolylinePrimitive(outlinePositions, Color.CYAN);
+    scene.primitives.add(outlinePrimitive);
+    primitives.push(outlinePrimitive);
+
+    // Create filled polygon on the actual 3D surface (not ground-draped)
+    const fillInstance = new GeometryInstance({
+      geometry: new PolygonGeometry({
+        polygonHierarchy: {
+          positions: points,
+          holes: []
+        },
+        perPositionHeight: true, // Keep actual heights - don't flatten to ground
+      }),
+      attributes: {
+        color: ColorGeometryInstanceAttribute.fromColor(Color.CYAN.withAlpha(0.4))
+      }
+    });
+    const fillPrimitive = new Primitive({
+      geometryInstances: [fillInstance],
+      appearance: new PerInstanceColorAppearance({
+        translucent: true,
+        flat: true,
+      }),
+    });
+    scene.primitives.add(fillPrimitive);
+    primitives.push(fillPrimitive);
+
+    // Calculate true 3D surface area
+    const area = compute3DSurfaceArea(points);
+
+    // Calculate label position at centroid of the actual polygon
+    const centroid = points.reduce(
+      (acc, p) => Cartesian3.add(acc, p, acc),
+      new Cartesian3(0, 0, 0)
+    );
+    Cartesian3.divideByScalar(centroid, points.length, centroid);
+
+    // Offset label slightly above the surface
+    const centroidCarto = Cartographic.fromCartesian(centroid);
+    const labelPosition = Cartesian3.fromRadians(
+      centroidCarto.longitude,
+      centroidCarto.latitude,
+      centroidCarto.height + 2
+    );
+
+    const label = createLabel(labelPosition, `⬡ ${formatArea(area)}`);
+    labels.push(label);
+
+    measurements.push({ mode: 'surface', positions: points.map(p => p.clone()) });
+    changeCallback?.();
+  }
+
   function measureDistance() {
     currentMode = 'distance';
     isActive = true;
@@ -227,16 +445,7 @@ export default function measureTool(scene: Scene) {
         end = cartesian.clone();
         moving = false;
 
-        // Create final polyline
-        const primitive = createPolylinePrimitive([start, end]);
-        scene.primitives.add(primitive);
-        primitives.push(primitive);
-
-        // Add label
-        const mid = Cartesian3.midpoint(start, end, new Cartesian3());
-        const distance = Cartesian3.distance(start, end);
-        const label = createLabel(mid, formatDistance(distance));
-        labels.push(label);
+        addDistance(start, end);
 
         // Clear preview
         clearActivePreview();
@@ -249,10 +458,8 @@ export default function measureTool(scene: Scene) {
     }, ScreenSpaceEventType.LEFT_CLICK);
 
     handler.setInputAction((movement: MouseMoveEvent) => {
-      if (!start || !moving) return;
-
       const cartesian = getCartesianFromScreen(movement.endPosition);
-      if (!cartesian) return;
+      if (!start || !moving || !cartesian) return;
 
       end = cartesian.clone();
 
@@ -292,52 +499,7 @@ export default function measureTool(scene: Scene) {
         end = cartesian.clone();
         moving = false;
 
-        // Calculate heights
-        const startCarto = Cartographic.fromCartesian(start);
-        const endCarto = Cartographic.fromCartesian(end);
-        const heightDiff = endCarto.height - startCarto.height;
-
-        let verticalStart: Cartesian3;
-        let verticalEnd: Cartesian3;
-        let horizontalStart: Cartesian3;
-        let horizontalEnd: Cartesian3;
-
-        if (heightDiff >= 0) {
-          // Positive delta: vertical line at start point (going up from start to end's height)
-          verticalStart = start;
-          verticalEnd = Cartesian3.fromRadians(startCarto.longitude, startCarto.latitude, endCarto.height);
-          horizontalStart = verticalEnd;
-          horizontalEnd = end;
-        } else {
-          // Negative delta: vertical line at end point (going down from start's height to end)
-          verticalStart = Cartesian3.fromRadians(endCarto.longitude, endCarto.latitude, startCarto.height);
-          verticalEnd = end;
-          horizontalStart = start;
-          horizontalEnd = verticalStart;
-        }
-
-        // Create lines: horizontal line, then vertical line
-        const horizontalPrimitive = createPolylinePrimitive([horizontalStart, horizontalEnd], Color.CYAN);
-        scene.primitives.add(horizontalPrimitive);
-        primitives.push(horizontalPrimitive);
-
-        const verticalPrimitive = createPolylinePrimitive([verticalStart, verticalEnd], Color.YELLOW);
-        scene.primitives.add(verticalPrimitive);
-        primitives.push(verticalPrimitive);
-
-        // Add height label at midpoint of vertical line
-        const verticalMid = Cartesian3.midpoint(verticalStart, verticalEnd, new Cartesian3());
-        const heightText = heightDiff >= 0 ? `+${formatDistance(heightDiff)}` : formatDistance(heightDiff);
-        const label = createLabel(verticalMid, `Δh: ${heightText}`);
-        labels.push(label);
-
-        // Add horizontal distance label
-        const horizontalDist = Cartesian3.distance(horizontalStart, horizontalEnd);
-        if (horizontalDist > 1) {
-          const horizontalMid = Cartesian3.midpoint(horizontalStart, horizontalEnd, new Cartesian3());
-          const hLabel = createLabel(horizontalMid, formatDistance(horizontalDist));
-          labels.push(hLabel);
-        }
+        addHeight(start, end);
 
         clearActivePreview();
         scene.requestRender();
@@ -348,10 +510,8 @@ export default function measureTool(scene: Scene) {
     }, ScreenSpaceEventType.LEFT_CLICK);
 
     handler.setInputAction((movement: MouseMoveEvent) => {
-      if (!start || !moving) return;
-
       const cartesian = getCartesianFromScreen(movement.endPosition);
-      if (!cartesian) return;
+      if (!start || !moving || !cartesian) return;
 
       end = cartesian.clone();
 
@@ -420,69 +580,7 @@ export default function measureTool(scene: Scene) {
     handler.setInputAction(() => {
       if (areaPoints.length < 3) return;
 
-      // Create final polygon outline that drapes on terrain and 3D tiles
-      const outlinePositions = [...areaPoints, areaPoints[0]];
-      const outlineInstance = new GeometryInstance({
-        geometry: new GroundPolylineGeometry({
-          positions: outlinePositions,
-          width: 3,
-        }),
-        attributes: {
-          color: ColorGeometryInstanceAttribute.fromColor(Color.YELLOW)
-        }
-      });
-      const outlinePrimitive = new GroundPolylinePrimitive({
-        geometryInstances: outlineInstance,
-        appearance: new PolylineMaterialAppearance({
-          material: Material.fromType('Color', {
-            color: Color.YELLOW
-          })
-        }),
-        classificationType: ClassificationType.BOTH,
-      });
-      scene.primitives.add(outlinePrimitive);
-      primitives.push(outlinePrimitive);
-
-      // Create filled polygon that drapes on terrain and 3D tiles
-      const fillInstance = new GeometryInstance({
-        geometry: new PolygonGeometry({
-          polygonHierarchy: {
-            positions: areaPoints,
-            holes: []
-          },
-        }),
-        attributes: {
-          color: ColorGeometryInstanceAttribute.fromColor(Color.YELLOW.withAlpha(0.4))
-        }
-      });
-      const fillPrimitive = new GroundPrimitive({
-        geometryInstances: [fillInstance],
-        appearance: new PerInstanceColorAppearance({
-          translucent: true,
-          flat: true,
-        }),
-        classificationType: ClassificationType.BOTH,
-      });
-      scene.primitives.add(fillPrimitive);
-      primitives.push(fillPrimitive);
-
-      // Calculate and display footprint area (horizontal projection)
-      const area = computeFootprintArea(areaPoints);
-      
-      // Calculate label position at visual center of polygon
-      const cartos = areaPoints.map(p => Cartographic.fromCartesian(p));
-      const avgLon = cartos.reduce((sum, c) => sum + c.longitude, 0) / cartos.length;
-      const avgLat = cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length;
-      const maxHeight = Math.max(...cartos.map(c => c.height));
-      
-      // Sample actual surface height at centroid for accurate label placement
-      const centroidCartographic = new Cartographic(avgLon, avgLat);
-      const sampledHeight = scene.sampleHeight(centroidCartographic);
-      const labelHeight = (sampledHeight !== undefined ? sampledHeight : maxHeight) + 2;
-      const labelPosition = Cartesian3.fromRadians(avgLon, avgLat, labelHeight);
-
-      const label = createLabel(labelPosition, formatArea(area));
-      labels.push(label);
+      addFootprint(areaPoints);
 
       // Clear preview and reset
       clearActivePreview();
@@ -491,10 +589,8 @@ export default function measureTool(scene: Scene) {
     }, ScreenSpaceEventType.RIGHT_CLICK);
 
     handler.setInputAction((movement: MouseMoveEvent) => {
-      if (areaPoints.length === 0) return;
-
       const cartesian = getCartesianFromScreen(movement.endPosition);
-      if (!cartesian) return;
+      if (areaPoints.length === 0 || !cartesian) return;
 
       // Clear previous preview
       if (areaPreviewPrimitive) scene.primitives.remove(areaPreviewPrimitive);
@@ -592,55 +688,7 @@ export default function measureTool(scene: Scene) {
     handler.setInputAction(() => {
       if (areaPoints.length < 3) return;
 
-      // Create polygon outline connecting clicked points (not ground-draped - stays on actual surface)
-      const outlinePositions = [...areaPoints, areaPoints[0]];
-      const outlinePrimitive = createPolylinePrimitive(outlinePositions, Color.CYAN);
-      scene.primitives.add(outlinePrimitive);
-      primitives.push(outlinePrimitive);
-
-      // Create filled polygon on the actual 3D surface (not ground-draped)
-      const fillInstance = new GeometryInstance({
-        geometry: new PolygonGeometry({
-          polygonHierarchy: {
-            positions: areaPoints,
-            holes: []
-          },
-          perPositionHeight: true, // Keep actual heights - don't flatten to ground
-        }),
-        attributes: {
-          color: ColorGeometryInstanceAttribute.fromColor(Color.CYAN.withAlpha(0.4))
-        }
-      });
-      const fillPrimitive = new Primitive({
-        geometryInstances: [fillInstance],
-        appearance: new PerInstanceColorAppearance({
-          translucent: true,
-          flat: true,
-        }),
-      });
-      scene.primitives.add(fillPrimitive);
-      primitives.push(fillPrimitive);
-
-      // Calculate true 3D surface area
-      const area = compute3DSurfaceArea(areaPoints);
-      
-      // Calculate label position at centroid of the actual polygon
-      const centroid = areaPoints.reduce(
-        (acc, p) => Cartesian3.add(acc, p, acc),
-        new Cartesian3(0, 0, 0)
-      );
-      Cartesian3.divideByScalar(centroid, areaPoints.length, centroid);
-      
-      // Offset label slightly above the surface
-      const centroidCarto = Cartographic.fromCartesian(centroid);
-      const labelPosition = Cartesian3.fromRadians(
-        centroidCarto.longitude,
-        centroidCarto.latitude,
-        centroidCarto.height + 2
-      );
-
-      const label = createLabel(labelPosition, `⬡ ${formatArea(area)}`);
-      labels.push(label);
+      addSurface(areaPoints);
 
       // Clear preview and reset
       clearActivePreview();
@@ -649,10 +697,8 @@ export default function measureTool(scene: Scene) {
     }, ScreenSpaceEventType.RIGHT_CLICK);
 
     handler.setInputAction((movement: MouseMoveEvent) => {
-      if (areaPoints.length === 0) return;
-
       const cartesian = getCartesianFromScreen(movement.endPosition);
-      if (!cartesian) return;
+      if (areaPoints.length === 0 || !cartesian) return;
 
       // Clear previous preview
       if (areaPreviewPrimitive) scene.primitives.remove(areaPreviewPrimitive);
@@ -733,6 +779,26 @@ export default function measureTool(scene: Scene) {
     }
   }
 
+  function getMeasurements(): Measurement[] {
+    return measurements.map(m => ({ mode: m.mode, positions: m.positions.map(p => p.clone()) }));
+  }
+
+  /** Recreates finished measurements, e.g. from a share link */
+  function addMeasurements(items: Measurement[]) {
+    items.forEach(({ mode, positions }) => {
+      if (mode === 'distance' && positions.length >= 2) addDistance(positions[0], positions[1]);
+      else if (mode === 'height' && positions.length >= 2) addHeight(positions[0], positions[1]);
+      else if (mode === 'footprint' && positions.length >= 3) addFootprint(positions);
+      else if (mode === 'surface' && positions.length >= 3) addSurface(positions);
+    });
+    scene.requestRender();
+  }
+
+  /** Called whenever a measurement is added or the measurements are cleared */
+  function onChange(callback: (() => void) | null) {
+    changeCallback = callback;
+  }
+
   function getMode(): MeasureMode {
     return currentMode;
   }
@@ -741,11 +807,18 @@ export default function measureTool(scene: Scene) {
     return isActive;
   }
 
+  /** Rings to snap to besides the measurements themselves, asked for on every pick */
+  function setSnapTargets(provider: (() => Cartesian3[][]) | null) {
+    snapTargets = provider;
+  }
+
   function destroy() {
     setMeasuring(false);
     isActive = false;
+    changeCallback = null;
     clear();
     handler.destroy();
+    snapper.destroy();
     scene.primitives.remove(labelCollection);
     scene.requestRender();
   }
@@ -758,6 +831,16 @@ export default function measureTool(scene: Scene) {
     setMode,
     getMode,
     getIsActive,
+    getMeasurements,
+    addMeasurements,
+    onChange,
+    setSnapTargets,
+    setSnapping: snapper.setEnabled,
+    isSnapping: snapper.isEnabled,
+    setSnapTileEdges: snapper.setTileEdges,
+    isSnappingTileEdges: snapper.isSnappingTileEdges,
+    setSnapTolerance: snapper.setTolerance,
+    getSnapTolerance: snapper.getTolerance,
     stopMeasuring,
     clear, 
     destroy 
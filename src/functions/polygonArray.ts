@@ -0,0 +1,76 @@
+/**
+ * Copies of drawn volumes for row houses and repeated blocks: a row of copies along a bearing, or a grid
+ * of rows and columns. Offsets are meters east and north of the original, and copies are named after the
+ * original with the next free number.
+ */
+
+import { Cartesian3, Math as CesiumMath } from 'cesium';
+
+import { createLocalFrame } from './localFrame';
+
+export interface ArrayOptions {
+  /** Volumes along the bearing, the original included */
+  columns: number;
+  /** Rows to the right of the bearing, the original's row included; 1 for a single row */
+  rows: number;
+  /** m between volumes along the bearing */
+  spacing: number;
+  /** m between rows */
+  rowSpacing: number;
+  /** Degrees clockwise from north */
+  bearing: number;
+}
+
+export interface ArrayOffset {
+  /** m east */
+  dx: number;
+  /** m north */
+  dy: number;
+}
+
+// Each copy is two primitives; more than this is more likely a typo than a plan
+export const MAX_ARRAY_COPIES = 400;
+
+/**
+ * Offsets of every copy of an array, row by row, without the original itself
+ */
+export function arrayOffsets(options: ArrayOptions): ArrayOffset[] {
+  const columns = Math.max(1, Math.round(options.columns) || 1);
+  const rows = Math.max(1, Math.round(options.rows) || 1);
+  const angle = CesiumMath.toRadians(options.bearing || 0);
+  const along = { x: Math.sin(angle), y: Math.cos(angle) };
+  const across = { x: Math.cos(angle), y: -Math.sin(angle) };
+
+  const offsets: ArrayOffset[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      if (r === 0 && c === 0) continue;
+      const a = c * options.spacing;
+      const b = r * options.rowSpacing;
+      offsets.push({ dx: a * along.x + b * across.x, dy: a * along.y + b * across.y });
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Length (m) of a footprint along a bearing, the spacing at which copies just touch
+ */
+export function footprintExtent(positions: Cartesian3[], bearing: number): number {
+  if (!positions.length) return 0;
+  const angle = CesiumMath.toRadians(bearing);
+  const along = createLocalFrame(positions).points.map(p => p.x * Math.sin(angle) + p.y * Math.cos(angle));
+  return Math.max(...along) - Math.min(...along);
+}
+
+/**
+ * The original's name with the next number not in `taken`: "Hus 3" gives "Hus 4", "Hus" gives "Hus 2"
+ */
+export function nextCopyName(name: string, taken: string[]): string {
+  const match = /^(.*?)\s*(\d+)$/.exec(name);
+  const base = match ? match[1] : name;
+  let n = match ? Number(match[2]) + 1 : 2;
+  const format = (i: number) => (base ? `${base} ${i}` : String(i));
+  while (taken.indexOf(format(n)) !== -1) n++;
+  return format(n);
+}
@@ -3,34 +3,61 @@ import {
   Color, LabelCollection, Label, LabelStyle, VerticalOrigin, HorizontalOrigin,
   Primitive, GeometryInstance, PolylineGeometry, PolygonGeometry,
   ColorGeometryInstanceAttribute, PolylineColorAppearance,
-  PerInstanceColorAppearance, Math as CesiumMath, Cartographic, ShadowMode
+  PerInstanceColorAppearance, Math as CesiumMath, Cartographic, ShadowMode,
+  PointPrimitiveCollection, Matrix4, Transforms, Geometry, GeometryAttribute,
+  ComponentDatatype, PrimitiveType, BoundingSphere, KeyboardEventModifier, SceneTransforms, sampleTerrainMostDetailed
 } from "cesium";
+import { triangulatePolygon } from "./polygonTriangulation";
+import { requireProjectedCrs, fromWgs84 } from "./projections";
+import { buildGlb, GlbMesh, srgbToLinear } from "./glbWriter";
+import { writeZip } from "./zipArchive";
+import { computePolygonArea } from "./polygonMetrics";
+import {
+  RoofOptions, applyRoofProperties, roofFromProperties, pitchedRoof, computeRoofTriangles, computeRoofMetrics
+} from "./roofGeometry";
+import { WallOptions, DEFAULT_WALL_THICKNESS, cleanWallLine, wallOutline, wallLength } from "./wallGeometry";
+import {
+  CircleOptions, DEFAULT_CIRCLE_SEGMENTS, clampSegments, circleFromProperties, applyCircleProperties, circlePositions,
+  circleCenter, circleRadius
+} from "./circleGeometry";
+import { createSnapper } from "./snapping";
+import { SegmentInput, bearingBetween, pointAtBearing, resolveSegment } from "./segmentInput";
+import {
+  BASE_HEIGHT_MODES, BaseHeightMode, baseHeightFromTerrain, baseModeFromProperties, followsTerrain, footprintSamplePoints
+} from "./terrainBase";
+import { ArrayOffset, ArrayOptions, MAX_ARRAY_COPIES, arrayOffsets, footprintExtent, nextCopyName } from "./polygonArray";
+import {
+  MaterialOptions, addLocalPositions, applyMaterialProperties, cleanMaterial, createMaterialAppearance, materialFromProperties
+} from "./volumeMaterials";
+
+// Helper: compute net area of a polygon with holes (outer ring area minus hole areas)
+function computeAreaWithHoles(positions: Cartesian3[], holes: Cartesian3[][]): number {
+  return Math.max(0, holes.reduce((area, hole) => area - computePolygonArea(hole), computePolygonArea(positions)));
+}
 
-// Helper: compute area of polygon (in m^2) given array of Cartesian3 points (flattened to same Z)
-function computePolygonArea(positions: Cartesian3[]): number {
-  if (positions.length < 3) return 0;
-  // Convert to Cartographic (lon, lat, height)
-  const cartos = positions.map(p => Cartographic.fromCartesian(p));
-  // Use planar approximation (small footprint, meters)
-  // Project to local tangent plane (East-North-Up at centroid)
-  const centroid = {
-    lon: cartos.reduce((sum, c) => sum + c.longitude, 0) / cartos.length,
-    lat: cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length,
-  };
-  // Convert each point to meters offset from centroid
-  const R = 6371000; // Earth radius in meters
-  const xy = cartos.map(c => [
-    (c.longitude - centroid.lon) * Math.cos(centroid.lat) * R,
-    (c.latitude - centroid.lat) * R
-  ]);
-  // Shoelace formula
-  let area = 0;
-  for (let i = 0; i < xy.length; i++) {
-    const [x1, y1] = xy[i];
-    const [x2, y2] = xy[(i + 1) % xy.length];
-    area += x1 * y2 - x2 * y1;
-  }
-  return Math.abs(area) / 2;
+// Helper: point-in-polygon test (ray casting) in planar XY
+function isPointInRing(x: number, y: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Helper: parse a GeoJSON linear ring into positions at the given height (drops the closing coordinate)
+function ringToPositions(ring: any, height: number): Cartesian3[] {
+  if (!Array.isArray(ring)) return [];
+  const coords = ring.filter((c: any) => Array.isArray(c) && c.length >= 2);
+  const first = coords[0];
+  const last = coords[coords.length - 1];
+  if (coords.length > 1 && first[0] === last[0] && first[1] === last[1]) {
+    coords.pop();
+  }
+  return coords.map(([lng, lat]: [number, number]) => Cartesian3.fromDegrees(Number(lng), Number(lat), height));
 }
 
 // Helper: compute distance between two Cartesian3 points in meters
@@ -131,15 +158,90 @@ export interface PolygonData {
   fillInstanceId: string;
   label: Label;
   positions: Cartesian3[];
+  // Inner rings (courtyards etc.), each at base height like the outer ring
+  holes: Cartesian3[][];
+  baseHeight: number;
+  extrudeHeight: number;
+  area: number;
+  color: Color;
+  fillAlpha: number;
+  geojsonFeature: any;
+  // Set on the parts of an imported MultiPolygon/GeometryCollection; grouped polygons are
+  // selected, moved and deleted together and exported as one multi-part feature
+  groupId?: string;
+  // Pitched roof on top of the extrusion; none (or flat) keeps the flat top
+  roof?: RoofOptions;
+  // Set on walls drawn as polylines: `positions` is then the footprint around the centre line,
+  // with the ground height of each corner instead of one base height
+  wall?: WallOptions;
+  // Set on circles and cylinders: `positions` is the regular polygon of `segments` corners, regenerated
+  // when the radius changes and dropped when the corners are edited by hand
+  circle?: CircleOptions;
+  // How the base height was found; terrain modes are sampled again when the polygon is moved or rotated.
+  // Unset for the lowest clicked point.
+  baseMode?: BaseHeightMode;
+  // Set on proposals that replace existing buildings: the 3D tiles under the footprint are hidden
+  maskTiles?: boolean;
+  // Facade and roof materials and window grid; unset for the plain colour
+  material?: MaterialOptions;
+}
+
+// `polygon` is the one shown in the edit panel (the last one selected), `selection` every selected
+// polygon together with the rest of their groups
+export type PolygonSelectionCallback = (polygon: PolygonData | null, selection: PolygonData[]) => void;
+
+export type HistoryChangeCallback = (state: { canUndo: boolean; canRedo: boolean }) => void;
+
+// Copy of a polygon's editable state (everything except its Cesium primitives and label)
+interface PolygonSnapshot {
+  id: string;
+  name: string;
+  positions: Cartesian3[];
+  holes: Cartesian3[][];
   baseHeight: number;
   extrudeHeight: number;
   area: number;
   color: Color;
   fillAlpha: number;
   geojsonFeature: any;
+  groupId?: string;
+  roof?: RoofOptions;
+  wall?: WallOptions;
+  circle?: CircleOptions;
+  baseMode?: BaseHeightMode;
+  maskTiles?: boolean;
+  material?: MaterialOptions;
+}
+
+// One undoable operation: the state of every affected polygon before and after.
+// A null state means the polygon did not exist at that point (create/delete).
+interface HistoryEntry {
+  label: string;
+  before: { id: string; index: number; state: PolygonSnapshot | null }[];
+  after: { id: string; index: number; state: PolygonSnapshot | null }[];
+  mergeKey?: string;
+  time: number;
+}
+
+// Ground heights that were read from the loaded terrain tiles, to be replaced by the most detailed terrain:
+// the base of a footprint in a terrain mode, wall points (`indices` of the line), or the lowest corner
+interface TerrainJob {
+  id: string;
+  kind: 'footprint' | 'wall' | 'corners';
+  points: Cartographic[];
+  indices?: number[];
+}
+
+// Identifies a vertex edit handle: a corner of the polygon or the midpoint of the edge after it
+interface VertexHandleId {
+  vertexEdit: 'vertex' | 'midpoint';
+  index: number;
 }
 
-export type PolygonSelectionCallback = (polygon: PolygonData | null) => void;
+const MAX_HISTORY_ENTRIES = 100;
+// Consecutive changes with the same merge key within this window become one undo step
+// (e.g. dragging the translate handle or typing a name)
+const HISTORY_MERGE_WINDOW_MS = 1000;
 
 export default function polygonDrawTool(scene: Scene) {
   const handler = new ScreenSpaceEventHandler(scene.canvas);
@@ -147,7 +249,7 @@ export default function polygonDrawTool(scene: Scene) {
   
   // Store all completed polygons
   const polygons: PolygonData[] = [];
-  let selectedPolygonId: string | null = null;
+  let selectedPolygonIds: string[] = []; // In selection order, the last one is the edited polygon
   let selectionCallback: PolygonSelectionCallback | null = null;
   let selectionEnabled = false;
 
@@ -158,6 +260,12 @@ export default function polygonDrawTool(scene: Scene) {
   let points: Cartesian3[] = [];
   let isDrawing = false;
   let extrudeHeight = 10; // Default extrude height in meters
+  let defaultRoof: RoofOptions | null = null; // Roof of new polygons, null = flat
+  let wallThickness = DEFAULT_WALL_THICKNESS; // Thickness of new walls in meters
+  let circleSegments = DEFAULT_CIRCLE_SEGMENTS; // Corners of new circles
+  let baseHeightMode: BaseHeightMode = 'clicked'; // How the base height of new polygons is found
+  let fixedBaseHeight = 0; // RH2000 height (m) of new polygons in the fixed mode
+  let geoidHeight: number | undefined; // Height (m) of RH2000 zero above the ellipsoid; unset, no fixed heights
   let labelsVisible = true;
 
   // Rectangle drawing state
@@ -166,6 +274,11 @@ export default function polygonDrawTool(scene: Scene) {
   let rectangleCorner2: Cartesian3 | null = null; // Second corner (end of first edge)
   let rectangleSideLabels: Label[] = [];
 
+  // Circle drawing state
+  let isDrawingCircle = false;
+  let circleDrawCenter: Cartesian3 | null = null;
+  let circlePressPosition: Cartesian2 | null = null; // Where the press that set the centre started
+
   const labelCollection = new LabelCollection();
   scene.primitives.add(labelCollection);
 
@@ -174,8 +287,51 @@ export default function polygonDrawTool(scene: Scene) {
   let activeLabel: Label | null = null;
   let lastMousePos: Cartesian3 | null = null;
 
+  // Groups created from multi-part features, keyed by groupId: the feature's own properties
+  const groupProperties: Record<string, any> = {};
+  let groupIdCounter = 0;
+
+  // Undo/redo history
+  const undoStack: HistoryEntry[] = [];
+  const redoStack: HistoryEntry[] = [];
+  let historyChangeCallback: HistoryChangeCallback | null = null;
+  // Every polygon change passes through the history (clear resets it), so this doubles as a change event
+  let polygonsChangeCallback: (() => void) | null = null;
+  // Edits that were refused (an invalid hole, a corner that would leave a hole outside), for the UI to show
+  let editErrorCallback: ((message: string) => void) | null = null;
+  // Set while a batch import records its polygons as one history entry
+  let suppressCreateHistory = false;
+  // Terrain samples waiting for the next history entry, and the latest request per polygon
+  let pendingTerrainJobs: TerrainJob[] = [];
+  const terrainRequests: Record<string, number> = {};
+  let terrainRequestCounter = 0;
+
+  // Snapping while drawing and dragging corners
+  const snapper = createSnapper(scene);
+
+  // Vertex editing state
+  const vertexHandler = new ScreenSpaceEventHandler(scene.canvas);
+  const vertexHandles = new PointPrimitiveCollection();
+  scene.primitives.add(vertexHandles);
+  let vertexEditPolygonId: string | null = null;
+  let draggedVertexIndex: number | null = null;
+  let vertexDragBefore: HistoryEntry['before'] | null = null;
+  let vertexDragLabel = 'vertex-move';
+
+  // Wall drawing state
+  let isDrawingWall = false;
+  let wallPoints: Cartesian3[] = [];
+
+  // Hole cutting state
+  let isCuttingHole = false;
+  let holePolygonId: string | null = null;
+  let holePoints: Cartesian3[] = [];
+  let holeDoneCallback: ((cut: boolean) => void) | null = null;
+
   const removeDrawingHandlers = () => {
     handler.removeInputAction(ScreenSpaceEventType.LEFT_CLICK);
+    handler.removeInputAction(ScreenSpaceEventType.LEFT_DOWN);
+    handler.removeInputAction(ScreenSpaceEventType.LEFT_UP);
     handler.removeInputAction(ScreenSpaceEventType.RIGHT_CLICK);
     handler.removeInputAction(ScreenSpaceEventType.MOUSE_MOVE);
   };
@@ -184,6 +340,7 @@ export default function polygonDrawTool(scene: Scene) {
     if (!isDrawing) return;
     isDrawing = false;
     removeDrawingHandlers();
+    snapper.hideIndicator();
     points = [];
 
     // Remove active preview primitives/label (but keep finalized polygons)
@@ -205,6 +362,8 @@ export default function polygonDrawTool(scene: Scene) {
 
   function clear() {
     stopDrawing();
+    stopDrawingWall();
+    stopDrawingCircle();
     // Remove active preview primitives
     if (activePolylinePrimitive) {
       scene.primitives.remove(activePolylinePrimitive);
@@ -219,6 +378,9 @@ export default function polygonDrawTool(scene: Scene) {
       activeLabel = null;
     }
 
+    stopVertexEdit();
+    stopCuttingHole();
+
     // Remove all completed polygons
     polygons.forEach(p => {
       scene.primitives.remove(p.outlinePrimitive);
@@ -226,14 +388,16 @@ export default function polygonDrawTool(scene: Scene) {
       labelCollection.remove(p.label);
     });
     polygons.length = 0;
+    Object.keys(groupProperties).forEach(key => delete groupProperties[key]);
 
     // Reset selection
-    selectedPolygonId = null;
-    selectionCallback?.(null);
+    selectedPolygonIds = [];
+    notifySelection();
 
     // Reset state
     points = [];
     isDrawing = false;
+    clearHistory();
 
     scene.requestRender();
   }
@@ -260,12 +424,7 @@ export default function polygonDrawTool(scene: Scene) {
           fillAttrs.color = ColorGeometryInstanceAttribute.toValue(fill);
         }
         // Ensure appearance translucency matches current alpha
-        (polygon.fillPrimitive as any).appearance = new PerInstanceColorAppearance({
-          translucent: fillAlpha < 1,
-          closed: true,
-          flat: true,
-          faceForward: false
-        });
+        (polygon.fillPrimitive as any).appearance = fillAppearance(polygon, fillAlpha);
       } catch {
         // ignore
       }
@@ -309,6 +468,29 @@ export default function polygonDrawTool(scene: Scene) {
     extrudeHeight = height;
   }
 
+  function setRoof(roof: RoofOptions | null) {
+    defaultRoof = roof && roof.type !== 'flat' ? { ...roof } : null;
+  }
+
+  function setWallThickness(thickness: number) {
+    if (thickness > 0) wallThickness = thickness;
+  }
+
+  function setCircleSegments(segments: number) {
+    circleSegments = clampSegments(segments);
+  }
+
+  // `fixedHeight` (RH2000) is used in the fixed mode, which needs the geoid height
+  function setBaseHeightMode(mode: BaseHeightMode, fixedHeight = fixedBaseHeight) {
+    if (BASE_HEIGHT_MODES.indexOf(mode) === -1 || (mode === 'fixed' && geoidHeight === undefined)) return;
+    baseHeightMode = mode;
+    if (isFinite(fixedHeight)) fixedBaseHeight = fixedHeight;
+  }
+
+  function setGeoidHeight(height: number) {
+    if (isFinite(height)) geoidHeight = height;
+  }
+
   function getLowestZValue(positions: Cartesian3[]): number {
     let minHeight = Number.POSITIVE_INFINITY;
     
@@ -549,6 +731,7 @@ export default function polygonDrawTool(scene: Scene) {
       fillInstanceId,
       label,
       positions: flattenedPoints.slice(),
+      holes: [],
       baseHeight: lowestZ,
       extrudeHeight,
       area,
@@ -557,6 +740,9 @@ export default function polygonDrawTool(scene: Scene) {
       geojsonFeature,
     };
     polygons.push(polygonData);
+    applyDefaultBaseMode(polygonData);
+    if (defaultRoof) applyRoof(polygonData, defaultRoof);
+    recordCreated(polygonData);
 
     scene.requestRender();
 
@@ -860,6 +1046,7 @@ export default function polygonDrawTool(scene: Scene) {
       fillInstanceId,
       label,
       positions: corners.slice(),
+      holes: [],
       baseHeight: lowestZ,
       extrudeHeight,
       area,
@@ -868,6 +1055,9 @@ export default function polygonDrawTool(scene: Scene) {
       geojsonFeature,
     };
     polygons.push(polygonData);
+    applyDefaultBaseMode(polygonData);
+    if (defaultRoof) applyRoof(polygonData, defaultRoof);
+    recordCreated(polygonData);
 
     scene.requestRender();
 
@@ -891,6 +1081,60 @@ export default function polygonDrawTool(scene: Scene) {
     }
   }
 
+  // Corner 1, then corner 2 (the first edge), then a point giving the width
+  function addRectanglePoint(cartesian: Cartesian3) {
+    if (!rectangleCorner1) {
+      // First click - set corner 1 (start of first edge)
+      rectangleCorner1 = cartesian.clone();
+      
+      // Show a marker at corner 1
+      if (activeLabel) {
+        labelCollection.remove(activeLabel);
+      }
+      activeLabel = labelCollection.add({
+        position: cartesian,
+        text: "Punkt 1 - klicka för att sätta kantslut",
+        font: "18px sans-serif",
+        fillColor: Color.WHITE,
+        outlineColor: Color.BLACK,
+        outlineWidth: 2,
+        style: LabelStyle.FILL_AND_OUTLINE,
+        verticalOrigin: VerticalOrigin.BOTTOM,
+        horizontalOrigin: HorizontalOrigin.LEFT,
+        disableDepthTestDistance: Number.POSITIVE_INFINITY,
+        pixelOffset: new Cartesian2(10, 0),
+        show: true,
+      });
+      scene.requestRender();
+    } else if (!rectangleCorner2) {
+      // Second click - set corner 2 (end of first edge)
+      rectangleCorner2 = cartesian.clone();
+      
+      // Update label
+      if (activeLabel) {
+        labelCollection.remove(activeLabel);
+      }
+      activeLabel = labelCollection.add({
+        position: cartesian,
+        text: "Kant satt - klicka för att sätta bredd",
+        font: "18px sans-serif",
+        fillColor: Color.WHITE,
+        outlineColor: Color.BLACK,
+        outlineWidth: 2,
+        style: LabelStyle.FILL_AND_OUTLINE,
+        verticalOrigin: VerticalOrigin.BOTTOM,
+        horizontalOrigin: HorizontalOrigin.LEFT,
+        disableDepthTestDistance: Number.POSITIVE_INFINITY,
+        pixelOffset: new Cartesian2(10, 0),
+        show: true,
+      });
+      scene.requestRender();
+    } else {
+      // Third click - finalize rectangle with width
+      finalizeRectangle(cartesian);
+    }
+  }
+
   function startDrawingRectangle() {
     isDrawingRectangle = true;
     rectangleCorner1 = null;
@@ -902,70 +1146,9 @@ export default function polygonDrawTool(scene: Scene) {
 
     // Left click - 3 clicks: corner1, corner2 (first edge), then width point
     handler.setInputAction((click: ClickEvent) => {
-      const cartesian2Pos = new Cartesian2(click.position.x, click.position.y);
-      
-      const ray = scene.camera.getPickRay(cartesian2Pos);
-      let cartesian: Cartesian3 | undefined;
-      
-      if (ray) {
-        cartesian = scene.globe.pick(ray, scene);
-      }
-      
-      if (!cartesian) {
-        cartesian = scene.pickPosition(cartesian2Pos);
-      }
+      const cartesian = pickDrawPosition(new Cartesian2(click.position.x, click.position.y), rectangleSnapLine());
       if (!cartesian) return;
-
-      if (!rectangleCorner1) {
-        // First click - set corner 1 (start of first edge)
-        rectangleCorner1 = cartesian.clone();
-        
-        // Show a marker at corner 1
-        if (activeLabel) {
-          labelCollection.remove(activeLabel);
-        }
-        activeLabel = labelCollection.add({
-          position: cartesian,
-          text: "Punkt 1 - klicka för att sätta kantslut",
-          font: "18px sans-serif",
-          fillColor: Color.WHITE,
-          outlineColor: Color.BLACK,
-          outlineWidth: 2,
-          style: LabelStyle.FILL_AND_OUTLINE,
-          verticalOrigin: VerticalOrigin.BOTTOM,
-          horizontalOrigin: HorizontalOrigin.LEFT,
-          disableDepthTestDistance: Number.POSITIVE_INFINITY,
-          pixelOffset: new Cartesian2(10, 0),
-          show: true,
-        });
-        scene.requestRender();
-      } else if (!rectangleCorner2) {
-        // Second click - set corner 2 (end of first edge)
-        rectangleCorner2 = cartesian.clone();
-        
-        // Update label
-        if (activeLabel) {
-          labelCollection.remove(activeLabel);
-        }
-        activeLabel = labelCollection.add({
-          position: cartesian,
-          text: "Kant satt - klicka för att sätta bredd",
-          font: "18px sans-serif",
-          fillColor: Color.WHITE,
-          outlineColor: Color.BLACK,
-          outlineWidth: 2,
-          style: LabelStyle.FILL_AND_OUTLINE,
-          verticalOrigin: VerticalOrigin.BOTTOM,
-          horizontalOrigin: HorizontalOrigin.LEFT,
-          disableDepthTestDistance: Number.POSITIVE_INFINITY,
-          pixelOffset: new Cartesian2(10, 0),
-          show: true,
-        });
-        scene.requestRender();
-      } else {
-        // Third click - finalize rectangle with width
-        finalizeRectangle(cartesian);
-      }
+      addRectanglePoint(cartesian);
     }, ScreenSpaceEventType.LEFT_CLICK);
 
     // Right click to cancel or go back one step
@@ -1004,21 +1187,8 @@ export default function polygonDrawTool(scene: Scene) {
     }
 
     handler.setInputAction((movement: MouseMoveEvent) => {
-      if (!rectangleCorner1) return;
-
-      const cartesian2Pos = new Cartesian2(movement.endPosition.x, movement.endPosition.y);
-      
-      const ray = scene.camera.getPickRay(cartesian2Pos);
-      let cartesian: Cartesian3 | undefined;
-      
-      if (ray) {
-        cartesian = scene.globe.pick(ray, scene);
-      }
-      
-      if (!cartesian) {
-        cartesian = scene.pickPosition(cartesian2Pos);
-      }
-      if (!cartesian) return;
+      const cartesian = pickDrawPosition(new Cartesian2(movement.endPosition.x, movement.endPosition.y), rectangleSnapLine());
+      if (!rectangleCorner1 || !cartesian) return;
 
       updateRectanglePreview(cartesian);
     }, ScreenSpaceEventType.MOUSE_MOVE);
@@ -1028,6 +1198,7 @@ export default function polygonDrawTool(scene: Scene) {
     if (!isDrawingRectangle) return;
     isDrawingRectangle = false;
     removeDrawingHandlers();
+    snapper.hideIndicator();
     rectangleCorner1 = null;
     rectangleCorner2 = null;
     clearRectangleSideLabels();
@@ -1049,497 +1220,2194 @@ export default function polygonDrawTool(scene: Scene) {
     scene.requestRender();
   }
 
-  function startDrawing() {
-    isDrawing = true;
+  // Circle drawing - press at the centre and drag out the radius, or click the centre and click again
+  // at the radius. Right click discards the circle being drawn.
+  const MIN_CIRCLE_RADIUS = 0.1;
+  // Presses that move less than this many pixels are clicks rather than drags
+  const CLICK_TOLERANCE_PX = 5;
 
-    interface ClickEvent {
-      position: { x: number; y: number };
+  function removeCirclePreview() {
+    if (activePolylinePrimitive) {
+      scene.primitives.remove(activePolylinePrimitive);
+      activePolylinePrimitive = null;
     }
+    if (activePolygonPrimitive) {
+      scene.primitives.remove(activePolygonPrimitive);
+      activePolygonPrimitive = null;
+    }
+    if (activeLabel) {
+      labelCollection.remove(activeLabel);
+      activeLabel = null;
+    }
+  }
 
-    // Left click to add point
-    handler.setInputAction((click: ClickEvent) => {
-      const cartesian2Pos = new Cartesian2(click.position.x, click.position.y);
-      
-      // Always pick on terrain first to avoid picking on drawn geometry
-      const ray = scene.camera.getPickRay(cartesian2Pos);
-      let cartesian: Cartesian3 | undefined;
-      
-      if (ray) {
-        cartesian = scene.globe.pick(ray, scene);
-      }
-      
-      // Fall back to pickPosition only if terrain pick fails (e.g., for 3D tiles)
-      if (!cartesian) {
-        cartesian = scene.pickPosition(cartesian2Pos);
-      }
-      if (!cartesian) return;
-
-      points.push(cartesian.clone());
-      
-      if (points.length > 0) {
-        updatePreview(cartesian);
-      }
-    }, ScreenSpaceEventType.LEFT_CLICK);
-
-    // Right click to finish polygon
-    handler.setInputAction(() => {
-      if (points.length >= 3) {
-        finalizePolygon();
-      }
-    }, ScreenSpaceEventType.RIGHT_CLICK);
+  function updateCirclePreview(currentMousePos: Cartesian3) {
+    lastMousePos = currentMousePos;
+    if (!circleDrawCenter) return;
 
-    // Mouse move for preview
-    interface MouseMoveEvent {
-      endPosition: { x: number; y: number };
+    removeCirclePreview();
+    const radius = circleRadius(circleDrawCenter, currentMousePos);
+    if (radius < MIN_CIRCLE_RADIUS) {
+      scene.requestRender();
+      return;
     }
 
-    handler.setInputAction((movement: MouseMoveEvent) => {
-      if (points.length === 0) return;
+    const circle = { radius, segments: circleSegments };
+    const baseHeight = circleBaseHeight(circleDrawCenter, circle);
+    const corners = circlePositions(circleDrawCenter, circle, baseHeight);
 
-      const cartesian2Pos = new Cartesian2(movement.endPosition.x, movement.endPosition.y);
-      
-      // Always pick on terrain first to avoid picking on drawn geometry
-      const ray = scene.camera.getPickRay(cartesian2Pos);
-      let cartesian: Cartesian3 | undefined;
-      
-      if (ray) {
-        cartesian = scene.globe.pick(ray, scene);
-      }
-      
-      // Fall back to pickPosition only if terrain pick fails (e.g., for 3D tiles)
-      if (!cartesian) {
-        cartesian = scene.pickPosition(cartesian2Pos);
-      }
-      if (!cartesian) return;
+    // Outline and the radius line
+    activePolylinePrimitive = new Primitive({
+      geometryInstances: [
+        new GeometryInstance({
+          geometry: new PolylineGeometry({ positions: [...corners, corners[0]], width: 3 }),
+          attributes: {
+            color: ColorGeometryInstanceAttribute.fromColor(fillColor.withAlpha(1))
+          }
+        }),
+        new GeometryInstance({
+          geometry: new PolylineGeometry({ positions: [circleDrawCenter, currentMousePos], width: 2 }),
+          attributes: {
+            color: ColorGeometryInstanceAttribute.fromColor(fillColor.withAlpha(1))
+          }
+        }),
+      ],
+      appearance: new PolylineColorAppearance({})
+    });
+    scene.primitives.add(activePolylinePrimitive);
 
-      updatePreview(cartesian);
-    }, ScreenSpaceEventType.MOUSE_MOVE);
+    activePolygonPrimitive = new Primitive({
+      geometryInstances: [new GeometryInstance({
+        geometry: new PolygonGeometry({
+          polygonHierarchy: {
+            positions: corners,
+            holes: []
+          },
+          extrudedHeight: baseHeight + extrudeHeight,
+          perPositionHeight: false,
+        }),
+        attributes: {
+          color: ColorGeometryInstanceAttribute.fromColor(fillColor.withAlpha(fillAlpha))
+        }
+      })],
+      appearance: new PerInstanceColorAppearance({
+        translucent: fillAlpha < 1,
+        closed: true,
+        flat: true,
+        faceForward: false
+      }),
+      shadows: ShadowMode.ENABLED,
+    });
+    scene.primitives.add(activePolygonPrimitive);
 
-    // Expose a method to update preview with last mouse position
-    // Useful for height changes
-    tool.updatePreviewWithLast = () => {
-      if (lastMousePos) updatePreview(lastMousePos);
-    };
-  }
+    activeLabel = labelCollection.add({
+      position: currentMousePos,
+      text: `Radie: ${radius.toFixed(1)} m\nHöjd: ${extrudeHeight}m | Yta: ${computePolygonArea(corners).toFixed(1)} m²`,
+      font: "18px sans-serif",
+      fillColor: Color.WHITE,
+      outlineColor: Color.BLACK,
+      outlineWidth: 2,
+      style: LabelStyle.FILL_AND_OUTLINE,
+      verticalOrigin: VerticalOrigin.BOTTOM,
+      horizontalOrigin: HorizontalOrigin.LEFT,
+      disableDepthTestDistance: Number.POSITIVE_INFINITY,
+      pixelOffset: new Cartesian2(10, 0),
+      show: true,
+    });
 
-  function destroy() {
-    clear();
-    disableSelection();
-    removeDrawingHandlers();
-    handler.destroy();
-    selectionHandler.destroy();
-    scene.primitives.remove(labelCollection);
     scene.requestRender();
   }
 
-  function setLabelsVisible(show: boolean) {
-    labelsVisible = show;
-    polygons.forEach(p => { p.label.show = show; });
-    if (activeLabel) {
-      activeLabel.show = show;
+  // Lowest ground under the centre and the corners, so the cylinder doesn't float on a slope
+  function circleBaseHeight(center: Cartesian3, circle: CircleOptions): number {
+    const centerHeight = Cartographic.fromCartesian(center).height;
+    return circlePositions(center, circle, 0).reduce((lowest, p) => {
+      const c = Cartographic.fromCartesian(p);
+      return Math.min(lowest, groundHeightAt(c.longitude, c.latitude, centerHeight));
+    }, centerHeight);
+  }
+
+  // Regenerates a circle's corners around `center` (default: its current centre) at its base height
+  function applyCircle(polygon: PolygonData, circle: CircleOptions, center = circleCenter(polygon.positions)) {
+    polygon.circle = { ...circle };
+    polygon.positions = circlePositions(center, polygon.circle, polygon.baseHeight);
+    polygon.area = computeAreaWithHoles(polygon.positions, polygon.holes);
+    if (polygon.geojsonFeature?.properties) {
+      polygon.geojsonFeature.properties.area = polygon.area;
+      applyCircleProperties(polygon.geojsonFeature.properties, polygon.circle);
     }
+    syncGeoJsonCoordinates(polygon);
+    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+  }
+
+  // A polygon whose primitives and label are built afterwards by rebuildPolygonWithHeight (through
+  // applyCircle or updateWallFootprint); until then they are empty placeholders outside the scene
+  function unbuiltPolygon(data: Omit<PolygonData, 'outlinePrimitive' | 'fillPrimitive' | 'label'>): PolygonData {
+    return { ...data, outlinePrimitive: new Primitive(), fillPrimitive: new Primitive(), label: labelCollection.add({ position: Cartesian3.ZERO, show: false }) };
+  }
+
+  function finalizeCircle(radiusPoint: Cartesian3) {
+    if (!circleDrawCenter) return;
+    const center = circleDrawCenter;
+    const circle = { radius: circleRadius(center, radiusPoint), segments: circleSegments };
+    if (circle.radius < MIN_CIRCLE_RADIUS) return;
+
+    const featureId = `poly-${featureIdCounter++}`;
+    const name = `Cirkel ${featureIdCounter}`;
+    const baseHeight = circleBaseHeight(center, circle);
+    // Primitives, corners and area are filled in by applyCircle
+    const polygon = unbuiltPolygon({
+      id: featureId,
+      name,
+      outlineInstanceId: `${featureId}-outline`,
+      fillInstanceId: `${featureId}-fill`,
+      positions: [],
+      holes: [],
+      baseHeight,
+      extrudeHeight,
+      area: 0,
+      color: fillColor.clone(),
+      fillAlpha,
+      geojsonFeature: {
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [] },
+        properties: {
+          id: featureId,
+          name,
+          extrudeHeight,
+          baseHeight,
+          color: fillColor.toCssColorString(),
+          fillAlpha,
+        },
+      },
+    });
+    polygons.push(polygon);
+    applyCircle(polygon, circle, center);
+    applyDefaultBaseMode(polygon);
+    if (defaultRoof) applyRoof(polygon, defaultRoof);
+    recordCreated(polygon);
+
+    // Reset for the next circle
+    circleDrawCenter = null;
+    removeCirclePreview();
     scene.requestRender();
   }
 
-  // Selection and editing methods
-  function enableSelection(callback?: PolygonSelectionCallback) {
-    if (selectionEnabled) return;
-    selectionEnabled = true;
-    selectionCallback = callback || null;
+  function startDrawingCircle() {
+    isDrawingCircle = true;
+    circleDrawCenter = null;
 
     interface ClickEvent {
       position: { x: number; y: number };
     }
 
-    selectionHandler.setInputAction((click: ClickEvent) => {
-      // Don't select while drawing
-      if (isDrawing && points.length > 0) return;
+    interface MouseMoveEvent {
+      endPosition: { x: number; y: number };
+    }
 
-      const pickedObject = scene.pick(new Cartesian2(click.position.x, click.position.y));
-      
-      if (pickedObject) {
-        // Check by instance ID (string)
-        if (pickedObject.id && typeof pickedObject.id === 'string') {
-          const polygon = polygons.find(p => 
-            p.fillInstanceId === pickedObject.id || 
-            p.outlineInstanceId === pickedObject.id
-          );
-          if (polygon) {
-            selectPolygon(polygon.id);
-            return;
-          }
-        }
+    handler.setInputAction((click: ClickEvent) => {
+      if (circleDrawCenter) return;
+      const windowPosition = new Cartesian2(click.position.x, click.position.y);
+      const cartesian = pickDrawPosition(windowPosition);
+      if (!cartesian) return;
+      circleDrawCenter = cartesian.clone();
+      circlePressPosition = windowPosition;
+      // Dragging sets the radius instead of moving the camera
+      scene.screenSpaceCameraController.enableInputs = false;
+    }, ScreenSpaceEventType.LEFT_DOWN);
 
-        // Check by primitive reference (for cases where id is not set or different)
-        if (pickedObject.primitive) {
-          const polygon = polygons.find(p => 
-            p.fillPrimitive === pickedObject.primitive || 
-            p.outlinePrimitive === pickedObject.primitive
-          );
-          if (polygon) {
-            selectPolygon(polygon.id);
-            return;
-          }
+    handler.setInputAction((click: ClickEvent) => {
+      scene.screenSpaceCameraController.enableInputs = true;
+      if (!circleDrawCenter) return;
+      const windowPosition = new Cartesian2(click.position.x, click.position.y);
+      const pressPosition = circlePressPosition;
+      circlePressPosition = null;
+      // A click without a drag keeps the centre and waits for the radius click
+      if (pressPosition && Cartesian2.distance(pressPosition, windowPosition) < CLICK_TOLERANCE_PX) return;
+      const cartesian = pickDrawPosition(windowPosition);
+      if (cartesian) finalizeCircle(cartesian);
+    }, ScreenSpaceEventType.LEFT_UP);
+
+    handler.setInputAction(() => {
+      circleDrawCenter = null;
+      circlePressPosition = null;
+      removeCirclePreview();
+      scene.requestRender();
+    }, ScreenSpaceEventType.RIGHT_CLICK);
+
+    handler.setInputAction((movement: MouseMoveEvent) => {
+      const cartesian = pickDrawPosition(new Cartesian2(movement.endPosition.x, movement.endPosition.y));
+      if (!circleDrawCenter || !cartesian) return;
+      updateCirclePreview(cartesian);
+    }, ScreenSpaceEventType.MOUSE_MOVE);
+  }
+
+  function stopDrawingCircle() {
+    if (!isDrawingCircle) return;
+    isDrawingCircle = false;
+    removeDrawingHandlers();
+    snapper.hideIndicator();
+    scene.screenSpaceCameraController.enableInputs = true;
+    circleDrawCenter = null;
+    circlePressPosition = null;
+    removeCirclePreview();
+    scene.requestRender();
+  }
+
+  // Wall drawing - left click adds points along the centre line, right click finishes the wall
+  // (at least 2 points). The base follows the ground under each point.
+  function removeWallPreview() {
+    if (activePolylinePrimitive) {
+      scene.primitives.remove(activePolylinePrimitive);
+      activePolylinePrimitive = null;
+    }
+    if (activePolygonPrimitive) {
+      scene.primitives.remove(activePolygonPrimitive);
+      activePolygonPrimitive = null;
+    }
+    if (activeLabel) {
+      labelCollection.remove(activeLabel);
+      activeLabel = null;
+    }
+  }
+
+  function updateWallPreview(currentMousePos: Cartesian3) {
+    lastMousePos = currentMousePos;
+    if (wallPoints.length === 0) return;
+
+    const line = cleanWallLine([...wallPoints, currentMousePos]);
+    removeWallPreview();
+
+    if (line.length >= 2) {
+      activePolylinePrimitive = new Primitive({
+        geometryInstances: [new GeometryInstance({
+          geometry: new PolylineGeometry({ positions: line, width: 3 }),
+          attributes: {
+            color: ColorGeometryInstanceAttribute.fromColor(fillColor.withAlpha(1))
+          }
+        })],
+        appearance: new PolylineColorAppearance({})
+      });
+      scene.primitives.add(activePolylinePrimitive);
+
+      const outline = wallOutline(line, wallThickness);
+      activePolygonPrimitive = new Primitive({
+        geometryInstances: [new GeometryInstance({
+          geometry: new PolygonGeometry({
+            polygonHierarchy: {
+              positions: outline.map(p => {
+                const c = Cartographic.fromCartesian(p);
+                return Cartesian3.fromRadians(c.longitude, c.latitude, c.height + extrudeHeight);
+              }),
+              holes: []
+            },
+            extrudedHeight: 0,
+            perPositionHeight: true,
+          }),
+          attributes: {
+            color: ColorGeometryInstanceAttribute.fromColor(fillColor.withAlpha(fillAlpha))
+          }
+        })],
+        appearance: new PerInstanceColorAppearance({
+          translucent: fillAlpha < 1,
+          closed: true,
+          flat: true,
+          faceForward: false
+        }),
+        shadows: ShadowMode.ENABLED,
+      });
+      scene.primitives.add(activePolygonPrimitive);
+
+      activeLabel = labelCollection.add({
+        position: currentMousePos,
+        text: `${line.length} punkter | Längd: ${wallLength(line).toFixed(1)} m | Höjd: ${extrudeHeight}m`,
+        font: "20px sans-serif",
+        fillColor: Color.WHITE,
+        outlineColor: Color.BLACK,
+        outlineWidth: 2,
+        style: LabelStyle.FILL_AND_OUTLINE,
+        verticalOrigin: VerticalOrigin.BOTTOM,
+        horizontalOrigin: HorizontalOrigin.LEFT,
+        disableDepthTestDistance: Number.POSITIVE_INFINITY,
+        pixelOffset: new Cartesian2(10, 0),
+        show: labelsVisible,
+      });
+    }
+
+    scene.requestRender();
+  }
+
+  // Creates a wall from its centre line; `properties` are kept in its GeoJSON feature
+  function createWall(
+    line: Cartesian3[],
+    options: {
+      name?: string; thickness: number; extrudeHeight: number; color: Color; fillAlpha: number; properties?: any; groupId?: string
+    }
+  ): PolygonData {
+    const featureId = `poly-${featureIdCounter++}`;
+    const name = options.name ?? `Vägg ${featureIdCounter}`;
+    // Primitives, footprint and heights are filled in by updateWallFootprint
+    const polygon = unbuiltPolygon({
+      id: featureId,
+      name,
+      outlineInstanceId: `${featureId}-outline`,
+      fillInstanceId: `${featureId}-fill`,
+      positions: [],
+      holes: [],
+      baseHeight: 0,
+      extrudeHeight: options.extrudeHeight,
+      area: 0,
+      color: options.color.clone(),
+      fillAlpha: options.fillAlpha,
+      geojsonFeature: {
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: [] },
+        properties: {
+          ...options.properties,
+          id: featureId,
+          name,
+          extrudeHeight: options.extrudeHeight,
+          color: options.color.toCssColorString(),
+          fillAlpha: options.fillAlpha,
+        },
+      },
+      groupId: options.groupId,
+      wall: { line: cleanWallLine(line).map(p => Cartesian3.clone(p)), thickness: options.thickness },
+    });
+    polygons.push(polygon);
+    updateWallFootprint(polygon);
+    return polygon;
+  }
+
+  // Recomputes a wall's footprint, base height and area from its centre line and thickness
+  function updateWallFootprint(polygon: PolygonData) {
+    if (!polygon.wall) return;
+    polygon.positions = wallOutline(polygon.wall.line, polygon.wall.thickness);
+    polygon.baseHeight = getLowestZValue(polygon.wall.line);
+    polygon.area = computePolygonArea(polygon.positions);
+    syncGeoJsonCoordinates(polygon);
+    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+  }
+
+  function finalizeWall() {
+    const line = cleanWallLine(wallPoints);
+    if (line.length < 2) {
+      console.warn("Need at least 2 points to create a wall");
+      return;
+    }
+
+    const polygon = createWall(line, { thickness: wallThickness, extrudeHeight, color: fillColor, fillAlpha });
+    recordCreated(polygon);
+
+    // Reset for the next wall
+    wallPoints = [];
+    removeWallPreview();
+    scene.requestRender();
+  }
+
+  function startDrawingWall() {
+    isDrawingWall = true;
+    wallPoints = [];
+
+    interface ClickEvent {
+      position: { x: number; y: number };
+    }
+
+    interface MouseMoveEvent {
+      endPosition: { x: number; y: number };
+    }
+
+    handler.setInputAction((click: ClickEvent) => {
+      const cartesian = pickDrawPosition(new Cartesian2(click.position.x, click.position.y), wallPoints);
+      if (!cartesian) return;
+      wallPoints.push(cartesian.clone());
+      updateWallPreview(cartesian);
+    }, ScreenSpaceEventType.LEFT_CLICK);
+
+    handler.setInputAction(() => {
+      finalizeWall();
+    }, ScreenSpaceEventType.RIGHT_CLICK);
+
+    handler.setInputAction((movement: MouseMoveEvent) => {
+      const cartesian = pickDrawPosition(new Cartesian2(movement.endPosition.x, movement.endPosition.y), wallPoints);
+      if (wallPoints.length === 0 || !cartesian) return;
+      updateWallPreview(cartesian);
+    }, ScreenSpaceEventType.MOUSE_MOVE);
+  }
+
+  function stopDrawingWall() {
+    if (!isDrawingWall) return;
+    isDrawingWall = false;
+    removeDrawingHandlers();
+    snapper.hideIndicator();
+    wallPoints = [];
+    removeWallPreview();
+    scene.requestRender();
+  }
+
+  function startDrawing() {
+    isDrawing = true;
+
+    interface ClickEvent {
+      position: { x: number; y: number };
+    }
+
+    // Left click to add point
+    handler.setInputAction((click: ClickEvent) => {
+      const cartesian = pickDrawPosition(new Cartesian2(click.position.x, click.position.y), points);
+      if (!cartesian) return;
+
+      points.push(cartesian.clone());
+      
+      if (points.length > 0) {
+        updatePreview(cartesian);
+      }
+    }, ScreenSpaceEventType.LEFT_CLICK);
+
+    // Right click to finish polygon
+    handler.setInputAction(() => {
+      if (points.length >= 3) {
+        finalizePolygon();
+      }
+    }, ScreenSpaceEventType.RIGHT_CLICK);
+
+    // Mouse move for preview
+    interface MouseMoveEvent {
+      endPosition: { x: number; y: number };
+    }
+
+    handler.setInputAction((movement: MouseMoveEvent) => {
+      // Picked before the first point too, so the snap indicator shows where it will go
+      const cartesian = pickDrawPosition(new Cartesian2(movement.endPosition.x, movement.endPosition.y), points);
+      if (points.length === 0 || !cartesian) return;
+
+      updatePreview(cartesian);
+    }, ScreenSpaceEventType.MOUSE_MOVE);
+
+    // Expose a method to update preview with last mouse position
+    // Useful for height changes
+    tool.updatePreviewWithLast = () => {
+      if (lastMousePos) updatePreview(lastMousePos);
+    };
+  }
+
+  // Typed segments - the next polygon corner, the end of a rectangle's first edge or its width, from a length
+  // and/or angle. What is left out comes from the cursor. Points are put on the ground under them.
+  function segmentPoint(input: SegmentInput): Cartesian3 | undefined {
+    let point: Cartesian3 | undefined;
+    if (isDrawing) {
+      point = resolveSegment(points, lastMousePos, input);
+    } else if (isDrawingRectangle && rectangleCorner1 && !rectangleCorner2) {
+      point = resolveSegment([rectangleCorner1], lastMousePos, input);
+    } else if (isDrawingRectangle && rectangleCorner1 && rectangleCorner2 && input.length && input.length > 0) {
+      // The width goes to the side of the cursor, left of the first edge by default
+      const side = lastMousePos && computePerpendicularWidth(rectangleCorner1, rectangleCorner2, lastMousePos) < 0 ? -1 : 1;
+      point = pointAtBearing(rectangleCorner2, bearingBetween(rectangleCorner1, rectangleCorner2) - 90 * side, input.length);
+    }
+    if (!point) return undefined;
+    const c = Cartographic.fromCartesian(point);
+    return Cartesian3.fromRadians(c.longitude, c.latitude, groundHeightAt(c.longitude, c.latitude, c.height));
+  }
+
+  // Shows where a typed segment would end
+  function previewSegment(input: SegmentInput): boolean {
+    const point = segmentPoint(input);
+    if (!point) return false;
+    if (isDrawing) {
+      updatePreview(point);
+    } else {
+      updateRectanglePreview(point);
+    }
+    scene.requestRender();
+    return true;
+  }
+
+  // Adds the typed segment as if its end had been clicked
+  function addSegment(input: SegmentInput): boolean {
+    const point = segmentPoint(input);
+    if (!point) return false;
+    if (isDrawing) {
+      points.push(point);
+      updatePreview(point);
+    } else {
+      addRectanglePoint(point);
+      if (isDrawingRectangle && rectangleCorner1) updateRectanglePreview(point);
+    }
+    scene.requestRender();
+    return true;
+  }
+
+  function destroy() {
+    // Tearing down is not a user edit
+    polygonsChangeCallback = null;
+    editErrorCallback = null;
+    clear();
+    disableSelection();
+    removeDrawingHandlers();
+    handler.destroy();
+    selectionHandler.destroy();
+    vertexHandler.destroy();
+    snapper.destroy();
+    scene.primitives.remove(labelCollection);
+    scene.primitives.remove(vertexHandles);
+    scene.requestRender();
+  }
+
+  function setLabelsVisible(show: boolean) {
+    labelsVisible = show;
+    polygons.forEach(p => { p.label.show = show; });
+    if (activeLabel) {
+      activeLabel.show = show;
+    }
+    scene.requestRender();
+  }
+
+  // Selection and editing methods. A click selects one polygon, Shift/Ctrl-click adds a polygon to the
+  // selection (or removes it) and Shift-dragging a box adds every polygon with all corners inside it.
+  interface ClickEvent {
+    position: { x: number; y: number };
+  }
+
+  interface MouseMoveEvent {
+    endPosition: { x: number; y: number };
+  }
+
+  const SELECTION_MODIFIERS = [KeyboardEventModifier.SHIFT, KeyboardEventModifier.CTRL];
+
+  // Selection box, in window coordinates from where the drag started
+  let selectionBoxStart: Cartesian2 | null = null;
+  let selectionBoxElement: HTMLDivElement | null = null;
+
+  function pickPolygon(windowPosition: Cartesian2): PolygonData | undefined {
+    const pickedObject = scene.pick(windowPosition);
+    if (!pickedObject) return undefined;
+
+    // Check by instance ID (string)
+    if (pickedObject.id && typeof pickedObject.id === 'string') {
+      const polygon = polygons.find(p =>
+        p.fillInstanceId === pickedObject.id ||
+        p.outlineInstanceId === pickedObject.id
+      );
+      if (polygon) return polygon;
+    }
+
+    // Check by primitive reference (for cases where id is not set or different)
+    if (pickedObject.primitive) {
+      return polygons.find(p =>
+        p.fillPrimitive === pickedObject.primitive ||
+        p.outlinePrimitive === pickedObject.primitive
+      );
+    }
+    return undefined;
+  }
+
+  function isDrawingAnything(): boolean {
+    return isDrawing || isDrawingRectangle || isDrawingWall || isDrawingCircle || isCuttingHole;
+  }
+
+  function updateSelectionBox(end: Cartesian2) {
+    if (!selectionBoxStart) return;
+    if (!selectionBoxElement) {
+      selectionBoxElement = document.createElement('div');
+      selectionBoxElement.style.cssText = 'position: absolute; pointer-events: none; border: 1px dashed #ffff00; background: rgba(255, 255, 0, 0.15);';
+      scene.canvas.parentElement?.appendChild(selectionBoxElement);
+    }
+    selectionBoxElement.style.left = `${Math.min(selectionBoxStart.x, end.x)}px`;
+    selectionBoxElement.style.top = `${Math.min(selectionBoxStart.y, end.y)}px`;
+    selectionBoxElement.style.width = `${Math.abs(end.x - selectionBoxStart.x)}px`;
+    selectionBoxElement.style.height = `${Math.abs(end.y - selectionBoxStart.y)}px`;
+  }
+
+  function removeSelectionBox() {
+    if (selectionBoxStart) {
+      scene.screenSpaceCameraController.enableInputs = true;
+    }
+    selectionBoxElement?.parentElement?.removeChild(selectionBoxElement);
+    selectionBoxElement = null;
+    selectionBoxStart = null;
+  }
+
+  function finishSelectionBox(end: Cartesian2) {
+    const start = selectionBoxStart;
+    removeSelectionBox();
+    // A press without a drag is a Shift-click
+    if (!start || Cartesian2.distance(start, end) < CLICK_TOLERANCE_PX) return;
+
+    const minX = Math.min(start.x, end.x);
+    const maxX = Math.max(start.x, end.x);
+    const minY = Math.min(start.y, end.y);
+    const maxY = Math.max(start.y, end.y);
+    const inside = polygons.filter(p => p.positions.every(position => {
+      const w = SceneTransforms.worldToWindowCoordinates(scene, position);
+      return !!w && w.x >= minX && w.x <= maxX && w.y >= minY && w.y <= maxY;
+    }));
+    if (inside.length) {
+      selectPolygons(inside.map(p => p.id), true);
+    }
+  }
+
+  function enableSelection(callback?: PolygonSelectionCallback) {
+    if (selectionEnabled) return;
+    selectionEnabled = true;
+    selectionCallback = callback || null;
+
+    const onClick = (additive: boolean) => (click: ClickEvent) => {
+      // Don't select while drawing
+      if (isDrawing && points.length > 0) return;
+      if (isCuttingHole) return;
+
+      const windowPosition = new Cartesian2(click.position.x, click.position.y);
+      // Clicks on vertex handles belong to the vertex editor
+      if (getPickedVertexHandle(windowPosition)) return;
+
+      const polygon = pickPolygon(windowPosition);
+      if (polygon) {
+        selectPolygon(polygon.id, additive);
+        return;
+      }
+
+      // Clicked elsewhere - deselect (Shift/Ctrl-clicks next to the polygons keep the selection)
+      if (!additive) {
+        deselectPolygon();
+      }
+    };
+    selectionHandler.setInputAction(onClick(false), ScreenSpaceEventType.LEFT_CLICK);
+    SELECTION_MODIFIERS.forEach(modifier =>
+      selectionHandler.setInputAction(onClick(true), ScreenSpaceEventType.LEFT_CLICK, modifier));
+
+    selectionHandler.setInputAction((click: ClickEvent) => {
+      if (isDrawingAnything()) return;
+      selectionBoxStart = new Cartesian2(click.position.x, click.position.y);
+      // Dragging draws the box instead of turning the camera
+      scene.screenSpaceCameraController.enableInputs = false;
+    }, ScreenSpaceEventType.LEFT_DOWN, KeyboardEventModifier.SHIFT);
+
+    // Shift may be let go before the button
+    [undefined, KeyboardEventModifier.SHIFT].forEach(modifier => {
+      selectionHandler.setInputAction((movement: MouseMoveEvent) => {
+        updateSelectionBox(new Cartesian2(movement.endPosition.x, movement.endPosition.y));
+      }, ScreenSpaceEventType.MOUSE_MOVE, modifier);
+      selectionHandler.setInputAction((click: ClickEvent) => {
+        if (selectionBoxStart) finishSelectionBox(new Cartesian2(click.position.x, click.position.y));
+      }, ScreenSpaceEventType.LEFT_UP, modifier);
+    });
+  }
+
+  function disableSelection() {
+    if (!selectionEnabled) return;
+    selectionEnabled = false;
+    selectionHandler.removeInputAction(ScreenSpaceEventType.LEFT_CLICK);
+    SELECTION_MODIFIERS.forEach(modifier => selectionHandler.removeInputAction(ScreenSpaceEventType.LEFT_CLICK, modifier));
+    selectionHandler.removeInputAction(ScreenSpaceEventType.LEFT_DOWN, KeyboardEventModifier.SHIFT);
+    [undefined, KeyboardEventModifier.SHIFT].forEach(modifier => {
+      selectionHandler.removeInputAction(ScreenSpaceEventType.MOUSE_MOVE, modifier);
+      selectionHandler.removeInputAction(ScreenSpaceEventType.LEFT_UP, modifier);
+    });
+    removeSelectionBox();
+    deselectPolygon();
+  }
+
+  // `additive` adds the polygon to the selection, or takes it out when it is already selected
+  function selectPolygon(polygonId: string, additive = false) {
+    if (!polygons.some(p => p.id === polygonId)) return;
+
+    if (additive && selectedPolygonIds.indexOf(polygonId) !== -1) {
+      selectedPolygonIds = selectedPolygonIds.filter(id => id !== polygonId);
+    } else {
+      selectedPolygonIds = (additive ? selectedPolygonIds : []).concat(polygonId);
+    }
+    onSelectionChanged();
+  }
+
+  function selectPolygons(polygonIds: string[], additive = false) {
+    const ids = polygonIds.filter((id, i) => polygonIds.indexOf(id) === i && polygons.some(p => p.id === id));
+    const kept = additive ? selectedPolygonIds.filter(id => ids.indexOf(id) === -1) : [];
+    selectedPolygonIds = kept.concat(ids);
+    onSelectionChanged();
+  }
+
+  function deselectPolygon() {
+    if (!selectedPolygonIds.length) return;
+    selectedPolygonIds = [];
+    onSelectionChanged();
+  }
+
+  function onSelectionChanged() {
+    // Corners and holes are edited on the one selected polygon
+    const editedId = selectedPolygonIds.length === 1 ? selectedPolygonIds[0] : null;
+    if (vertexEditPolygonId && vertexEditPolygonId !== editedId) {
+      stopVertexEdit();
+    }
+    if (holePolygonId && holePolygonId !== editedId) {
+      stopCuttingHole();
+    }
+
+    // Visual feedback - selected polygons and their groups get a yellow outline
+    polygons.forEach(p => setOutlineColor(p, isHighlighted(p) ? Color.YELLOW.withAlpha(1) : p.color.withAlpha(1)));
+
+    scene.requestRender();
+    notifySelection();
+  }
+
+  function notifySelection() {
+    selectionCallback?.(getSelectedPolygon(), getSelectedPolygons());
+  }
+
+  // Drops a removed polygon from the selection; true when it was selected
+  function unselect(polygonId: string): boolean {
+    if (selectedPolygonIds.indexOf(polygonId) === -1) return false;
+    selectedPolygonIds = selectedPolygonIds.filter(id => id !== polygonId);
+    return true;
+  }
+
+  // All polygons in the same group as the given one (just the polygon itself when ungrouped)
+  function getGroupMembers(polygon: PolygonData): PolygonData[] {
+    if (!polygon.groupId) return [polygon];
+    return polygons.filter(p => p.groupId === polygon.groupId);
+  }
+
+  // Whether the polygon is selected or belongs to the group of a selected polygon
+  function isHighlighted(polygon: PolygonData): boolean {
+    return selectedPolygonIds.some(id => {
+      if (id === polygon.id) return true;
+      const selected = polygons.find(p => p.id === id);
+      return !!selected?.groupId && selected.groupId === polygon.groupId;
+    });
+  }
+
+  // Whether more than one polygon (or group) is selected
+  function isMultipleSelection(): boolean {
+    const [first, ...rest] = getSelectedPolygons();
+    return rest.some(p => !first.groupId || p.groupId !== first.groupId);
+  }
+
+  // Polygons an edit of one polygon applies to: the whole selection when several polygons are selected
+  // and the polygon is one of them, otherwise the polygon itself or, with `wholeGroup`, its group
+  function getEditTargets(polygon: PolygonData, wholeGroup: boolean): PolygonData[] {
+    if (isMultipleSelection() && isHighlighted(polygon)) return getSelectedPolygons();
+    return wholeGroup ? getGroupMembers(polygon) : [polygon];
+  }
+
+  // Outline instance ids: the outer ring plus one per hole
+  function getOutlineInstanceIds(polygon: PolygonData): string[] {
+    return [polygon.outlineInstanceId, ...(polygon.holes || []).map((_, i) => `${polygon.outlineInstanceId}-hole-${i}`)];
+  }
+
+  function createOutlineInstances(polygon: PolygonData, color: Color): GeometryInstance[] {
+    const rings = [polygon.positions, ...(polygon.holes || [])];
+    const ids = getOutlineInstanceIds(polygon);
+    return rings.map((ring, i) => new GeometryInstance({
+      id: ids[i],
+      geometry: new PolylineGeometry({
+        positions: [...ring, ring[0]],
+        width: 2,
+      }),
+      attributes: {
+        color: ColorGeometryInstanceAttribute.fromColor(color)
+      }
+    }));
+  }
+
+  function setOutlineColor(polygon: PolygonData, color: Color) {
+    getOutlineInstanceIds(polygon).forEach(instanceId => {
+      try {
+        const outlineAttrs: any = (polygon.outlinePrimitive as any).getGeometryInstanceAttributes?.(instanceId);
+        if (outlineAttrs?.color) {
+          outlineAttrs.color = ColorGeometryInstanceAttribute.toValue(color);
+        }
+      } catch {
+        // ignore
+      }
+    });
+  }
+
+  // Write the polygon's rings (outer ring first, then holes) back to its GeoJSON feature
+  function syncGeoJsonCoordinates(polygon: PolygonData) {
+    if (!polygon.geojsonFeature?.geometry?.coordinates) return;
+    if (polygon.wall) {
+      // Walls are stored as their centre line, with the ground height of each point
+      const cartos = polygon.wall.line.map(p => Cartographic.fromCartesian(p));
+      polygon.geojsonFeature.geometry = {
+        type: "LineString",
+        coordinates: cartos.map(c => [CesiumMath.toDegrees(c.longitude), CesiumMath.toDegrees(c.latitude), c.height]),
+      };
+      Object.assign(polygon.geojsonFeature.properties, {
+        baseHeight: polygon.baseHeight,
+        baseHeights: cartos.map(c => c.height),
+        thickness: polygon.wall.thickness,
+        length: wallLength(polygon.wall.line),
+        area: polygon.area,
+      });
+      return;
+    }
+    const toRing = (ring: Cartesian3[]) => {
+      const coords = ring.map(p => {
+        const c = Cartographic.fromCartesian(p);
+        return [CesiumMath.toDegrees(c.longitude), CesiumMath.toDegrees(c.latitude), polygon.baseHeight];
+      });
+      return coords.concat([coords[0]]);
+    };
+    polygon.geojsonFeature.geometry.coordinates = [toRing(polygon.positions), ...polygon.holes.map(toRing)];
+  }
+
+  // The polygon shown in the edit panel: the last one selected
+  function getSelectedPolygon(): PolygonData | null {
+    const id = selectedPolygonIds[selectedPolygonIds.length - 1];
+    return polygons.find(p => p.id === id) || null;
+  }
+
+  // Every selected polygon together with the rest of their groups
+  function getSelectedPolygons(): PolygonData[] {
+    return polygons.filter(isHighlighted);
+  }
+
+  // Base height under a corner: walls follow the terrain point by point, polygons are flat
+  function vertexBaseHeight(polygon: PolygonData, corner: Cartographic): number {
+    return polygon.wall ? corner.height : polygon.baseHeight;
+  }
+
+  // Top of the volume including the roof ridge
+  function topHeight(polygon: PolygonData): number {
+    const roof = pitchedRoof(polygon);
+    const top = polygon.baseHeight + polygon.extrudeHeight;
+    return roof ? top + computeRoofMetrics(polygon.positions, roof).peak : top;
+  }
+
+  function polygonLabelText(polygon: PolygonData): string {
+    const size = polygon.wall ? `Längd: ${wallLength(polygon.wall.line).toFixed(1)} m`
+      : polygon.circle ? `Radie: ${polygon.circle.radius.toFixed(1)} m | Yta: ${polygon.area.toFixed(1)} m²`
+      : `Yta: ${polygon.area.toFixed(1)} m²`;
+    return `${polygon.name}\nBas: ${polygon.baseHeight.toFixed(2)}m\nHöjd: ${polygon.extrudeHeight}m\nTopp: ${topHeight(polygon).toFixed(2)}m\n${size}`;
+  }
+
+  function updatePolygonLabel(polygon: PolygonData) {
+    polygon.label.text = polygonLabelText(polygon);
+  }
+
+  // Fill appearance of a built polygon: its materials, or the plain colour
+  function fillAppearance(polygon: PolygonData, alpha: number) {
+    if (polygon.material) return createMaterialAppearance(polygon.material, alpha < 1, polygon.extrudeHeight);
+    return new PerInstanceColorAppearance({
+      translucent: alpha < 1,
+      closed: true,
+      flat: true,
+      faceForward: false
+    });
+  }
+
+  // Where material patterns start: the first corner at the base height (walls at its ground height)
+  function materialOrigin(polygon: PolygonData): Cartesian3 {
+    const c = Cartographic.fromCartesian(polygon.positions[0]);
+    return Cartesian3.fromRadians(c.longitude, c.latitude, polygon.wall ? c.height : polygon.baseHeight);
+  }
+
+  // The extruded footprint with the roof triangles appended, as one ready-made geometry
+  function createRoofedGeometry(prism: PolygonGeometry, polygon: PolygonData, roof: RoofOptions): Geometry | undefined {
+    const base = PolygonGeometry.createGeometry(prism);
+    if (!base || !base.indices || !base.attributes.position) return undefined;
+    const roofPositions = computeRoofTriangles(polygon.positions, polygon.baseHeight + polygon.extrudeHeight, roof)
+      .reduce((acc, triangle) => acc.concat(triangle.map(c => Cartographic.toCartesian(c))), [] as Cartesian3[]);
+    if (!roofPositions.length) return base;
+
+    const baseValues = base.attributes.position.values as Float64Array;
+    const baseCount = baseValues.length / 3;
+    const values = new Float64Array(baseValues.length + roofPositions.length * 3);
+    values.set(baseValues);
+    roofPositions.forEach((p, i) => values.set([p.x, p.y, p.z], baseValues.length + i * 3));
+
+    const vertexCount = baseCount + roofPositions.length;
+    const indices = vertexCount > 65535
+      ? new Uint32Array(base.indices.length + roofPositions.length)
+      : new Uint16Array(base.indices.length + roofPositions.length);
+    indices.set(base.indices);
+    roofPositions.forEach((_, i) => { indices[base.indices!.length + i] = baseCount + i; });
+
+    const positionAttribute = new GeometryAttribute({
+      componentDatatype: ComponentDatatype.DOUBLE,
+      componentsPerAttribute: 3,
+      values,
+    });
+    return new Geometry({
+      attributes: { position: positionAttribute } as any,
+      indices,
+      primitiveType: PrimitiveType.TRIANGLES,
+      boundingSphere: BoundingSphere.fromVertices(Array.prototype.slice.call(values)),
+    });
+  }
+
+  function setPolygonName(polygonId: string, name: string) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon) return;
+
+    const before = captureStates([polygonId]);
+    polygon.name = name;
+    if (polygon.geojsonFeature?.properties) {
+      polygon.geojsonFeature.properties.name = name;
+    }
+    updatePolygonLabel(polygon);
+    commitChange('rename', before, `rename:${polygonId}`);
+    scene.requestRender();
+  }
+
+  function setPolygonColor(polygonId: string, colorName: string) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon) return;
+
+    let newColor: Color;
+    switch ((colorName ?? '').toLowerCase()) {
+      case 'white': newColor = Color.WHITE; break;
+      case 'red': newColor = Color.RED; break;
+      case 'green': newColor = Color.LIME; break;
+      case 'blue': newColor = Color.DODGERBLUE; break;
+      case 'yellow': newColor = Color.YELLOW; break;
+      case 'cyan': newColor = Color.CYAN; break;
+      default: newColor = Color.WHITE; break;
+    }
+
+    const targets = getEditTargets(polygon, false);
+    const before = captureStates(targets.map(t => t.id));
+    targets.forEach(target => {
+      target.color = newColor.clone();
+      if (target.geojsonFeature?.properties) {
+        target.geojsonFeature.properties.color = newColor.toCssColorString();
+      }
+
+      // Update outline (unless selected, then keep yellow)
+      if (!isHighlighted(target)) {
+        setOutlineColor(target, newColor.withAlpha(1));
+      }
+
+      // Update fill
+      try {
+        const fillAttrs: any = (target.fillPrimitive as any).getGeometryInstanceAttributes?.(target.fillInstanceId);
+        if (fillAttrs?.color) {
+          fillAttrs.color = ColorGeometryInstanceAttribute.toValue(newColor.withAlpha(target.fillAlpha));
+        }
+      } catch {
+        // ignore
+      }
+    });
+
+    commitChange('recolor', before);
+    scene.requestRender();
+  }
+
+  function setPolygonOpacity(polygonId: string, opaque: boolean) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon) return;
+
+    const newAlpha = opaque ? 1 : 0.7;
+    const targets = getEditTargets(polygon, false);
+    const before = captureStates(targets.map(t => t.id));
+    targets.forEach(target => {
+      target.fillAlpha = newAlpha;
+      if (target.geojsonFeature?.properties) {
+        target.geojsonFeature.properties.fillAlpha = newAlpha;
+      }
+
+      // Update fill
+      try {
+        const fillAttrs: any = (target.fillPrimitive as any).getGeometryInstanceAttributes?.(target.fillInstanceId);
+        if (fillAttrs?.color) {
+          fillAttrs.color = ColorGeometryInstanceAttribute.toValue(target.color.withAlpha(newAlpha));
         }
+        (target.fillPrimitive as any).appearance = fillAppearance(target, newAlpha);
+      } catch {
+        // ignore
       }
+    });
 
-      // Clicked elsewhere - deselect
-      deselectPolygon();
-    }, ScreenSpaceEventType.LEFT_CLICK);
+    commitChange('opacity', before);
+    scene.requestRender();
   }
 
-  function disableSelection() {
-    if (!selectionEnabled) return;
-    selectionEnabled = false;
-    selectionHandler.removeInputAction(ScreenSpaceEventType.LEFT_CLICK);
-    deselectPolygon();
+  function rebuildPolygonWithHeight(polygon: PolygonData, newHeight: number) {
+    // Remove old primitives
+    scene.primitives.remove(polygon.outlinePrimitive);
+    scene.primitives.remove(polygon.fillPrimitive);
+    labelCollection.remove(polygon.label);
+
+    // Update height
+    polygon.extrudeHeight = newHeight;
+    if (polygon.geojsonFeature?.properties) {
+      polygon.geojsonFeature.properties.extrudeHeight = newHeight;
+    }
+
+    // Recreate outline (outer ring and holes)
+    const outlineInstances = createOutlineInstances(
+      polygon,
+      isHighlighted(polygon) ? Color.YELLOW : polygon.color.withAlpha(1)
+    );
+    polygon.outlinePrimitive = new Primitive({
+      geometryInstances: outlineInstances,
+      appearance: new PolylineColorAppearance({})
+    });
+    scene.primitives.add(polygon.outlinePrimitive);
+
+    // Recreate fill (with the roof, if any, in the same instance so picking and colouring stay the same)
+    const prism = polygon.wall
+      ? new PolygonGeometry({
+        // Walls follow the ground: the top is the wall height above each corner
+        polygonHierarchy: {
+          positions: polygon.positions.map(p => {
+            const c = Cartographic.fromCartesian(p);
+            return Cartesian3.fromRadians(c.longitude, c.latitude, c.height + newHeight);
+          }),
+          holes: []
+        },
+        extrudedHeight: 0,
+        perPositionHeight: true,
+        vertexFormat: PerInstanceColorAppearance.FLAT_VERTEX_FORMAT,
+      })
+      : new PolygonGeometry({
+        polygonHierarchy: {
+          positions: polygon.positions,
+          holes: (polygon.holes || []).map(hole => ({ positions: hole, holes: [] }))
+        },
+        extrudedHeight: polygon.baseHeight + newHeight,
+        perPositionHeight: false,
+        vertexFormat: PerInstanceColorAppearance.FLAT_VERTEX_FORMAT,
+      });
+    const roof = pitchedRoof(polygon);
+    let fillGeometry: PolygonGeometry | Geometry = (roof && createRoofedGeometry(prism, polygon, roof)) || prism;
+    // Materials are drawn from each vertex's position relative to the base
+    if (polygon.material) {
+      const geometry = fillGeometry instanceof Geometry ? fillGeometry : PolygonGeometry.createGeometry(prism);
+      if (geometry) fillGeometry = addLocalPositions(geometry, materialOrigin(polygon));
+    }
+    const polygonInstance = new GeometryInstance({
+      id: polygon.fillInstanceId,
+      geometry: fillGeometry,
+      attributes: {
+        color: ColorGeometryInstanceAttribute.fromColor(polygon.color.withAlpha(polygon.fillAlpha))
+      }
+    });
+    polygon.fillPrimitive = new Primitive({
+      geometryInstances: [polygonInstance],
+      appearance: fillAppearance(polygon, polygon.fillAlpha),
+      shadows: ShadowMode.ENABLED,
+      // Ready-made geometry cannot be sent to the web workers
+      asynchronous: fillGeometry === prism,
+    });
+    scene.primitives.add(polygon.fillPrimitive);
+
+    // Recreate label at new center height
+    const center = Cartesian3.fromRadians(
+      polygon.positions.reduce((sum, p) => sum + Cartographic.fromCartesian(p).longitude, 0) / polygon.positions.length,
+      polygon.positions.reduce((sum, p) => sum + Cartographic.fromCartesian(p).latitude, 0) / polygon.positions.length,
+      polygon.baseHeight + newHeight / 2
+    );
+    polygon.label = labelCollection.add({
+      position: center,
+      text: polygonLabelText(polygon),
+      font: "20px sans-serif",
+      fillColor: Color.WHITE,
+      outlineColor: Color.BLACK,
+      outlineWidth: 2,
+      style: LabelStyle.FILL_AND_OUTLINE,
+      verticalOrigin: VerticalOrigin.CENTER,
+      horizontalOrigin: HorizontalOrigin.CENTER,
+      disableDepthTestDistance: Number.POSITIVE_INFINITY,
+      show: labelsVisible,
+    });
+
+    if (vertexEditPolygonId === polygon.id) {
+      refreshVertexHandles();
+    }
+
+    scene.requestRender();
   }
 
-  function selectPolygon(polygonId: string) {
+  function setPolygonHeight(polygonId: string, height: number) {
     const polygon = polygons.find(p => p.id === polygonId);
     if (!polygon) return;
 
-    selectedPolygonId = polygonId;
-    
-    // Visual feedback - make outline thicker/brighter (we'll change outline width by replacing)
+    const targets = getEditTargets(polygon, false);
+    const before = captureStates(targets.map(t => t.id));
+    targets.forEach(target => rebuildPolygonWithHeight(target, height));
+    commitChange('height', before, `height:${targets.map(t => t.id).join(',')}`);
+  }
+
+  function applyRoof(polygon: PolygonData, roof: RoofOptions | null) {
+    polygon.roof = roof && roof.type !== 'flat' ? { ...roof } : undefined;
+    applyRoofProperties(polygon.geojsonFeature?.properties, polygon.roof);
+    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+  }
+
+  function applyMaterial(polygon: PolygonData, material: MaterialOptions | null) {
+    polygon.material = cleanMaterial(material ?? undefined);
+    applyMaterialProperties(polygon.geojsonFeature?.properties, polygon.material);
+    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+  }
+
+  // Facade and roof materials of the polygon (and the rest of a multiple selection); null for the plain colour
+  function setPolygonMaterial(polygonId: string, material: MaterialOptions | null) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon) return;
+
+    const targets = getEditTargets(polygon, false);
+    const before = captureStates(targets.map(t => t.id));
+    targets.forEach(target => applyMaterial(target, material));
+    commitChange('material', before, `material:${targets.map(t => t.id).join(',')}`);
+    scene.requestRender();
+  }
+
+  function setPolygonThickness(polygonId: string, thickness: number) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon?.wall || !(thickness > 0)) return;
+
+    const before = captureStates([polygonId]);
+    polygon.wall = { ...polygon.wall, thickness };
+    updateWallFootprint(polygon);
+    commitChange('thickness', before, `thickness:${polygonId}`);
+  }
+
+  // Ground height of the loaded terrain, for points under the cursor and a first guess elsewhere; heights
+  // away from the view are replaced by the most detailed terrain through queueTerrainJob
+  function groundHeightAt(longitude: number, latitude: number, fallback: number): number {
+    return scene.globe.getHeight(new Cartographic(longitude, latitude)) ?? fallback;
+  }
+
+  // Base height of a polygon's footprint in a terrain mode, from the loaded terrain under it. Undefined for
+  // the other modes and where no terrain is loaded. The most detailed terrain follows through queueTerrainJob.
+  function terrainBaseHeight(polygon: PolygonData, mode: BaseHeightMode | undefined): number | undefined {
+    if (!mode || !followsTerrain(mode)) return undefined;
+    const heights = footprintSamplePoints(polygon.positions)
+      .map(c => scene.globe.getHeight(c))
+      .filter((h): h is number => h !== undefined);
+    return baseHeightFromTerrain(mode, heights);
+  }
+
+  // Footprint (lon/lat only) a terrain job was sampled for; a polygon that moved since gets a newer job
+  function footprintKey(polygon: PolygonData): string {
+    return JSON.stringify((polygon.wall ? polygon.wall.line : polygon.positions).map(p => {
+      const c = Cartographic.fromCartesian(p);
+      return [c.longitude, c.latitude];
+    }));
+  }
+
+  // Samples the most detailed terrain for a polygon when the next change is committed
+  function queueTerrainJob(polygon: PolygonData, kind: TerrainJob['kind'], indices?: number[]) {
+    let points: Cartographic[];
+    if (kind === 'wall' && polygon.wall) {
+      const line = polygon.wall.line;
+      points = (indices ?? line.map((_, i) => i)).map(i => Cartographic.fromCartesian(line[i]));
+    } else if (kind === 'footprint') {
+      points = footprintSamplePoints(polygon.positions);
+    } else {
+      points = polygon.positions.map(p => Cartographic.fromCartesian(p));
+    }
+    pendingTerrainJobs = pendingTerrainJobs.filter(job => job.id !== polygon.id);
+    pendingTerrainJobs.push({ id: polygon.id, kind, points, ...(indices ? { indices } : {}) });
+  }
+
+  // Heights of the most detailed terrain at the points; empty when the terrain provider cannot be sampled
+  // (e.g. the plain ellipsoid), in which case the loaded-terrain heights stay
+  async function sampleGroundHeights(points: Cartographic[]): Promise<(number | undefined)[]> {
     try {
-      const outlineAttrs: any = (polygon.outlinePrimitive as any).getGeometryInstanceAttributes?.(polygon.outlineInstanceId);
-      if (outlineAttrs?.color) {
-        outlineAttrs.color = ColorGeometryInstanceAttribute.toValue(Color.YELLOW.withAlpha(1));
+      const sampled = await sampleTerrainMostDetailed(scene.terrainProvider,
+        points.map(c => new Cartographic(c.longitude, c.latitude)));
+      return sampled.map(c => (Number.isFinite(c.height) ? c.height : undefined));
+    } catch (e) {
+      console.warn('[polygonDrawTool] Could not sample the terrain', e);
+      return [];
+    }
+  }
+
+  function applyTerrainJob(polygon: PolygonData, job: TerrainJob, heights: (number | undefined)[]) {
+    const found = heights.filter((h): h is number => h !== undefined);
+    if (job.kind === 'wall' && polygon.wall) {
+      const indices = job.indices ?? polygon.wall.line.map((_, i) => i);
+      const line = polygon.wall.line.slice();
+      indices.forEach((index, i) => {
+        const height = heights[i];
+        if (height === undefined || !line[index]) return;
+        const c = Cartographic.fromCartesian(line[index]);
+        line[index] = Cartesian3.fromRadians(c.longitude, c.latitude, height);
+      });
+      polygon.wall = { ...polygon.wall, line };
+      updateWallFootprint(polygon);
+    } else if (job.kind === 'footprint' && !polygon.wall && followsTerrain(polygon.baseMode)) {
+      const height = baseHeightFromTerrain(polygon.baseMode as BaseHeightMode, found);
+      if (height === undefined) return;
+      setBaseHeight(polygon, height);
+      rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+    } else if (job.kind === 'corners' && !polygon.wall && found.length) {
+      setBaseHeight(polygon, Math.min(...found));
+      rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+    }
+  }
+
+  // Samples the queued terrain jobs and applies them in the history entry that queued them (`entry`) while
+  // it is still the latest, otherwise in a step of their own. Polygons changed or deleted meanwhile are left.
+  function runTerrainJobs(entry: HistoryEntry | undefined) {
+    const jobs = pendingTerrainJobs.map(job => {
+      terrainRequests[job.id] = ++terrainRequestCounter;
+      const polygon = polygons.find(p => p.id === job.id);
+      return { job, request: terrainRequestCounter, key: polygon ? footprintKey(polygon) : '' };
+    });
+    pendingTerrainJobs = [];
+    if (!jobs.length) return;
+
+    void sampleGroundHeights(([] as Cartographic[]).concat(...jobs.map(({ job }) => job.points))).then(heights => {
+      if (!heights.length || scene.isDestroyed()) return;
+      let offset = 0;
+      const ready = jobs.map(({ job, request, key }) => {
+        const jobHeights = heights.slice(offset, offset += job.points.length);
+        const polygon = polygons.find(p => p.id === job.id);
+        const current = !!polygon && terrainRequests[job.id] === request && footprintKey(polygon) === key;
+        return current ? { job, polygon: polygon as PolygonData, heights: jobHeights } : null;
+      }).filter((r): r is { job: TerrainJob; polygon: PolygonData; heights: (number | undefined)[] } => !!r);
+      if (!ready.length) return;
+
+      const inEntry = !!entry && undoStack[undoStack.length - 1] === entry
+        && ready.every(r => entry.before.some(b => b.id === r.polygon.id));
+      if (entry && inEntry) {
+        ready.forEach(r => applyTerrainJob(r.polygon, r.job, r.heights));
+        entry.after = captureStates(entry.before.map(b => b.id));
+        notifyHistoryChange();
+      } else {
+        const before = captureStates(ready.map(r => r.polygon.id));
+        ready.forEach(r => applyTerrainJob(r.polygon, r.job, r.heights));
+        commitChange('terrain-height', before);
+      }
+      scene.requestRender();
+    });
+  }
+
+  // Moves the footprint (outer ring and holes) to a new base height; the caller rebuilds the visuals
+  function setBaseHeight(polygon: PolygonData, baseHeight: number) {
+    const lift = (ring: Cartesian3[]) => ring.map(p => {
+      const c = Cartographic.fromCartesian(p);
+      return Cartesian3.fromRadians(c.longitude, c.latitude, baseHeight);
+    });
+    polygon.baseHeight = baseHeight;
+    polygon.positions = lift(polygon.positions);
+    polygon.holes = polygon.holes.map(lift);
+    if (polygon.geojsonFeature?.properties) {
+      polygon.geojsonFeature.properties.baseHeight = baseHeight;
+    }
+    syncGeoJsonCoordinates(polygon);
+  }
+
+  // Sets how a polygon's base height is found and applies it. The clicked mode keeps the current base,
+  // the fixed mode puts it at `fixedHeight` (RH2000). Walls follow the terrain point by point instead.
+  function applyBaseMode(polygon: PolygonData, mode: BaseHeightMode, fixedHeight: number) {
+    if (polygon.wall || (mode === 'fixed' && geoidHeight === undefined)) return;
+    polygon.baseMode = mode === 'clicked' ? undefined : mode;
+    if (polygon.geojsonFeature?.properties) {
+      if (polygon.baseMode) {
+        polygon.geojsonFeature.properties.baseMode = polygon.baseMode;
+      } else {
+        delete polygon.geojsonFeature.properties.baseMode;
+      }
+    }
+    const height = mode === 'fixed' ? fixedHeight + (geoidHeight ?? 0) : terrainBaseHeight(polygon, mode);
+    if (height !== undefined) setBaseHeight(polygon, height);
+    if (followsTerrain(mode)) queueTerrainJob(polygon, 'footprint');
+  }
+
+  function applyDefaultBaseMode(polygon: PolygonData) {
+    if (baseHeightMode === 'clicked') return;
+    applyBaseMode(polygon, baseHeightMode, fixedBaseHeight);
+    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+  }
+
+  // A footprint that follows the terrain is sampled again after it was moved or rotated
+  function resampleBaseHeight(polygon: PolygonData) {
+    if (!followsTerrain(polygon.baseMode)) return;
+    const height = terrainBaseHeight(polygon, polygon.baseMode);
+    if (height !== undefined) setBaseHeight(polygon, height);
+    queueTerrainJob(polygon, 'footprint');
+  }
+
+  function setPolygonBaseHeightMode(polygonId: string, mode: BaseHeightMode, fixedHeight?: number) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon || BASE_HEIGHT_MODES.indexOf(mode) === -1) return;
+
+    const targets = getEditTargets(polygon, false).filter(t => !t.wall);
+    const before = captureStates(targets.map(t => t.id));
+    targets.forEach(target => {
+      applyBaseMode(target, mode, fixedHeight ?? target.baseHeight - (geoidHeight ?? 0));
+      rebuildPolygonWithHeight(target, target.extrudeHeight);
+    });
+    commitChange('base-height', before, `base-height:${targets.map(t => t.id).join(',')}`);
+  }
+
+  // Whether the existing buildings (3D tiles) under a polygon are hidden; a group is hidden as a whole
+  function setPolygonMaskTiles(polygonId: string, mask: boolean) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon) return;
+
+    const targets = getEditTargets(polygon, true);
+    const before = captureStates(targets.map(t => t.id));
+    targets.forEach(target => {
+      target.maskTiles = mask || undefined;
+      if (target.geojsonFeature?.properties) {
+        if (mask) {
+          target.geojsonFeature.properties.maskTiles = true;
+        } else {
+          delete target.geojsonFeature.properties.maskTiles;
+        }
+      }
+    });
+    commitChange('mask-tiles', before);
+  }
+
+  // New radius and/or segment count of a circle, around its current centre and at its base height
+  function setPolygonCircle(polygonId: string, circle: Partial<CircleOptions>) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon?.circle) return;
+    const radius = circle.radius ?? polygon.circle.radius;
+    if (!(radius > 0)) return;
+
+    const before = captureStates([polygonId]);
+    applyCircle(polygon, { radius, segments: clampSegments(circle.segments ?? polygon.circle.segments) });
+    if (!holesInsideOuter(polygon)) {
+      refuseOuterEdit(before);
+      return;
+    }
+    commitChange('circle', before, `circle:${polygonId}`);
+  }
+
+  // null or a flat roof removes the roof
+  function setPolygonRoof(polygonId: string, roof: RoofOptions | null) {
+    const polygon = polygons.find(p => p.id === polygonId);
+    if (!polygon) return;
+
+    const before = captureStates([polygonId]);
+    applyRoof(polygon, roof);
+    commitChange('roof', before, `roof:${polygonId}`);
+  }
+
+  // Delete a polygon (grouped polygons are deleted together with their group, and a polygon in a
+  // multiple selection together with the rest of the selection)
+  function deletePolygon(polygonId: string) {
+    const target = polygons.find(p => p.id === polygonId);
+    if (!target) return;
+
+    const members = getEditTargets(target, true);
+    const before = captureStates(members.map(m => m.id));
+    let selectionChanged = false;
+
+    members.forEach((polygon) => {
+      if (vertexEditPolygonId === polygon.id) {
+        stopVertexEdit();
+      }
+      if (holePolygonId === polygon.id) {
+        stopCuttingHole();
+      }
+
+      // If this was selected, deselect first
+      selectionChanged = unselect(polygon.id) || selectionChanged;
+
+      // Remove from scene
+      scene.primitives.remove(polygon.outlinePrimitive);
+      scene.primitives.remove(polygon.fillPrimitive);
+      labelCollection.remove(polygon.label);
+
+      // Remove from array
+      polygons.splice(polygons.indexOf(polygon), 1);
+    });
+    if (selectionChanged) {
+      notifySelection();
+    }
+    commitChange('delete', before);
+
+    scene.requestRender();
+  }
+
+  // Rotate a polygon around its centroid by angleDegrees (positive = clockwise). A polygon in a multiple
+  // selection turns with the rest of the selection around their common centroid.
+  function rotatePolygon(polygonId: string, angleDegrees: number) {
+    const target = polygons.find(p => p.id === polygonId);
+    if (!target) return;
+
+    const angleRad = angleDegrees * Math.PI / 180;
+    const targets = getEditTargets(target, false);
+    const before = captureStates(targets.map(t => t.id));
+
+    // Calculate centroid in cartographic coordinates
+    const cartos = ([] as Cartesian3[]).concat(...targets.map(t => t.positions)).map(p => Cartographic.fromCartesian(p));
+    const centroidLon = cartos.reduce((sum, c) => sum + c.longitude, 0) / cartos.length;
+    const centroidLat = cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length;
+
+    // Rotate a ring around the centroid in local XY (meters from centroid) using Earth radius
+    const R = 6371000;
+    const cosA = Math.cos(angleRad);
+    const sinA = Math.sin(angleRad);
+    const rotateRing = (polygon: PolygonData, ring: Cartesian3[]) => ring.map(p => {
+      const c = Cartographic.fromCartesian(p);
+      const x = (c.longitude - centroidLon) * Math.cos(centroidLat) * R;
+      const y = (c.latitude - centroidLat) * R;
+      const newLon = centroidLon + (x * cosA - y * sinA) / (Math.cos(centroidLat) * R);
+      const newLat = centroidLat + (x * sinA + y * cosA) / R;
+      return Cartesian3.fromRadians(newLon, newLat, polygon.wall ? groundHeightAt(newLon, newLat, c.height) : polygon.baseHeight);
+    });
+
+    targets.forEach(polygon => {
+      if (polygon.wall) {
+        polygon.wall = { ...polygon.wall, line: rotateRing(polygon, polygon.wall.line) };
+        updateWallFootprint(polygon);
+        queueTerrainJob(polygon, 'wall');
+        return;
       }
-    } catch {
-      // ignore
+
+      // Update polygon positions (holes rotate with the outer ring)
+      polygon.positions = rotateRing(polygon, polygon.positions);
+      polygon.holes = polygon.holes.map(hole => rotateRing(polygon, hole));
+
+      // A set ridge direction turns with the footprint (positive angles turn counter-clockwise)
+      if (polygon.roof?.direction !== undefined) {
+        polygon.roof = { ...polygon.roof, direction: (((polygon.roof.direction - angleDegrees) % 360) + 360) % 360 };
+        applyRoofProperties(polygon.geojsonFeature?.properties, polygon.roof);
+      }
+
+      // Recalculate area
+      polygon.area = computeAreaWithHoles(polygon.positions, polygon.holes);
+      resampleBaseHeight(polygon);
+
+      // Update GeoJSON
+      syncGeoJsonCoordinates(polygon);
+
+      // Rebuild the polygon visuals with new positions
+      rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+    });
+    commitChange('rotate', before);
+  }
+
+  // Move a polygon by a longitude/latitude delta (radians); wall points are put back on the terrain
+  function shiftPolygon(polygon: PolygonData, dLon: number, dLat: number) {
+    // Apply translation to all positions (outer ring and holes)
+    const translateRing = (ring: Cartesian3[]) => ring.map(p => {
+      const c = Cartographic.fromCartesian(p);
+      const height = polygon.wall ? groundHeightAt(c.longitude + dLon, c.latitude + dLat, c.height) : polygon.baseHeight;
+      return Cartesian3.fromRadians(c.longitude + dLon, c.latitude + dLat, height);
+    });
+
+    if (polygon.wall) {
+      polygon.wall = { ...polygon.wall, line: translateRing(polygon.wall.line) };
+      updateWallFootprint(polygon);
+      queueTerrainJob(polygon, 'wall');
+      return;
+    }
+
+    // Update polygon positions
+    polygon.positions = translateRing(polygon.positions);
+    polygon.holes = polygon.holes.map(translateRing);
+    resampleBaseHeight(polygon);
+
+    // Update GeoJSON
+    syncGeoJsonCoordinates(polygon);
+
+    // Rebuild the polygon visuals with new positions
+    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+  }
+
+  // Translate a polygon by dx (east, meters) and dy (north, meters).
+  // Grouped polygons move together with their group, selected polygons with the selection.
+  function translatePolygon(polygonId: string, dx: number, dy: number) {
+    const target = polygons.find(p => p.id === polygonId);
+    if (!target) return;
+
+    const members = getEditTargets(target, true);
+    const R = 6371000; // Earth radius in meters
+    const before = captureStates(members.map(m => m.id));
+
+    // Calculate centroid latitude for accurate projection
+    const cartos = target.positions.map(p => Cartographic.fromCartesian(p));
+    const centroidLat = cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length;
+
+    // Convert dx/dy (meters) to delta lon/lat (radians) - the same delta for every group member
+    const dLon = dx / (Math.cos(centroidLat) * R);
+    const dLat = dy / R;
+
+    members.forEach(polygon => shiftPolygon(polygon, dLon, dLat));
+    commitChange('translate', before, `translate:${members.map(m => m.id).join(',')}`);
+  }
+
+  // Copies of a polygon (with its group, or with the selection it is part of), one set per offset
+  // (m east and north). Copies of a group form a new group, and every copy gets the next free name.
+  // All copies are one undo step.
+  function copyPolygons(polygonId: string, offsets: ArrayOffset[]): PolygonData[] {
+    const target = polygons.find(p => p.id === polygonId);
+    if (!target || !offsets.length) return [];
+
+    const originals = getEditTargets(target, true);
+    if (originals.length * offsets.length > MAX_ARRAY_COPIES) return [];
+    const R = 6371000; // Earth radius in meters
+    const cartos = ([] as Cartesian3[]).concat(...originals.map(p => p.positions)).map(p => Cartographic.fromCartesian(p));
+    const centroidLat = cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length;
+    const takenNames = polygons.map(p => p.name)
+      .concat(Object.keys(groupProperties).map(id => String(groupProperties[id]?.name ?? '')));
+    const takeName = (name: string) => {
+      const copyName = nextCopyName(name, takenNames);
+      takenNames.push(copyName);
+      return copyName;
+    };
+
+    const copies: PolygonData[] = [];
+    suppressCreateHistory = true;
+    try {
+      offsets.forEach(({ dx, dy }) => {
+        const copyGroupIds: Record<string, string> = {};
+        originals.forEach(original => {
+          let groupId: string | undefined;
+          if (original.groupId) {
+            groupId = copyGroupIds[original.groupId];
+            if (!groupId) {
+              groupId = copyGroupIds[original.groupId] = `group-${groupIdCounter++}`;
+              const shared = { ...groupProperties[original.groupId] };
+              if (shared.name !== undefined) shared.name = takeName(String(shared.name));
+              groupProperties[groupId] = shared;
+            }
+          }
+
+          const feature = JSON.parse(JSON.stringify(original.geojsonFeature));
+          feature.properties = { ...feature.properties, name: takeName(original.name) };
+          const copy = importPolygonFromGeoJSON(feature, { groupId });
+          if (!copy) return;
+          if (dx || dy) shiftPolygon(copy, dx / (Math.cos(centroidLat) * R), dy / R);
+          copies.push(copy);
+        });
+      });
+    } finally {
+      suppressCreateHistory = false;
+    }
+
+    if (copies.length) {
+      commitChange('copy', copies.map(p => ({ id: p.id, index: -1, state: null })));
+    }
+    scene.requestRender();
+    return copies;
+  }
+
+  // A copy in place of a polygon (or of the selection), selected so it can be dragged away
+  function duplicatePolygon(polygonId: string): PolygonData[] {
+    const copies = copyPolygons(polygonId, [{ dx: 0, dy: 0 }]);
+    if (copies.length) selectPolygons(copies.map(p => p.id));
+    return copies;
+  }
+
+  // A row or grid of copies of a polygon (or of the selection). Without a spacing the copies just touch:
+  // the footprint's length along the bearing, and its width across it between rows.
+  function arrayPolygon(polygonId: string, options: Omit<ArrayOptions, 'spacing' | 'rowSpacing'> & Partial<ArrayOptions>): PolygonData[] {
+    const target = polygons.find(p => p.id === polygonId);
+    if (!target) return [];
+
+    const positions = ([] as Cartesian3[]).concat(...getEditTargets(target, true).map(p => p.positions));
+    return copyPolygons(polygonId, arrayOffsets({
+      ...options,
+      spacing: options.spacing ?? footprintExtent(positions, options.bearing),
+      rowSpacing: options.rowSpacing ?? footprintExtent(positions, options.bearing + 90),
+    }));
+  }
+
+  // Vertex editing - the polygon in edit mode gets a handle on every corner and on every
+  // edge midpoint. Dragging a corner moves it, dragging a midpoint inserts a new corner
+  // there and right-clicking a corner deletes it.
+  function getVertexEditPolygon(): PolygonData | null {
+    if (!vertexEditPolygonId) return null;
+    return polygons.find(p => p.id === vertexEditPolygonId) || null;
+  }
+
+  function getPickedVertexHandle(windowPosition: Cartesian2): VertexHandleId | null {
+    if (!vertexEditPolygonId) return null;
+    const picked = scene.pick(windowPosition);
+    if (picked?.collection === vertexHandles && picked.id?.vertexEdit) {
+      return picked.id as VertexHandleId;
+    }
+    return null;
+  }
+
+  function pickGroundPosition(windowPosition: Cartesian2): Cartesian3 | undefined {
+    // Pick on terrain first to avoid picking on the polygon being edited
+    const ray = scene.camera.getPickRay(windowPosition);
+    let cartesian: Cartesian3 | undefined;
+
+    if (ray) {
+      cartesian = scene.globe.pick(ray, scene);
     }
+    if (!cartesian) {
+      cartesian = scene.pickPosition(windowPosition);
+    }
+    return cartesian;
+  }
+
+  // Picks a point while drawing: snapped to the corners and edges of the other polygons and of `line`
+  // (the points drawn so far) when snapping is on, otherwise on the ground. Points snapped to 3D tiles or
+  // to a direction keep the ground height under them, so traced footprints still stand on the terrain.
+  function pickDrawPosition(windowPosition: Cartesian2, line: Cartesian3[] = [], excludeId?: string): Cartesian3 | undefined {
+    const rings: Cartesian3[][] = [];
+    polygons.forEach(p => {
+      if (p.id !== excludeId) rings.push(p.positions, ...(p.holes || []));
+    });
+    const snapped = snapper.snap(windowPosition, { line, rings });
+    if (!snapped) return pickGroundPosition(windowPosition);
+    if (snapped.kind === 'vertex' || snapped.kind === 'edge') return snapped.position;
+    const c = Cartographic.fromCartesian(snapped.position);
+    const ground = pickGroundPosition(windowPosition);
+    const fallback = ground ? Cartographic.fromCartesian(ground).height : c.height;
+    return Cartesian3.fromRadians(c.longitude, c.latitude, groundHeightAt(c.longitude, c.latitude, fallback));
+  }
+
+  function rectangleSnapLine(): Cartesian3[] {
+    return [rectangleCorner1, rectangleCorner2].filter((p): p is Cartesian3 => !!p);
+  }
 
-    scene.requestRender();
-    selectionCallback?.(polygon);
+  // The points vertex editing works on: the footprint of polygons, the centre line of walls
+  function getEditPoints(polygon: PolygonData): Cartesian3[] {
+    return polygon.wall ? polygon.wall.line : polygon.positions;
   }
 
-  function deselectPolygon() {
-    if (!selectedPolygonId) return;
+  function setEditPoints(polygon: PolygonData, points: Cartesian3[]) {
+    if (polygon.wall) {
+      polygon.wall = { ...polygon.wall, line: points.map(p => Cartesian3.clone(p)) };
+      updateWallFootprint(polygon);
+    } else {
+      setPolygonPositions(polygon, points);
+    }
+  }
+
+  function refreshVertexHandles() {
+    vertexHandles.removeAll();
 
-    const polygon = polygons.find(p => p.id === selectedPolygonId);
+    const polygon = getVertexEditPolygon();
     if (polygon) {
-      // Restore original outline color
-      try {
-        const outlineAttrs: any = (polygon.outlinePrimitive as any).getGeometryInstanceAttributes?.(polygon.outlineInstanceId);
-        if (outlineAttrs?.color) {
-          outlineAttrs.color = ColorGeometryInstanceAttribute.toValue(polygon.color.withAlpha(1));
-        }
-      } catch {
-        // ignore
-      }
+      const points = getEditPoints(polygon);
+      const count = points.length;
+      points.forEach((position, i) => {
+        const next = points[(i + 1) % count];
+        // A wall's line is open: no edge from the last point back to the first
+        if (!polygon.wall || i < count - 1) vertexHandles.add({
+          position: Cartesian3.midpoint(position, next, new Cartesian3()),
+          pixelSize: 8,
+          color: Color.WHITE.withAlpha(0.6),
+          outlineColor: Color.BLACK.withAlpha(0.6),
+          outlineWidth: 1,
+          disableDepthTestDistance: Number.POSITIVE_INFINITY,
+          id: { vertexEdit: 'midpoint', index: i },
+        });
+        vertexHandles.add({
+          position,
+          pixelSize: 12,
+          color: draggedVertexIndex === i ? Color.YELLOW : Color.WHITE,
+          outlineColor: Color.BLACK,
+          outlineWidth: 2,
+          disableDepthTestDistance: Number.POSITIVE_INFINITY,
+          id: { vertexEdit: 'vertex', index: i },
+        });
+      });
     }
 
-    selectedPolygonId = null;
     scene.requestRender();
-    selectionCallback?.(null);
   }
 
-  function getSelectedPolygon(): PolygonData | null {
-    if (!selectedPolygonId) return null;
-    return polygons.find(p => p.id === selectedPolygonId) || null;
-  }
+  // Replace a polygon's footprint (flattened to its base height) and keep area, GeoJSON and primitives in sync
+  function setPolygonPositions(polygon: PolygonData, positions: Cartesian3[]) {
+    polygon.positions = positions.map(p => {
+      const c = Cartographic.fromCartesian(p);
+      return Cartesian3.fromRadians(c.longitude, c.latitude, polygon.baseHeight);
+    });
+    polygon.area = computeAreaWithHoles(polygon.positions, polygon.holes);
 
-  function updatePolygonLabel(polygon: PolygonData) {
-    polygon.label.text = `${polygon.name}\nBas: ${polygon.baseHeight.toFixed(2)}m\nHöjd: ${polygon.extrudeHeight}m\nTopp: ${(polygon.baseHeight + polygon.extrudeHeight).toFixed(2)}m\nYta: ${polygon.area.toFixed(1)} m²`;
+    syncGeoJsonCoordinates(polygon);
+    if (polygon.geojsonFeature?.properties) {
+      polygon.geojsonFeature.properties.area = polygon.area;
+      // Rectangle side lengths and circle radius no longer apply once the corners have been edited
+      delete polygon.geojsonFeature.properties.sideLength1;
+      delete polygon.geojsonFeature.properties.sideLength2;
+    }
+    polygon.circle = undefined;
+    applyCircleProperties(polygon.geojsonFeature?.properties, undefined);
+
+    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
   }
 
-  function setPolygonName(polygonId: string, name: string) {
-    const polygon = polygons.find(p => p.id === polygonId);
-    if (!polygon) return;
+  function finishVertexDrag() {
+    if (draggedVertexIndex === null) return;
+    draggedVertexIndex = null;
+    scene.screenSpaceCameraController.enableInputs = true;
+    snapper.hideIndicator();
 
-    polygon.name = name;
-    if (polygon.geojsonFeature?.properties) {
-      polygon.geojsonFeature.properties.name = name;
+    if (vertexDragBefore) {
+      const polygon = polygons.find(p => p.id === vertexDragBefore?.[0]?.id);
+      if (polygon && !holesInsideOuter(polygon)) {
+        refuseOuterEdit(vertexDragBefore);
+      } else {
+        commitChange(vertexDragLabel, vertexDragBefore);
+      }
+      vertexDragBefore = null;
     }
-    updatePolygonLabel(polygon);
-    scene.requestRender();
+    refreshVertexHandles();
   }
 
-  function setPolygonColor(polygonId: string, colorName: string) {
+  function startVertexEdit(polygonId: string) {
     const polygon = polygons.find(p => p.id === polygonId);
     if (!polygon) return;
 
-    let newColor: Color;
-    switch ((colorName ?? '').toLowerCase()) {
-      case 'white': newColor = Color.WHITE; break;
-      case 'red': newColor = Color.RED; break;
-      case 'green': newColor = Color.LIME; break;
-      case 'blue': newColor = Color.DODGERBLUE; break;
-      case 'yellow': newColor = Color.YELLOW; break;
-      case 'cyan': newColor = Color.CYAN; break;
-      default: newColor = Color.WHITE; break;
-    }
+    stopVertexEdit();
+    stopCuttingHole();
+    vertexEditPolygonId = polygonId;
+    refreshVertexHandles();
 
-    polygon.color = newColor.clone();
-    if (polygon.geojsonFeature?.properties) {
-      polygon.geojsonFeature.properties.color = newColor.toCssColorString();
+    interface ClickEvent {
+      position: { x: number; y: number };
     }
 
-    // Update outline (unless selected, then keep yellow)
-    if (selectedPolygonId !== polygonId) {
-      try {
-        const outlineAttrs: any = (polygon.outlinePrimitive as any).getGeometryInstanceAttributes?.(polygon.outlineInstanceId);
-        if (outlineAttrs?.color) {
-          outlineAttrs.color = ColorGeometryInstanceAttribute.toValue(newColor.withAlpha(1));
-        }
-      } catch {
-        // ignore
-      }
+    interface MouseMoveEvent {
+      endPosition: { x: number; y: number };
     }
 
-    // Update fill
-    try {
-      const fillAttrs: any = (polygon.fillPrimitive as any).getGeometryInstanceAttributes?.(polygon.fillInstanceId);
-      if (fillAttrs?.color) {
-        fillAttrs.color = ColorGeometryInstanceAttribute.toValue(newColor.withAlpha(polygon.fillAlpha));
+    // Press on a handle to start dragging it
+    vertexHandler.setInputAction((down: ClickEvent) => {
+      const target = getVertexEditPolygon();
+      const handle = getPickedVertexHandle(new Cartesian2(down.position.x, down.position.y));
+      if (!target || !handle) return;
+
+      vertexDragBefore = captureStates([target.id]);
+
+      if (handle.vertexEdit === 'midpoint') {
+        // Insert a new corner at the edge midpoint and drag that one
+        const points = getEditPoints(target);
+        const next = points[(handle.index + 1) % points.length];
+        const positions = points.slice();
+        positions.splice(handle.index + 1, 0, Cartesian3.midpoint(points[handle.index], next, new Cartesian3()));
+        draggedVertexIndex = handle.index + 1;
+        vertexDragLabel = 'vertex-insert';
+        setEditPoints(target, positions);
+      } else {
+        draggedVertexIndex = handle.index;
+        vertexDragLabel = 'vertex-move';
+        refreshVertexHandles();
       }
-    } catch {
-      // ignore
-    }
 
-    scene.requestRender();
+      // Keep the camera still while dragging
+      scene.screenSpaceCameraController.enableInputs = false;
+    }, ScreenSpaceEventType.LEFT_DOWN);
+
+    vertexHandler.setInputAction((movement: MouseMoveEvent) => {
+      const target = getVertexEditPolygon();
+      if (!target || draggedVertexIndex === null) return;
+
+      // Snap relative to the two corners before the dragged one, and to the other polygons
+      const positions = getEditPoints(target).slice();
+      const index = draggedVertexIndex;
+      const before = [2, 1]
+        .filter(back => target.wall ? index - back >= 0 : positions.length > back)
+        .map(back => positions[(index - back + positions.length) % positions.length]);
+      const cartesian = pickDrawPosition(new Cartesian2(movement.endPosition.x, movement.endPosition.y), before, target.id);
+      if (!cartesian) return;
+
+      positions[index] = cartesian;
+      setEditPoints(target, positions);
+    }, ScreenSpaceEventType.MOUSE_MOVE);
+
+    vertexHandler.setInputAction(() => {
+      finishVertexDrag();
+    }, ScreenSpaceEventType.LEFT_UP);
+
+    // Right-click a corner to delete it
+    vertexHandler.setInputAction((click: ClickEvent) => {
+      const target = getVertexEditPolygon();
+      const handle = getPickedVertexHandle(new Cartesian2(click.position.x, click.position.y));
+      if (!target || !handle || handle.vertexEdit !== 'vertex') return;
+      deleteVertex(target.id, handle.index);
+    }, ScreenSpaceEventType.RIGHT_CLICK);
   }
 
-  function setPolygonOpacity(polygonId: string, opaque: boolean) {
+  function stopVertexEdit() {
+    if (!vertexEditPolygonId) return;
+
+    finishVertexDrag();
+    vertexHandler.removeInputAction(ScreenSpaceEventType.LEFT_DOWN);
+    vertexHandler.removeInputAction(ScreenSpaceEventType.MOUSE_MOVE);
+    vertexHandler.removeInputAction(ScreenSpaceEventType.LEFT_UP);
+    vertexHandler.removeInputAction(ScreenSpaceEventType.RIGHT_CLICK);
+    vertexEditPolygonId = null;
+    refreshVertexHandles();
+  }
+
+  // Delete a corner (a polygon keeps at least 3, a wall at least 2)
+  function deleteVertex(polygonId: string, index: number) {
     const polygon = polygons.find(p => p.id === polygonId);
     if (!polygon) return;
+    const points = getEditPoints(polygon);
+    if (points.length <= (polygon.wall ? 2 : 3)) return;
+    if (index < 0 || index >= points.length) return;
+
+    const before = captureStates([polygonId]);
+    const positions = points.slice();
+    positions.splice(index, 1);
+    setEditPoints(polygon, positions);
+    if (!holesInsideOuter(polygon)) {
+      refuseOuterEdit(before);
+      refreshVertexHandles();
+      return;
+    }
+    commitChange('vertex-delete', before);
+  }
 
-    const newAlpha = opaque ? 1 : 0.7;
-    polygon.fillAlpha = newAlpha;
-    if (polygon.geojsonFeature?.properties) {
-      polygon.geojsonFeature.properties.fillAlpha = newAlpha;
+  // Hole cutting - click points inside the selected polygon, right-click to cut the hole.
+  // The hole must lie inside the outer ring and outside the existing holes.
+  function updateHolePreview(currentMousePos: Cartesian3 | null) {
+    if (activePolylinePrimitive) {
+      scene.primitives.remove(activePolylinePrimitive);
+      activePolylinePrimitive = null;
+    }
+    if (activeLabel) {
+      labelCollection.remove(activeLabel);
+      activeLabel = null;
     }
 
-    // Update fill
-    try {
-      const fillAttrs: any = (polygon.fillPrimitive as any).getGeometryInstanceAttributes?.(polygon.fillInstanceId);
-      if (fillAttrs?.color) {
-        fillAttrs.color = ColorGeometryInstanceAttribute.toValue(polygon.color.withAlpha(newAlpha));
-      }
-      (polygon.fillPrimitive as any).appearance = new PerInstanceColorAppearance({
-        translucent: newAlpha < 1,
-        closed: true,
-        flat: true,
-        faceForward: false
+    const previewPoints = currentMousePos ? [...holePoints, currentMousePos] : holePoints.slice();
+    if (previewPoints.length >= 2) {
+      const polylineInstance = new GeometryInstance({
+        geometry: new PolylineGeometry({
+          positions: [...previewPoints, previewPoints[0]],
+          width: 3,
+        }),
+        attributes: {
+          color: ColorGeometryInstanceAttribute.fromColor(Color.ORANGE)
+        }
+      });
+      activePolylinePrimitive = new Primitive({
+        geometryInstances: [polylineInstance],
+        appearance: new PolylineColorAppearance({})
+      });
+      scene.primitives.add(activePolylinePrimitive);
+    }
+
+    if (previewPoints.length >= 1) {
+      activeLabel = labelCollection.add({
+        position: previewPoints[previewPoints.length - 1],
+        text: previewPoints.length >= 3
+          ? `Hål: ${previewPoints.length} punkter | Yta: ${computePolygonArea(previewPoints).toFixed(1)} m²\nHögerklicka för att skära ut`
+          : `Hål: ${previewPoints.length} punkter`,
+        font: "18px sans-serif",
+        fillColor: Color.WHITE,
+        outlineColor: Color.BLACK,
+        outlineWidth: 2,
+        style: LabelStyle.FILL_AND_OUTLINE,
+        verticalOrigin: VerticalOrigin.BOTTOM,
+        horizontalOrigin: HorizontalOrigin.LEFT,
+        disableDepthTestDistance: Number.POSITIVE_INFINITY,
+        pixelOffset: new Cartesian2(10, 0),
+        show: true,
       });
-    } catch {
-      // ignore
     }
 
     scene.requestRender();
   }
 
-  function rebuildPolygonWithHeight(polygon: PolygonData, newHeight: number) {
-    // Remove old primitives
-    scene.primitives.remove(polygon.outlinePrimitive);
-    scene.primitives.remove(polygon.fillPrimitive);
-    labelCollection.remove(polygon.label);
-
-    // Update height
-    polygon.extrudeHeight = newHeight;
-    if (polygon.geojsonFeature?.properties) {
-      polygon.geojsonFeature.properties.extrudeHeight = newHeight;
-    }
+  // Why a hole cannot be cut: it must lie inside the outer ring and must not overlap the `others` holes.
+  // Null for a valid hole.
+  function holeError(polygon: PolygonData, hole: Cartesian3[], others: Cartesian3[][] = polygon.holes): string | null {
+    if (hole.length < 3 || computePolygonArea(hole) < 0.01) return 'Hålet är för litet';
 
-    // Recreate outline
-    const outlinePositions = [...polygon.positions, polygon.positions[0]];
-    const outlineInstance = new GeometryInstance({
-      id: polygon.outlineInstanceId,
-      geometry: new PolylineGeometry({
-        positions: outlinePositions,
-        width: 2,
-      }),
-      attributes: {
-        color: ColorGeometryInstanceAttribute.fromColor(
-          selectedPolygonId === polygon.id ? Color.YELLOW : polygon.color.withAlpha(1)
-        )
-      }
-    });
-    polygon.outlinePrimitive = new Primitive({
-      geometryInstances: [outlineInstance],
-      appearance: new PolylineColorAppearance({})
+    const cartos = polygon.positions.map(p => Cartographic.fromCartesian(p));
+    const originLon = cartos.reduce((sum, c) => sum + c.longitude, 0) / cartos.length;
+    const originLat = cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length;
+    const R = 6371000;
+    const toXY = (ring: Cartesian3[]) => ring.map(p => {
+      const c = Cartographic.fromCartesian(p);
+      return [(c.longitude - originLon) * Math.cos(originLat) * R, (c.latitude - originLat) * R];
     });
-    scene.primitives.add(polygon.outlinePrimitive);
 
-    // Recreate fill
-    const polygonInstance = new GeometryInstance({
-      id: polygon.fillInstanceId,
-      geometry: new PolygonGeometry({
-        polygonHierarchy: {
-          positions: polygon.positions,
-          holes: []
-        },
-        extrudedHeight: polygon.baseHeight + newHeight,
-        perPositionHeight: false,
-      }),
-      attributes: {
-        color: ColorGeometryInstanceAttribute.fromColor(polygon.color.withAlpha(polygon.fillAlpha))
-      }
-    });
-    polygon.fillPrimitive = new Primitive({
-      geometryInstances: [polygonInstance],
-      appearance: new PerInstanceColorAppearance({
-        translucent: polygon.fillAlpha < 1,
-        closed: true,
-        flat: true,
-        faceForward: false
-      }),
-      shadows: ShadowMode.ENABLED,
-    });
-    scene.primitives.add(polygon.fillPrimitive);
+    const outerXY = toXY(polygon.positions);
+    const holeXY = toXY(hole);
+    const existingXY = others.map(toXY);
 
-    // Recreate label at new center height
-    const center = Cartesian3.fromRadians(
-      polygon.positions.reduce((sum, p) => sum + Cartographic.fromCartesian(p).longitude, 0) / polygon.positions.length,
-      polygon.positions.reduce((sum, p) => sum + Cartographic.fromCartesian(p).latitude, 0) / polygon.positions.length,
-      polygon.baseHeight + newHeight / 2
+    if (!holeXY.every(([x, y]) => isPointInRing(x, y, outerXY))) return 'Hålet måste ligga inuti polygonen';
+    const holeOutsideOthers = existingXY.every(other =>
+      holeXY.every(([x, y]) => !isPointInRing(x, y, other)) &&
+      other.every(([x, y]) => !isPointInRing(x, y, holeXY))
     );
-    polygon.label = labelCollection.add({
-      position: center,
-      text: `${polygon.name}\nBas: ${polygon.baseHeight.toFixed(2)}m\nHöjd: ${newHeight}m\nTopp: ${(polygon.baseHeight + newHeight).toFixed(2)}m\nYta: ${polygon.area.toFixed(1)} m²`,
-      font: "20px sans-serif",
-      fillColor: Color.WHITE,
-      outlineColor: Color.BLACK,
-      outlineWidth: 2,
-      style: LabelStyle.FILL_AND_OUTLINE,
-      verticalOrigin: VerticalOrigin.CENTER,
-      horizontalOrigin: HorizontalOrigin.CENTER,
-      disableDepthTestDistance: Number.POSITIVE_INFINITY,
-      show: labelsVisible,
-    });
-
-    scene.requestRender();
+    return holeOutsideOthers ? null : 'Hålet får inte överlappa andra hål';
   }
 
-  function setPolygonHeight(polygonId: string, height: number) {
-    const polygon = polygons.find(p => p.id === polygonId);
-    if (!polygon) return;
+  // Whether all holes still lie inside the outer ring after its corners were edited (walls have none)
+  function holesInsideOuter(polygon: PolygonData): boolean {
+    return !!polygon.wall || polygon.holes.every(hole => holeError(polygon, hole, []) === null);
+  }
 
-    rebuildPolygonWithHeight(polygon, height);
+  // Undoes a corner edit that left a hole outside the footprint
+  function refuseOuterEdit(before: HistoryEntry['before']) {
+    applyStates(before);
+    editErrorCallback?.('Ett hål skulle hamna utanför polygonen');
   }
 
-  function deletePolygon(polygonId: string) {
-    const index = polygons.findIndex(p => p.id === polygonId);
-    if (index === -1) return;
+  function finishHole() {
+    const polygon = holePolygonId ? polygons.find(p => p.id === holePolygonId) : undefined;
+    if (!polygon || holePoints.length < 3) return;
 
-    const polygon = polygons[index];
-    
-    // If this was selected, deselect first
-    if (selectedPolygonId === polygonId) {
-      selectedPolygonId = null;
-      selectionCallback?.(null);
+    const hole = holePoints.map(p => {
+      const c = Cartographic.fromCartesian(p);
+      return Cartesian3.fromRadians(c.longitude, c.latitude, polygon.baseHeight);
+    });
+    const error = holeError(polygon, hole);
+    if (error) {
+      // Start over, still cutting
+      holePoints = [];
+      updateHolePreview(null);
+      editErrorCallback?.(error);
+      return;
     }
 
-    // Remove from scene
-    scene.primitives.remove(polygon.outlinePrimitive);
-    scene.primitives.remove(polygon.fillPrimitive);
-    labelCollection.remove(polygon.label);
-
-    // Remove from array
-    polygons.splice(index, 1);
+    const before = captureStates([polygon.id]);
+    polygon.holes = [...polygon.holes, hole];
+    polygon.area = computeAreaWithHoles(polygon.positions, polygon.holes);
+    syncGeoJsonCoordinates(polygon);
+    if (polygon.geojsonFeature?.properties) {
+      polygon.geojsonFeature.properties.area = polygon.area;
+    }
+    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+    commitChange('cut-hole', before);
 
-    scene.requestRender();
+    const callback = holeDoneCallback;
+    holeDoneCallback = null;
+    stopCuttingHole();
+    callback?.(true);
+    notifySelection();
   }
 
-  // Rotate a polygon around its centroid by angleDegrees (positive = clockwise)
-  function rotatePolygon(polygonId: string, angleDegrees: number) {
+  function startCuttingHole(polygonId: string, onDone?: (cut: boolean) => void) {
     const polygon = polygons.find(p => p.id === polygonId);
-    if (!polygon) return;
+    // Walls are too thin for holes
+    if (!polygon || polygon.wall) return;
 
-    const angleRad = angleDegrees * Math.PI / 180;
-    const positions = polygon.positions;
+    stopVertexEdit();
+    stopCuttingHole();
+    isCuttingHole = true;
+    holePolygonId = polygonId;
+    holePoints = [];
+    holeDoneCallback = onDone || null;
+    lastMousePos = null;
 
-    // Calculate centroid in cartographic coordinates
-    const cartos = positions.map(p => Cartographic.fromCartesian(p));
-    const centroidLon = cartos.reduce((sum, c) => sum + c.longitude, 0) / cartos.length;
-    const centroidLat = cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length;
+    interface ClickEvent {
+      position: { x: number; y: number };
+    }
 
-    // Convert positions to local XY (meters from centroid) using Earth radius
-    const R = 6371000;
-    const localXY = cartos.map(c => [
-      (c.longitude - centroidLon) * Math.cos(centroidLat) * R,
-      (c.latitude - centroidLat) * R
-    ]);
+    interface MouseMoveEvent {
+      endPosition: { x: number; y: number };
+    }
 
-    // Rotate each point around the origin (centroid)
-    const cosA = Math.cos(angleRad);
-    const sinA = Math.sin(angleRad);
-    const rotatedXY = localXY.map(([x, y]) => [
-      x * cosA - y * sinA,
-      x * sinA + y * cosA
-    ]);
+    handler.setInputAction((click: ClickEvent) => {
+      const cartesian = pickDrawPosition(new Cartesian2(click.position.x, click.position.y), holePoints, polygonId);
+      if (!cartesian) return;
+      holePoints.push(cartesian.clone());
+      updateHolePreview(null);
+    }, ScreenSpaceEventType.LEFT_CLICK);
 
-    // Convert back to Cartographic
-    const rotatedPositions = rotatedXY.map(([x, y]) => {
-      const newLon = centroidLon + x / (Math.cos(centroidLat) * R);
-      const newLat = centroidLat + y / R;
-      return Cartesian3.fromRadians(newLon, newLat, polygon.baseHeight);
-    });
+    handler.setInputAction(() => {
+      finishHole();
+    }, ScreenSpaceEventType.RIGHT_CLICK);
 
-    // Update polygon positions
-    polygon.positions = rotatedPositions;
+    handler.setInputAction((movement: MouseMoveEvent) => {
+      const cartesian = pickDrawPosition(
+        new Cartesian2(movement.endPosition.x, movement.endPosition.y), holePoints, polygonId);
+      if (holePoints.length === 0 || !cartesian) return;
+      lastMousePos = cartesian;
+      updateHolePreview(cartesian);
+    }, ScreenSpaceEventType.MOUSE_MOVE);
+  }
 
-    // Recalculate area
-    polygon.area = computePolygonArea(rotatedPositions);
+  function stopCuttingHole() {
+    if (!isCuttingHole) return;
+    isCuttingHole = false;
+    holePolygonId = null;
+    holePoints = [];
+    lastMousePos = null;
+    removeDrawingHandlers();
+    snapper.hideIndicator();
+    updateHolePreview(null);
 
-    // Update GeoJSON
-    if (polygon.geojsonFeature?.geometry?.coordinates) {
-      const coords = rotatedPositions.map(p => {
-        const c = Cartographic.fromCartesian(p);
-        return [CesiumMath.toDegrees(c.longitude), CesiumMath.toDegrees(c.latitude), polygon.baseHeight];
-      });
-      polygon.geojsonFeature.geometry.coordinates = [coords.concat([coords[0]])];
-    }
+    const callback = holeDoneCallback;
+    holeDoneCallback = null;
+    callback?.(false);
+  }
 
-    // Rebuild the polygon visuals with new positions
-    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+  // Undo/redo history - every edit captures the affected polygons before the change
+  // and commits their new state afterwards. Undo/redo restore the recorded states.
+  let mergeBlocked = false;
+
+  function snapshotPolygon(polygon: PolygonData): PolygonSnapshot {
+    return {
+      id: polygon.id,
+      name: polygon.name,
+      positions: polygon.positions.map(p => Cartesian3.clone(p)),
+      holes: (polygon.holes || []).map(hole => hole.map(p => Cartesian3.clone(p))),
+      baseHeight: polygon.baseHeight,
+      extrudeHeight: polygon.extrudeHeight,
+      area: polygon.area,
+      color: polygon.color.clone(),
+      fillAlpha: polygon.fillAlpha,
+      geojsonFeature: JSON.parse(JSON.stringify(polygon.geojsonFeature)),
+      groupId: polygon.groupId,
+      roof: polygon.roof ? { ...polygon.roof } : undefined,
+      wall: polygon.wall
+        ? { line: polygon.wall.line.map(p => Cartesian3.clone(p)), thickness: polygon.wall.thickness }
+        : undefined,
+      circle: polygon.circle ? { ...polygon.circle } : undefined,
+      baseMode: polygon.baseMode,
+      maskTiles: polygon.maskTiles,
+      material: polygon.material ? { ...polygon.material } : undefined,
+    };
   }
 
-  // Translate a polygon by dx (east, meters) and dy (north, meters)
-  function translatePolygon(polygonId: string, dx: number, dy: number) {
-    const polygon = polygons.find(p => p.id === polygonId);
-    if (!polygon) return;
+  function captureStates(polygonIds: string[]): HistoryEntry['before'] {
+    return polygonIds.map(id => {
+      const index = polygons.findIndex(p => p.id === id);
+      return { id, index, state: index === -1 ? null : snapshotPolygon(polygons[index]) };
+    });
+  }
 
-    const positions = polygon.positions;
-    const R = 6371000; // Earth radius in meters
+  function notifyHistoryChange() {
+    historyChangeCallback?.({ canUndo: undoStack.length > 0, canRedo: redoStack.length > 0 });
+    polygonsChangeCallback?.();
+  }
 
-    // Calculate centroid latitude for accurate projection
-    const cartos = positions.map(p => Cartographic.fromCartesian(p));
-    const centroidLat = cartos.reduce((sum, c) => sum + c.latitude, 0) / cartos.length;
+  // Returns the entry the change ended up in: the new one, or the one it was merged into
+  function pushHistory(entry: HistoryEntry): HistoryEntry {
+    const last = undoStack[undoStack.length - 1];
+    const canMerge = !mergeBlocked && !!entry.mergeKey && last?.mergeKey === entry.mergeKey
+      && entry.time - last.time < HISTORY_MERGE_WINDOW_MS;
+    mergeBlocked = false;
+
+    const target = canMerge ? last : entry;
+    if (canMerge) {
+      last.after = entry.after;
+      last.time = entry.time;
+    } else {
+      undoStack.push(entry);
+      if (undoStack.length > MAX_HISTORY_ENTRIES) undoStack.shift();
+    }
+    redoStack.length = 0;
+    notifyHistoryChange();
+    return target;
+  }
+
+  function commitChange(label: string, before: HistoryEntry['before'], mergeKey?: string) {
+    const after = captureStates(before.map(b => b.id));
+    // Skip no-op edits (e.g. selecting the color that is already set)
+    const entry = JSON.stringify(before) === JSON.stringify(after)
+      ? undefined
+      : pushHistory({ label, before, after, mergeKey, time: Date.now() });
+    runTerrainJobs(entry);
+  }
+
+  function recordCreated(polygon: PolygonData) {
+    if (suppressCreateHistory) return;
+    commitChange('create', [{ id: polygon.id, index: -1, state: null }]);
+  }
 
-    // Convert dx/dy (meters) to delta lon/lat (radians)
-    const dLon = dx / (Math.cos(centroidLat) * R);
-    const dLat = dy / R;
+  function applyStates(states: HistoryEntry['before']) {
+    let selectionChanged = false;
 
-    // Apply translation to all positions
-    const translatedPositions = cartos.map(c => {
-      return Cartesian3.fromRadians(c.longitude + dLon, c.latitude + dLat, polygon.baseHeight);
+    // Remove polygons that did not exist in the target state
+    states.forEach(({ id, state }) => {
+      if (state) return;
+      const index = polygons.findIndex(p => p.id === id);
+      if (index === -1) return;
+
+      const polygon = polygons[index];
+      if (vertexEditPolygonId === id) {
+        stopVertexEdit();
+      }
+      if (holePolygonId === id) {
+        stopCuttingHole();
+      }
+      selectionChanged = unselect(id) || selectionChanged;
+      scene.primitives.remove(polygon.outlinePrimitive);
+      scene.primitives.remove(polygon.fillPrimitive);
+      labelCollection.remove(polygon.label);
+      polygons.splice(index, 1);
     });
 
-    // Update polygon positions
-    polygon.positions = translatedPositions;
+    // Restore (or recreate) the rest at their original position in the list
+    states
+      .filter(s => s.state)
+      .sort((a, b) => a.index - b.index)
+      .forEach(({ id, index, state }) => {
+        const snapshot = state as PolygonSnapshot;
+        let polygon = polygons.find(p => p.id === id);
+        if (!polygon) {
+          polygon = { id, outlineInstanceId: `${id}-outline`, fillInstanceId: `${id}-fill` } as PolygonData;
+          polygons.splice(Math.min(Math.max(index, 0), polygons.length), 0, polygon);
+        }
 
-    // Update GeoJSON
-    if (polygon.geojsonFeature?.geometry?.coordinates) {
-      const coords = translatedPositions.map(p => {
-        const c = Cartographic.fromCartesian(p);
-        return [CesiumMath.toDegrees(c.longitude), CesiumMath.toDegrees(c.latitude), polygon.baseHeight];
+        // Clone so later in-place edits don't leak back into the history
+        const restored = snapshotPolygon(snapshot as PolygonData);
+        polygon.name = restored.name;
+        polygon.positions = restored.positions;
+        polygon.holes = restored.holes;
+        polygon.baseHeight = restored.baseHeight;
+        polygon.area = restored.area;
+        polygon.color = restored.color;
+        polygon.fillAlpha = restored.fillAlpha;
+        polygon.geojsonFeature = restored.geojsonFeature;
+        polygon.groupId = restored.groupId;
+        polygon.roof = restored.roof;
+        polygon.wall = restored.wall;
+        polygon.circle = restored.circle;
+        polygon.baseMode = restored.baseMode;
+        polygon.maskTiles = restored.maskTiles;
+        polygon.material = restored.material;
+        rebuildPolygonWithHeight(polygon, restored.extrudeHeight);
       });
-      polygon.geojsonFeature.geometry.coordinates = [coords.concat([coords[0]])];
+
+    // Let the UI refresh the edit panel for the (possibly changed) selection
+    if (selectedPolygonIds.length || selectionChanged) {
+      notifySelection();
     }
+    scene.requestRender();
+  }
 
-    // Rebuild the polygon visuals with new positions
-    rebuildPolygonWithHeight(polygon, polygon.extrudeHeight);
+  function undo() {
+    const entry = undoStack.pop();
+    if (!entry) return;
+    applyStates(entry.before);
+    redoStack.push(entry);
+    mergeBlocked = true;
+    notifyHistoryChange();
+  }
+
+  function redo() {
+    const entry = redoStack.pop();
+    if (!entry) return;
+    applyStates(entry.after);
+    undoStack.push(entry);
+    mergeBlocked = true;
+    notifyHistoryChange();
+  }
+
+  function clearHistory() {
+    undoStack.length = 0;
+    redoStack.length = 0;
+    notifyHistoryChange();
+  }
+
+  function onHistoryChange(callback: HistoryChangeCallback | null) {
+    historyChangeCallback = callback;
+    notifyHistoryChange();
+  }
+
+  function onPolygonsChange(callback: (() => void) | null) {
+    polygonsChangeCallback = callback;
+  }
+
+  function onEditError(callback: ((message: string) => void) | null) {
+    editErrorCallback = callback;
   }
 
   function getAllPolygons(): PolygonData[] {
     return polygons.slice();
   }
 
-  // Import a polygon from GeoJSON feature (used for shared polygons)
-  function importPolygonFromGeoJSON(feature: any): PolygonData | null {
+  // Import a polygon from GeoJSON feature (used for shared polygons).
+  // Only handles single Polygon features - see importGeoJSON for multi-part features and collections.
+  function importPolygonFromGeoJSON(feature: any, options: { groupId?: string } = {}): PolygonData | null {
+    if (feature?.geometry?.type === 'LineString') return importWallFromGeoJSON(feature, options);
     if (feature?.geometry?.type !== 'Polygon') return null;
     
     const ring = feature.geometry?.coordinates?.[0];
@@ -1547,7 +3415,6 @@ export default function polygonDrawTool(scene: Scene) {
 
     const baseHeight = Number(feature?.properties?.baseHeight ?? 0);
     const importExtrudeHeight = Number(feature?.properties?.extrudeHeight ?? 10);
-    const area = Number(feature?.properties?.area ?? 0);
 
     // Parse color from CSS string
     let importColor = Color.WHITE;
@@ -1564,40 +3431,31 @@ export default function polygonDrawTool(scene: Scene) {
     const importFillAlpha = clampAlpha(Number(feature?.properties?.fillAlpha ?? 0.7));
     const importName = String(feature?.properties?.name ?? `Polygon ${featureIdCounter + 1}`);
 
-    // Parse coordinates - drop closing coord if it matches first
-    const coords = ring.slice();
-    const first = coords[0];
-    const last = coords[coords.length - 1];
-    if (Array.isArray(first) && Array.isArray(last) && first[0] === last[0] && first[1] === last[1]) {
-      coords.pop();
-    }
+    // Convert rings to Cartesian3 positions (first ring is the outer ring, the rest are holes)
+    const positions = ringToPositions(ring, baseHeight);
+    if (positions.length < 3) return null;
 
-    // Convert to Cartesian3 positions
-    const positions = coords
-      .filter((c: any) => Array.isArray(c) && c.length >= 2)
-      .map(([lng, lat]: [number, number]) => Cartesian3.fromDegrees(Number(lng), Number(lat), baseHeight));
+    const holes = feature.geometry.coordinates
+      .slice(1)
+      .map((holeRing: any) => ringToPositions(holeRing, baseHeight))
+      .filter((hole: Cartesian3[]) => hole.length >= 3);
 
-    if (positions.length < 3) return null;
+    // Files from other sources usually lack the area property
+    const areaProp = Number(feature?.properties?.area);
+    const area = Number.isFinite(areaProp) ? areaProp : computeAreaWithHoles(positions, holes);
 
     // Create polygon using existing logic
     const featureId = `poly-${featureIdCounter++}`;
     const outlineInstanceId = `${featureId}-outline`;
     const fillInstanceId = `${featureId}-fill`;
 
-    // Create outline
-    const outlinePositions = [...positions, positions[0]];
-    const outlineInstance = new GeometryInstance({
-      id: outlineInstanceId,
-      geometry: new PolylineGeometry({
-        positions: outlinePositions,
-        width: 2,
-      }),
-      attributes: {
-        color: ColorGeometryInstanceAttribute.fromColor(importColor.withAlpha(1))
-      }
-    });
+    // Create outline (outer ring and holes)
+    const outlineInstances = createOutlineInstances(
+      { outlineInstanceId, positions, holes } as PolygonData,
+      importColor.withAlpha(1)
+    );
     const outlinePrimitive = new Primitive({
-      geometryInstances: [outlineInstance],
+      geometryInstances: outlineInstances,
       appearance: new PolylineColorAppearance({})
     });
     scene.primitives.add(outlinePrimitive);
@@ -1608,7 +3466,7 @@ export default function polygonDrawTool(scene: Scene) {
       geometry: new PolygonGeometry({
         polygonHierarchy: {
           positions,
-          holes: []
+          holes: holes.map((hole: Cartesian3[]) => ({ positions: hole, holes: [] }))
         },
         extrudedHeight: baseHeight + importExtrudeHeight,
         perPositionHeight: false,
@@ -1676,25 +3534,226 @@ export default function polygonDrawTool(scene: Scene) {
       fillInstanceId,
       label,
       positions: positions.slice(),
+      holes,
       baseHeight,
       extrudeHeight: importExtrudeHeight,
       area,
       color: importColor.clone(),
       fillAlpha: importFillAlpha,
       geojsonFeature,
+      groupId: options.groupId,
     };
+    // The corners are kept as imported; the radius is used when the circle is edited
+    polygonData.circle = circleFromProperties(feature?.properties);
+    applyCircleProperties(geojsonFeature.properties, polygonData.circle);
+    // The stored base height is kept; the mode only decides what happens when the polygon is moved
+    polygonData.baseMode = baseModeFromProperties(feature?.properties);
+    if (polygonData.baseMode) (geojsonFeature.properties as any).baseMode = polygonData.baseMode;
+    if (feature?.properties?.maskTiles === true) {
+      polygonData.maskTiles = true;
+      (geojsonFeature.properties as any).maskTiles = true;
+    }
     polygons.push(polygonData);
+    const roof = roofFromProperties(feature?.properties);
+    if (roof) applyRoof(polygonData, roof);
+    const material = materialFromProperties(feature?.properties);
+    if (material) applyMaterial(polygonData, material);
+    recordCreated(polygonData);
 
     scene.requestRender();
     return polygonData;
   }
 
+  // A LineString feature becomes a wall. The point heights are taken from `baseHeights`, then the
+  // coordinates' Z, then `baseHeight` and last the terrain.
+  function importWallFromGeoJSON(feature: any, options: { groupId?: string } = {}): PolygonData | null {
+    const coordinates = feature?.geometry?.coordinates;
+    if (!Array.isArray(coordinates)) return null;
+
+    const { baseHeights, baseHeight, thickness, extrudeHeight: heightProp, color: colorProp, fillAlpha: alphaProp,
+      name: nameProp, id: _id, length: _length, area: _area, ...properties } = feature.properties || {};
+
+    // Points without a height stand on the terrain
+    const onTerrain: number[] = [];
+    const line = coordinates
+      .filter((c: any) => Array.isArray(c) && c.length >= 2)
+      .map((c: any[], i: number) => {
+        const longitude = CesiumMath.toRadians(Number(c[0]));
+        const latitude = CesiumMath.toRadians(Number(c[1]));
+        const height = [Array.isArray(baseHeights) ? baseHeights[i] : undefined, c[2], baseHeight]
+          .filter(h => h !== undefined && h !== null && Number.isFinite(Number(h)))[0];
+        if (height === undefined) onTerrain.push(i);
+        return Cartesian3.fromRadians(longitude, latitude,
+          height !== undefined ? Number(height) : groundHeightAt(longitude, latitude, 0));
+      });
+    if (cleanWallLine(line).length < 2) return null;
+
+    let importColor = Color.WHITE;
+    if (typeof colorProp === 'string') {
+      try {
+        const parsed = Color.fromCssColorString(colorProp);
+        if (parsed) importColor = parsed;
+      } catch {
+        // ignore
+      }
+    }
+
+    const thicknessValue = Number(thickness);
+    const polygon = createWall(line, {
+      name: nameProp !== undefined ? String(nameProp) : undefined,
+      thickness: thicknessValue > 0 ? thicknessValue : wallThickness,
+      extrudeHeight: Number(heightProp ?? 10),
+      color: importColor,
+      fillAlpha: clampAlpha(Number(alphaProp ?? 0.7)),
+      properties,
+      groupId: options.groupId,
+    });
+    if (properties.maskTiles === true) polygon.maskTiles = true;
+    const material = materialFromProperties(properties);
+    if (material) applyMaterial(polygon, material);
+    // Indices only hold while cleaning the line dropped no points
+    if (onTerrain.length === line.length) {
+      queueTerrainJob(polygon, 'wall');
+    } else if (onTerrain.length && polygon.wall?.line.length === line.length) {
+      queueTerrainJob(polygon, 'wall', onTerrain);
+    }
+    recordCreated(polygon);
+
+    scene.requestRender();
+    return polygon;
+  }
+
+  // Collect the polygon coordinate arrays of a (possibly multi-part) geometry
+  function collectPolygonParts(geometry: any): any[] {
+    switch (geometry?.type) {
+      case 'Polygon':
+        return Array.isArray(geometry.coordinates) ? [geometry.coordinates] : [];
+      case 'MultiPolygon':
+        return Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+      case 'GeometryCollection':
+        return (Array.isArray(geometry.geometries) ? geometry.geometries : [])
+          .reduce((parts: any[], g: any) => parts.concat(collectPolygonParts(g)), []);
+      default:
+        return [];
+    }
+  }
+
+  // Import any GeoJSON object: a FeatureCollection (nested collections are flattened), a Feature
+  // or a bare geometry. Each part of a MultiPolygon/GeometryCollection becomes its own polygon and
+  // the parts share a groupId. The whole import is one undo step.
+  function importGeoJSON(geojson: any): PolygonData[] {
+    const imported: PolygonData[] = [];
+
+    const importFeature = (feature: any) => {
+      if (!feature || typeof feature !== 'object') return;
+
+      if (feature.type === 'FeatureCollection') {
+        (Array.isArray(feature.features) ? feature.features : []).forEach(importFeature);
+        return;
+      }
+      if (feature.type !== 'Feature') {
+        // Bare geometry
+        importFeature({ type: 'Feature', geometry: feature, properties: {} });
+        return;
+      }
+
+      const geometry = feature.geometry;
+      if (geometry?.type === 'Polygon' || geometry?.type === 'LineString') {
+        const polygon = importPolygonFromGeoJSON(feature);
+        if (polygon) imported.push(polygon);
+        return;
+      }
+
+      const parts = collectPolygonParts(geometry);
+      if (!parts.length) return;
+
+      // Per-part properties written by getGeoJSON take precedence over the shared ones
+      const { parts: partProperties, ...sharedProperties } = feature.properties || {};
+      const groupId = `group-${groupIdCounter++}`;
+      let memberCount = 0;
+
+      parts.forEach((coordinates: any, i: number) => {
+        const partProps = Array.isArray(partProperties) ? partProperties[i] : undefined;
+        const properties = { ...sharedProperties, ...partProps };
+        if (!partProps?.name && sharedProperties.name !== undefined && parts.length > 1) {
+          properties.name = `${sharedProperties.name} ${i + 1}`;
+        }
+        delete properties.id;
+
+        const polygon = importPolygonFromGeoJSON(
+          { type: 'Feature', geometry: { type: 'Polygon', coordinates }, properties },
+          { groupId }
+        );
+        if (polygon) {
+          imported.push(polygon);
+          memberCount++;
+        }
+      });
+
+      if (memberCount) {
+        groupProperties[groupId] = sharedProperties;
+      }
+    };
+
+    suppressCreateHistory = true;
+    try {
+      importFeature(geojson);
+    } finally {
+      suppressCreateHistory = false;
+    }
+
+    if (imported.length) {
+      commitChange('import', imported.map(p => ({ id: p.id, index: -1, state: null })));
+    }
+    scene.requestRender();
+    return imported;
+  }
+
+  // A polygon from typed or pasted WGS84 corners ([lon, lat] or [lon, lat, z]), with the current height,
+  // colour and roof. Corners with Z values give the base height (less `heightOffset`, as for DXF), otherwise
+  // it stands on the lowest ground under its corners, sampled from the most detailed terrain.
+  function createPolygonFromCoordinates(coordinates: number[][], heightOffset = 0): PolygonData | null {
+    if (coordinates.length < 3) return null;
+    const zValues = coordinates.map(c => c[2]).filter(z => typeof z === 'number' && isFinite(z));
+    const baseHeight = zValues.length === coordinates.length
+      ? Math.min(...zValues) - heightOffset
+      : coordinates.reduce((lowest, [lon, lat]) => Math.min(lowest,
+        groundHeightAt(CesiumMath.toRadians(lon), CesiumMath.toRadians(lat), Number.POSITIVE_INFINITY)), Number.POSITIVE_INFINITY);
+
+    const properties: any = {
+      baseHeight: isFinite(baseHeight) ? baseHeight : 0,
+      extrudeHeight,
+      color: fillColor.toCssColorString(),
+      fillAlpha,
+    };
+    applyRoofProperties(properties, defaultRoof ?? undefined);
+    const ring = coordinates.map(([lon, lat]) => [lon, lat]);
+    let polygon: PolygonData | null;
+    suppressCreateHistory = true;
+    try {
+      polygon = importPolygonFromGeoJSON({
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [[...ring, ring[0]]] },
+        properties,
+      });
+    } finally {
+      suppressCreateHistory = false;
+    }
+    if (!polygon) return null;
+    // Corners far from the view have no loaded terrain yet
+    if (zValues.length !== coordinates.length) queueTerrainJob(polygon, 'corners');
+    recordCreated(polygon);
+    return polygon;
+  }
+
   const tool = { 
     startDrawing, 
     stopDrawing, 
     clear, 
     destroy, 
     setHeight, 
+    setRoof,
+    getRoof: () => (defaultRoof ? { ...defaultRoof } : null),
     setLabelsVisible, 
     setOpaque, 
     getOpaque, 
@@ -1703,23 +3762,81 @@ export default function polygonDrawTool(scene: Scene) {
     startDrawingRectangle,
     stopDrawingRectangle,
     isDrawingRectangle: () => isDrawingRectangle,
+    // Typed lengths and angles while drawing polygons and rectangles
+    previewSegment,
+    addSegment,
+    // Circle drawing
+    startDrawingCircle,
+    stopDrawingCircle,
+    isDrawingCircle: () => isDrawingCircle,
+    setCircleSegments,
+    getCircleSegments: () => circleSegments,
+    // Base heights
+    setBaseHeightMode,
+    getBaseHeightMode: () => ({ mode: baseHeightMode, fixedHeight: fixedBaseHeight }),
+    setGeoidHeight,
+    getGeoidHeight: () => geoidHeight,
+    // Wall drawing
+    startDrawingWall,
+    stopDrawingWall,
+    isDrawingWall: () => isDrawingWall,
+    setWallThickness,
+    getWallThickness: () => wallThickness,
+    // Snapping
+    setSnapping: snapper.setEnabled,
+    isSnapping: snapper.isEnabled,
+    setSnapTileEdges: snapper.setTileEdges,
+    isSnappingTileEdges: snapper.isSnappingTileEdges,
+    setSnapTolerance: snapper.setTolerance,
+    getSnapTolerance: snapper.getTolerance,
     // Selection
     enableSelection,
     disableSelection,
     selectPolygon,
+    selectPolygons,
     deselectPolygon,
     getSelectedPolygon,
+    getSelectedPolygons,
+    isMultipleSelection,
     // Per-polygon editing
     setPolygonName,
     setPolygonColor,
     setPolygonOpacity,
     setPolygonHeight,
+    setPolygonRoof,
+    setPolygonThickness,
+    setPolygonCircle,
+    setPolygonBaseHeightMode,
+    setPolygonMaskTiles,
+    setPolygonMaterial,
     deletePolygon,
     rotatePolygon,
     translatePolygon,
+    duplicatePolygon,
+    arrayPolygon,
     getAllPolygons,
+    // Vertex editing
+    startVertexEdit,
+    stopVertexEdit,
+    isVertexEditing: () => vertexEditPolygonId !== null,
+    deleteVertex,
+    // Holes
+    startCuttingHole,
+    stopCuttingHole,
+    isCuttingHole: () => isCuttingHole,
+    // Undo/redo
+    undo,
+    redo,
+    canUndo: () => undoStack.length > 0,
+    canRedo: () => redoStack.length > 0,
+    clearHistory,
+    onHistoryChange,
+    onPolygonsChange,
+    onEditError,
     // Import
     importPolygonFromGeoJSON,
+    importGeoJSON,
+    createPolygonFromCoordinates,
     // Helpers
     isSelectionEnabled: () => selectionEnabled,
     isDrawing: () => isDrawing,
@@ -1728,106 +3845,334 @@ export default function polygonDrawTool(scene: Scene) {
   tool.getLabelsVisible = () => labelsVisible;
   tool.getGeoJSON = () => {
     // Export as 2D GeoJSON (no Z coordinate) but keep all properties including extrudeHeight, baseHeight
+    const toFeature2D = (p: PolygonData) => {
+      const feature = JSON.parse(JSON.stringify(p.geojsonFeature)); // Deep clone
+      // Convert 3D coordinates to 2D by removing Z (polygon rings and wall lines; wall point heights
+      // are kept in `baseHeights`)
+      const strip = (coords: any): any =>
+        typeof coords?.[0] === 'number' ? coords.slice(0, 2) : Array.isArray(coords) ? coords.map(strip) : coords;
+      if (Array.isArray(feature.geometry?.coordinates)) {
+        feature.geometry.coordinates = strip(feature.geometry.coordinates);
+      }
+      return feature;
+    };
+
+    // Grouped polygons are written back as one MultiPolygon feature, with each part's own
+    // properties in `parts` so heights, colors and names survive a round trip
+    const features: any[] = [];
+    const exportedGroups: Record<string, boolean> = {};
+    polygons.forEach(p => {
+      if (!p.groupId) {
+        features.push(toFeature2D(p));
+        return;
+      }
+      if (exportedGroups[p.groupId]) return;
+      exportedGroups[p.groupId] = true;
+
+      const parts = polygons.filter(m => m.groupId === p.groupId).map(toFeature2D);
+      const properties = {
+        ...parts[0].properties,
+        ...groupProperties[p.groupId],
+        id: p.groupId,
+        area: parts.reduce((sum, f) => sum + Number(f.properties?.area ?? 0), 0),
+        parts: parts.map(f => f.properties),
+      };
+      // Roofs and circles are per part; shared ones would be given to every part on import
+      applyRoofProperties(properties, undefined);
+      applyCircleProperties(properties, undefined);
+      features.push({
+        type: "Feature",
+        geometry: {
+          type: "MultiPolygon",
+          coordinates: parts.map(f => f.geometry.coordinates),
+        },
+        properties,
+      });
+    });
+
     return {
       type: "FeatureCollection",
-      features: polygons.map(p => {
-        const feature = JSON.parse(JSON.stringify(p.geojsonFeature)); // Deep clone
-        // Convert 3D coordinates to 2D by removing Z
-        if (feature.geometry?.coordinates?.[0]) {
-          feature.geometry.coordinates[0] = feature.geometry.coordinates[0].map(
-            (coord: number[]) => coord.length >= 2 ? [coord[0], coord[1]] : coord
-          );
-        }
-        return feature;
-      }),
+      features,
     };
   };
 
-  // DXF export - generates 3D extruded polygons (R12 format for maximum compatibility)
-  // Supports SWEREF99 zones (EPSG:3006-3018)
-  // Note: EPSG:4326 is NOT supported - degrees for X/Y with meters for Z causes distorted geometry
-  tool.getDXF = (crs: string = 'EPSG:3006') => {
-    const lines: string[] = [];
-    
-    // WGS84 ellipsoid parameters
-    const a = 6378137; // WGS84 semi-major axis
-    const f = 1 / 298.257222101; // WGS84 flattening
-    const e2 = 2 * f - f * f; // eccentricity squared
-
-    // SWEREF99 zone definitions: { centralMeridian (degrees), falseEasting }
-    const sweref99Zones: Record<string, { lon0: number; falseEasting: number }> = {
-      'EPSG:3006': { lon0: 15, falseEasting: 500000 },      // SWEREF99 TM (national)
-      'EPSG:3007': { lon0: 12, falseEasting: 150000 },      // SWEREF99 12 00
-      'EPSG:3008': { lon0: 13.5, falseEasting: 150000 },    // SWEREF99 13 30
-      'EPSG:3009': { lon0: 15, falseEasting: 150000 },      // SWEREF99 15 00
-      'EPSG:3010': { lon0: 16.5, falseEasting: 150000 },    // SWEREF99 16 30
-      'EPSG:3011': { lon0: 18, falseEasting: 150000 },      // SWEREF99 18 00
-      'EPSG:3012': { lon0: 14.25, falseEasting: 150000 },   // SWEREF99 14 15
-      'EPSG:3013': { lon0: 15.75, falseEasting: 150000 },   // SWEREF99 15 45
-      'EPSG:3014': { lon0: 17.25, falseEasting: 150000 },   // SWEREF99 17 15
-      'EPSG:3015': { lon0: 18.75, falseEasting: 150000 },   // SWEREF99 18 45
-      'EPSG:3016': { lon0: 20.25, falseEasting: 150000 },   // SWEREF99 20 15
-      'EPSG:3017': { lon0: 21.75, falseEasting: 150000 },   // SWEREF99 21 45
-      'EPSG:3018': { lon0: 23.25, falseEasting: 150000 },   // SWEREF99 23 15
+  // GLB export - one named mesh node per polygon in a local east-north-up frame anchored at the
+  // drawings' centroid (on the ellipsoid). glTF is Y-up, so x = east, y = up, z = south.
+  tool.getGLB = (): ArrayBuffer | null => {
+    if (!polygons.length) return null;
+
+    type Vec3 = [number, number, number];
+
+    const allPositions = polygons.reduce((acc, p) => acc.concat(p.positions), [] as Cartesian3[]);
+    const centroid = allPositions.reduce((sum, p) => Cartesian3.add(sum, p, sum), new Cartesian3());
+    Cartesian3.divideByScalar(centroid, allPositions.length, centroid);
+    const anchor = Cartographic.fromCartesian(centroid);
+    anchor.height = 0;
+    const toEnu = Matrix4.inverseTransformation(
+      Transforms.eastNorthUpToFixedFrame(Cartographic.toCartesian(anchor)),
+      new Matrix4()
+    );
+
+    const toLocal = (position: Cartesian3, height: number): Vec3 => {
+      const c = Cartographic.fromCartesian(position);
+      const enu = Matrix4.multiplyByPoint(toEnu, Cartesian3.fromRadians(c.longitude, c.latitude, height), new Cartesian3());
+      return [enu.x, enu.y, enu.z];
     };
-    
-    // Convert WGS84 (radians) to SWEREF99 / Transverse Mercator
-    const toSWEREF99 = (lonRad: number, latRad: number, lon0Deg: number, falseEasting: number) => {
-      const lat = latRad;
-      const lon = lonRad;
-      const lon0 = lon0Deg * Math.PI / 180;
-      const k0 = crs.toUpperCase() === 'EPSG:3006' ? 0.9996 : 1.0; // TM uses 0.9996, local zones use 1.0
-      const falseNorthing = 0;
-      
-      const N = a / Math.sqrt(1 - e2 * Math.sin(lat) * Math.sin(lat));
-      const T = Math.tan(lat) * Math.tan(lat);
-      const C = (e2 / (1 - e2)) * Math.cos(lat) * Math.cos(lat);
-      const A = (lon - lon0) * Math.cos(lat);
-      
-      // Meridian arc length
-      const e4 = e2 * e2;
-      const e6 = e4 * e2;
-      const M = a * (
-        (1 - e2/4 - 3*e4/64 - 5*e6/256) * lat
-        - (3*e2/8 + 3*e4/32 + 45*e6/1024) * Math.sin(2*lat)
-        + (15*e4/256 + 45*e6/1024) * Math.sin(4*lat)
-        - (35*e6/3072) * Math.sin(6*lat)
+    const toYUp = ([e, n, u]: Vec3): Vec3 => [e, u, -n];
+
+    const meshes: GlbMesh[] = polygons.map((polygon) => {
+      const rings = [polygon.positions, ...(polygon.holes || [])];
+      const bottomRings = rings.map(ring => ring.map(p => toLocal(p, vertexBaseHeight(polygon, Cartographic.fromCartesian(p)))));
+      const topRings = rings.map(ring => ring.map(p => toLocal(p, vertexBaseHeight(polygon, Cartographic.fromCartesian(p)) + polygon.extrudeHeight)));
+
+      // Node origin at the footprint centroid, so objects get sensible pivots in Blender/SketchUp
+      const outer = bottomRings[0];
+      const origin: Vec3 = [0, 1, 2].map(axis => outer.reduce((sum, v) => sum + v[axis], 0) / outer.length) as Vec3;
+
+      const positions: number[] = [];
+      const normals: number[] = [];
+      const indices: number[] = [];
+
+      // Adds a flat face; triangles are wound counter-clockwise around the given outward normal
+      const addFace = (vertices: Vec3[], triangles: [number, number, number][], normal: Vec3) => {
+        const start = positions.length / 3;
+        vertices.forEach(v => {
+          positions.push(...toYUp([v[0] - origin[0], v[1] - origin[1], v[2] - origin[2]]));
+          normals.push(...toYUp(normal));
+        });
+        triangles.forEach(([a, b, c]) => {
+          const [va, vb, vc] = [vertices[a], vertices[b], vertices[c]];
+          const u = [vb[0] - va[0], vb[1] - va[1], vb[2] - va[2]];
+          const w = [vc[0] - va[0], vc[1] - va[1], vc[2] - va[2]];
+          const facing = (u[1] * w[2] - u[2] * w[1]) * normal[0]
+            + (u[2] * w[0] - u[0] * w[2]) * normal[1]
+            + (u[0] * w[1] - u[1] * w[0]) * normal[2];
+          indices.push(start + a, ...(facing >= 0 ? [start + b, start + c] : [start + c, start + b]));
+        });
+      };
+
+      // Caps
+      const capTriangles = triangulatePolygon(
+        outer.map(([x, y]) => ({ x, y })),
+        bottomRings.slice(1).map(ring => ring.map(([x, y]) => ({ x, y })))
       );
-      
-      const x = falseEasting + k0 * N * (A + (1-T+C)*A*A*A/6 + (5-18*T+T*T+72*C-58*(e2/(1-e2)))*A*A*A*A*A/120);
-      const y = falseNorthing + k0 * (M + N * Math.tan(lat) * (A*A/2 + (5-T+9*C+4*C*C)*A*A*A*A/24 + (61-58*T+T*T+600*C-330*(e2/(1-e2)))*A*A*A*A*A*A/720));
-      
+      addFace(bottomRings.reduce((acc, r) => acc.concat(r), [] as Vec3[]), capTriangles, [0, 0, -1]);
+      addFace(topRings.reduce((acc, r) => acc.concat(r), [] as Vec3[]), capTriangles, [0, 0, 1]);
+
+      // Walls, facing away from the solid (outwards on the outer ring, into the holes)
+      bottomRings.forEach((ring, r) => {
+        const signedArea = ring.reduce((sum, [x1, y1], i) => {
+          const [x2, y2] = ring[(i + 1) % ring.length];
+          return sum + x1 * y2 - x2 * y1;
+        }, 0);
+        const sign = (r === 0 ? 1 : -1) * (signedArea > 0 ? 1 : -1);
+
+        ring.forEach((a, i) => {
+          const j = (i + 1) % ring.length;
+          const b = ring[j];
+          const dx = b[0] - a[0];
+          const dy = b[1] - a[1];
+          const length = Math.hypot(dx, dy) || 1;
+          addFace(
+            [a, b, topRings[r][j], topRings[r][i]],
+            [[0, 1, 2], [0, 2, 3]],
+            [sign * dy / length, -sign * dx / length, 0]
+          );
+        });
+      });
+
+      // Roof surfaces and gables on top of the flat cap, wound as computed
+      const roof = pitchedRoof(polygon);
+      if (roof) {
+        computeRoofTriangles(polygon.positions, polygon.baseHeight + polygon.extrudeHeight, roof).forEach(triangle => {
+          const [a, b, c] = triangle.map(v => toLocal(Cartographic.toCartesian(v), v.height));
+          const normal: Vec3 = [
+            (b[1] - a[1]) * (c[2] - a[2]) - (b[2] - a[2]) * (c[1] - a[1]),
+            (b[2] - a[2]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[2] - a[2]),
+            (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]),
+          ];
+          const length = Math.hypot(normal[0], normal[1], normal[2]);
+          if (length > 0) addFace([a, b, c], [[0, 1, 2]], normal.map(n => n / length) as Vec3);
+        });
+      }
+
+      return {
+        name: polygon.name,
+        positions,
+        normals,
+        indices,
+        color: [srgbToLinear(polygon.color.red), srgbToLinear(polygon.color.green), srgbToLinear(polygon.color.blue), polygon.fillAlpha],
+        translation: toYUp(origin),
+        extras: {
+          id: polygon.id,
+          baseHeight: polygon.baseHeight,
+          extrudeHeight: polygon.extrudeHeight,
+          area: polygon.area,
+          ...(polygon.groupId ? { groupId: polygon.groupId } : {}),
+          ...(polygon.roof ? { roofType: polygon.roof.type, roofHeight: polygon.roof.height } : {}),
+          ...(polygon.roof?.direction !== undefined ? { roofDirection: polygon.roof.direction } : {}),
+          ...(polygon.wall ? { thickness: polygon.wall.thickness } : {}),
+          ...(polygon.circle ? { radius: polygon.circle.radius, segments: polygon.circle.segments } : {}),
+        },
+      };
+    });
+
+    return buildGlb(meshes, {
+      anchor: {
+        longitude: CesiumMath.toDegrees(anchor.longitude),
+        latitude: CesiumMath.toDegrees(anchor.latitude),
+        height: 0,
+      },
+      frame: 'ENU (x = east, y = up, z = south)',
+    });
+  };
+
+  // DXF export - generates 3D extruded polygons (R12 format for maximum compatibility)
+  // Supports any projected CRS registered with proj4 (SWEREF99 zones built in, others from proj4Defs).
+  // Geographic systems such as EPSG:4326 are rejected - degrees for X/Y with meters for Z distorts the geometry.
+  // heightOffset is added to all Z values, e.g. to convert to a local height system.
+  // polyfaceMesh writes each volume as one closed POLYFACE MESH instead of LINE/3DFACE entities
+  // (pitched roofs get a second mesh on the same layer).
+  tool.getDXF = (crs: string = 'EPSG:3006', options: { heightOffset?: number; polyfaceMesh?: boolean } = {}) => {
+    const lines: string[] = [];
+    const targetCrs = requireProjectedCrs(crs);
+    const heightOffset = options.heightOffset ?? 0;
+
+    const transformCoord = (lonRad: number, latRad: number): { x: number; y: number } => {
+      const [x, y] = fromWgs84(targetCrs, CesiumMath.toDegrees(lonRad), CesiumMath.toDegrees(latRad));
       return { x, y };
     };
 
-    // Select coordinate transform based on CRS
-    const crsUpper = crs.toUpperCase();
-    let zoneConfig = sweref99Zones[crsUpper];
-    
-    // EPSG:4326 is not supported for 3D DXF - fall back to EPSG:3006
-    if (crsUpper === 'EPSG:4326' || crsUpper === 'WGS84') {
-      console.warn('EPSG:4326 is not supported for DXF export (X/Y in degrees, Z in meters causes distortion). Using EPSG:3006.');
-      zoneConfig = sweref99Zones['EPSG:3006'];
-    }
-    
-    const transformCoord = (lonRad: number, latRad: number): { x: number; y: number } => {
-      if (zoneConfig) {
-        return toSWEREF99(lonRad, latRad, zoneConfig.lon0, zoneConfig.falseEasting);
-      }
-      // Default to EPSG:3006
-      return toSWEREF99(lonRad, latRad, 15, 500000);
+    // One closed solid per volume: vertices are all ring points at their base followed by the same
+    // points at the top; faces are side quads and cap triangles (1-based indices, negative = hidden edge)
+    const pushPolyfaceMesh = (layerName: string, rings: { x: number; y: number; z: number }[][], height: number) => {
+      const allCoords = rings.reduce((acc, ring) => acc.concat(ring), [] as { x: number; y: number; z: number }[]);
+      const ringStart: number[] = [];
+      const ringOfIndex: number[] = [];
+      rings.forEach((ring, r) => {
+        ringStart.push(ringOfIndex.length);
+        ring.forEach(() => ringOfIndex.push(r));
+      });
+      const count = allCoords.length;
+      const bottom = (i: number) => i + 1;
+      const top = (i: number) => count + i + 1;
+
+      const isRingEdge = (a: number, b: number) => {
+        if (ringOfIndex[a] !== ringOfIndex[b]) return false;
+        const r = ringOfIndex[a];
+        const n = rings[r].length;
+        const la = a - ringStart[r];
+        const lb = b - ringStart[r];
+        return (la + 1) % n === lb || (lb + 1) % n === la;
+      };
+
+      const faces: number[][] = [];
+      rings.forEach((ring, r) => {
+        for (let i = 0; i < ring.length; i++) {
+          const a = ringStart[r] + i;
+          const b = ringStart[r] + (i + 1) % ring.length;
+          faces.push([bottom(a), bottom(b), top(b), top(a)]);
+        }
+      });
+      // Hide the diagonals so the caps show only the footprint edges
+      const capFace = (a: number, b: number, c: number, level: (i: number) => number) => [
+        isRingEdge(a, b) ? level(a) : -level(a),
+        isRingEdge(b, c) ? level(b) : -level(b),
+        isRingEdge(c, a) ? level(c) : -level(c),
+      ];
+      triangulatePolygon(rings[0], rings.slice(1)).forEach(([i0, i1, i2]) => {
+        faces.push(capFace(i2, i1, i0, bottom));
+        faces.push(capFace(i0, i1, i2, top));
+      });
+
+      lines.push('0', 'POLYLINE');
+      lines.push('8', layerName);
+      lines.push('66', '1');
+      lines.push('10', '0');
+      lines.push('20', '0');
+      lines.push('30', '0');
+      lines.push('70', '64');
+      lines.push('71', String(count * 2));
+      lines.push('72', String(faces.length));
+
+      [0, height].forEach((dz) => {
+        allCoords.forEach((c) => {
+          lines.push('0', 'VERTEX');
+          lines.push('8', layerName);
+          lines.push('10', String(c.x));
+          lines.push('20', String(c.y));
+          lines.push('30', String(c.z + dz));
+          lines.push('70', '192');
+        });
+      });
+
+      faces.forEach((face) => {
+        lines.push('0', 'VERTEX');
+        lines.push('8', layerName);
+        lines.push('10', '0');
+        lines.push('20', '0');
+        lines.push('30', '0');
+        lines.push('70', '128');
+        face.forEach((index, k) => lines.push(String(71 + k), String(index)));
+      });
+
+      lines.push('0', 'SEQEND');
+      lines.push('8', layerName);
+    };
+
+    // Roof surfaces and gables as their own POLYFACE MESH, with shared corners so it stays one surface
+    const pushTriangleMesh = (layerName: string, triangles: { x: number; y: number; z: number }[][]) => {
+      const vertices: { x: number; y: number; z: number }[] = [];
+      const vertexIndex: Record<string, number> = {};
+      const faces = triangles.map(triangle => triangle.map(v => {
+        const key = `${v.x.toFixed(4)},${v.y.toFixed(4)},${v.z.toFixed(4)}`;
+        if (vertexIndex[key] === undefined) {
+          vertices.push(v);
+          vertexIndex[key] = vertices.length;
+        }
+        return vertexIndex[key];
+      }));
+
+      lines.push('0', 'POLYLINE');
+      lines.push('8', layerName);
+      lines.push('66', '1');
+      lines.push('10', '0');
+      lines.push('20', '0');
+      lines.push('30', '0');
+      lines.push('70', '64');
+      lines.push('71', String(vertices.length));
+      lines.push('72', String(faces.length));
+
+      vertices.forEach((v) => {
+        lines.push('0', 'VERTEX');
+        lines.push('8', layerName);
+        lines.push('10', String(v.x));
+        lines.push('20', String(v.y));
+        lines.push('30', String(v.z));
+        lines.push('70', '192');
+      });
+
+      faces.forEach((face) => {
+        lines.push('0', 'VERTEX');
+        lines.push('8', layerName);
+        lines.push('10', '0');
+        lines.push('20', '0');
+        lines.push('30', '0');
+        lines.push('70', '128');
+        face.forEach((index, k) => lines.push(String(71 + k), String(index)));
+      });
+
+      lines.push('0', 'SEQEND');
+      lines.push('8', layerName);
     };
 
-    // Set units based on CRS (6 = meters, 4 = degrees)
-    const insUnits = (crsUpper === 'EPSG:4326' || crsUpper === 'WGS84') ? '4' : '6';
-    
     // DXF Header - R12 format (AC1009) for maximum compatibility
     lines.push('0', 'SECTION');
     lines.push('2', 'HEADER');
     lines.push('9', '$ACADVER');
     lines.push('1', 'AC1009');
     lines.push('9', '$INSUNITS');
-    lines.push('70', insUnits);
+    lines.push('70', '6'); // meters
     lines.push('0', 'ENDSEC');
     
     // Tables section
@@ -1849,179 +4194,119 @@ export default function polygonDrawTool(scene: Scene) {
     lines.push('2', 'ENTITIES');
     
     polygons.forEach((polygon) => {
-      // Convert coordinates using selected CRS
-      const coords = polygon.positions.map(p => {
+      // Convert coordinates using selected CRS (outer ring and holes), with the base height of each point
+      const toDxfRing = (ring: Cartesian3[]) => ring.map(p => {
         const c = Cartographic.fromCartesian(p);
-        return transformCoord(c.longitude, c.latitude);
+        return { ...transformCoord(c.longitude, c.latitude), z: vertexBaseHeight(polygon, c) + heightOffset };
       });
+      const coords = toDxfRing(polygon.positions);
+      const holeCoords = (polygon.holes || []).map(toDxfRing);
+      const rings = [coords, ...holeCoords];
       
-      const baseZ = polygon.baseHeight;
-      const topZ = polygon.baseHeight + polygon.extrudeHeight;
+      const height = polygon.extrudeHeight;
       const layerName = polygon.name.replace(/[^a-zA-Z0-9_]/g, '_');
-      
-      // Bottom outline as LINE entities
-      for (let i = 0; i < coords.length; i++) {
-        const c1 = coords[i];
-        const c2 = coords[(i + 1) % coords.length];
-        lines.push('0', 'LINE');
-        lines.push('8', layerName);
-        lines.push('10', String(c1.x));
-        lines.push('20', String(c1.y));
-        lines.push('30', String(baseZ));
-        lines.push('11', String(c2.x));
-        lines.push('21', String(c2.y));
-        lines.push('31', String(baseZ));
-      }
-      
-      // Top outline as LINE entities
-      for (let i = 0; i < coords.length; i++) {
-        const c1 = coords[i];
-        const c2 = coords[(i + 1) % coords.length];
-        lines.push('0', 'LINE');
-        lines.push('8', layerName);
-        lines.push('10', String(c1.x));
-        lines.push('20', String(c1.y));
-        lines.push('30', String(topZ));
-        lines.push('11', String(c2.x));
-        lines.push('21', String(c2.y));
-        lines.push('31', String(topZ));
-      }
-      
-      // Vertical edges as LINE entities
-      for (let i = 0; i < coords.length; i++) {
-        const c = coords[i];
-        lines.push('0', 'LINE');
-        lines.push('8', layerName);
-        lines.push('10', String(c.x));
-        lines.push('20', String(c.y));
-        lines.push('30', String(baseZ));
-        lines.push('11', String(c.x));
-        lines.push('21', String(c.y));
-        lines.push('31', String(topZ));
+
+      const roof = pitchedRoof(polygon);
+      const roofTriangles = roof
+        ? computeRoofTriangles(polygon.positions, polygon.baseHeight + polygon.extrudeHeight, roof)
+          .map(triangle => triangle.map(v => ({ ...transformCoord(v.longitude, v.latitude), z: v.height + heightOffset })))
+        : [];
+
+      if (options.polyfaceMesh) {
+        pushPolyfaceMesh(layerName, rings, height);
+        if (roofTriangles.length) pushTriangleMesh(layerName, roofTriangles);
+        return;
       }
       
-      // Side faces as 3DFACE entities
-      for (let i = 0; i < coords.length; i++) {
-        const c1 = coords[i];
-        const c2 = coords[(i + 1) % coords.length];
+      rings.forEach((ring) => {
+        // Bottom outline as LINE entities
+        for (let i = 0; i < ring.length; i++) {
+          const c1 = ring[i];
+          const c2 = ring[(i + 1) % ring.length];
+          lines.push('0', 'LINE');
+          lines.push('8', layerName);
+          lines.push('10', String(c1.x));
+          lines.push('20', String(c1.y));
+          lines.push('30', String(c1.z));
+          lines.push('11', String(c2.x));
+          lines.push('21', String(c2.y));
+          lines.push('31', String(c2.z));
+        }
         
-        lines.push('0', '3DFACE');
-        lines.push('8', layerName);
-        lines.push('10', String(c1.x));
-        lines.push('20', String(c1.y));
-        lines.push('30', String(baseZ));
-        lines.push('11', String(c2.x));
-        lines.push('21', String(c2.y));
-        lines.push('31', String(baseZ));
-        lines.push('12', String(c2.x));
-        lines.push('22', String(c2.y));
-        lines.push('32', String(topZ));
-        lines.push('13', String(c1.x));
-        lines.push('23', String(c1.y));
-        lines.push('33', String(topZ));
-      }
-      
-      // Bottom face as 3DFACE (triangulated for >3 points)
-      if (coords.length === 3) {
-        lines.push('0', '3DFACE');
-        lines.push('8', layerName);
-        lines.push('10', String(coords[0].x));
-        lines.push('20', String(coords[0].y));
-        lines.push('30', String(baseZ));
-        lines.push('11', String(coords[1].x));
-        lines.push('21', String(coords[1].y));
-        lines.push('31', String(baseZ));
-        lines.push('12', String(coords[2].x));
-        lines.push('22', String(coords[2].y));
-        lines.push('32', String(baseZ));
-        lines.push('13', String(coords[2].x));
-        lines.push('23', String(coords[2].y));
-        lines.push('33', String(baseZ));
-      } else if (coords.length === 4) {
-        lines.push('0', '3DFACE');
-        lines.push('8', layerName);
-        lines.push('10', String(coords[0].x));
-        lines.push('20', String(coords[0].y));
-        lines.push('30', String(baseZ));
-        lines.push('11', String(coords[1].x));
-        lines.push('21', String(coords[1].y));
-        lines.push('31', String(baseZ));
-        lines.push('12', String(coords[2].x));
-        lines.push('22', String(coords[2].y));
-        lines.push('32', String(baseZ));
-        lines.push('13', String(coords[3].x));
-        lines.push('23', String(coords[3].y));
-        lines.push('33', String(baseZ));
-      } else {
-        // Fan triangulation for polygons with more than 4 vertices
-        for (let i = 1; i < coords.length - 1; i++) {
+        // Top outline as LINE entities
+        for (let i = 0; i < ring.length; i++) {
+          const c1 = ring[i];
+          const c2 = ring[(i + 1) % ring.length];
+          lines.push('0', 'LINE');
+          lines.push('8', layerName);
+          lines.push('10', String(c1.x));
+          lines.push('20', String(c1.y));
+          lines.push('30', String(c1.z + height));
+          lines.push('11', String(c2.x));
+          lines.push('21', String(c2.y));
+          lines.push('31', String(c2.z + height));
+        }
+        
+        // Vertical edges as LINE entities
+        for (let i = 0; i < ring.length; i++) {
+          const c = ring[i];
+          lines.push('0', 'LINE');
+          lines.push('8', layerName);
+          lines.push('10', String(c.x));
+          lines.push('20', String(c.y));
+          lines.push('30', String(c.z));
+          lines.push('11', String(c.x));
+          lines.push('21', String(c.y));
+          lines.push('31', String(c.z + height));
+        }
+        
+        // Side faces as 3DFACE entities
+        for (let i = 0; i < ring.length; i++) {
+          const c1 = ring[i];
+          const c2 = ring[(i + 1) % ring.length];
+          
           lines.push('0', '3DFACE');
           lines.push('8', layerName);
-          lines.push('10', String(coords[0].x));
-          lines.push('20', String(coords[0].y));
-          lines.push('30', String(baseZ));
-          lines.push('11', String(coords[i].x));
-          lines.push('21', String(coords[i].y));
-          lines.push('31', String(baseZ));
-          lines.push('12', String(coords[i + 1].x));
-          lines.push('22', String(coords[i + 1].y));
-          lines.push('32', String(baseZ));
-          lines.push('13', String(coords[i + 1].x));
-          lines.push('23', String(coords[i + 1].y));
-          lines.push('33', String(baseZ));
+          lines.push('10', String(c1.x));
+          lines.push('20', String(c1.y));
+          lines.push('30', String(c1.z));
+          lines.push('11', String(c2.x));
+          lines.push('21', String(c2.y));
+          lines.push('31', String(c2.z));
+          lines.push('12', String(c2.x));
+          lines.push('22', String(c2.y));
+          lines.push('32', String(c2.z + height));
+          lines.push('13', String(c1.x));
+          lines.push('23', String(c1.y));
+          lines.push('33', String(c1.z + height));
         }
-      }
+      });
       
-      // Top face as 3DFACE (triangulated for >3 points)
-      if (coords.length === 3) {
-        lines.push('0', '3DFACE');
-        lines.push('8', layerName);
-        lines.push('10', String(coords[0].x));
-        lines.push('20', String(coords[0].y));
-        lines.push('30', String(topZ));
-        lines.push('11', String(coords[1].x));
-        lines.push('21', String(coords[1].y));
-        lines.push('31', String(topZ));
-        lines.push('12', String(coords[2].x));
-        lines.push('22', String(coords[2].y));
-        lines.push('32', String(topZ));
-        lines.push('13', String(coords[2].x));
-        lines.push('23', String(coords[2].y));
-        lines.push('33', String(topZ));
-      } else if (coords.length === 4) {
-        lines.push('0', '3DFACE');
-        lines.push('8', layerName);
-        lines.push('10', String(coords[0].x));
-        lines.push('20', String(coords[0].y));
-        lines.push('30', String(topZ));
-        lines.push('11', String(coords[1].x));
-        lines.push('21', String(coords[1].y));
-        lines.push('31', String(topZ));
-        lines.push('12', String(coords[2].x));
-        lines.push('22', String(coords[2].y));
-        lines.push('32', String(topZ));
-        lines.push('13', String(coords[3].x));
-        lines.push('23', String(coords[3].y));
-        lines.push('33', String(topZ));
-      } else {
-        // Fan triangulation for polygons with more than 4 vertices
-        for (let i = 1; i < coords.length - 1; i++) {
+      // Bottom and top faces from an ear-clipping triangulation (correct for concave footprints and holes)
+      const allCoords = rings.reduce((acc, ring) => acc.concat(ring), [] as { x: number; y: number; z: number }[]);
+      const triangles = triangulatePolygon(coords, holeCoords);
+      [0, height].forEach((dz) => {
+        triangles.forEach(([i0, i1, i2]) => {
+          const t = [allCoords[i0], allCoords[i1], allCoords[i2], allCoords[i2]];
           lines.push('0', '3DFACE');
           lines.push('8', layerName);
-          lines.push('10', String(coords[0].x));
-          lines.push('20', String(coords[0].y));
-          lines.push('30', String(topZ));
-          lines.push('11', String(coords[i].x));
-          lines.push('21', String(coords[i].y));
-          lines.push('31', String(topZ));
-          lines.push('12', String(coords[i + 1].x));
-          lines.push('22', String(coords[i + 1].y));
-          lines.push('32', String(topZ));
-          lines.push('13', String(coords[i + 1].x));
-          lines.push('23', String(coords[i + 1].y));
-          lines.push('33', String(topZ));
-        }
-      }
+          t.forEach((c, k) => {
+            lines.push(String(10 + k), String(c.x));
+            lines.push(String(20 + k), String(c.y));
+            lines.push(String(30 + k), String(c.z + dz));
+          });
+        });
+      });
+
+      roofTriangles.forEach((triangle) => {
+        lines.push('0', '3DFACE');
+        lines.push('8', layerName);
+        [triangle[0], triangle[1], triangle[2], triangle[2]].forEach((c, k) => {
+          lines.push(String(10 + k), String(c.x));
+          lines.push(String(20 + k), String(c.y));
+          lines.push(String(30 + k), String(c.z));
+        });
+      });
     });
     
     lines.push('0', 'ENDSEC');
@@ -2030,5 +4315,214 @@ export default function polygonDrawTool(scene: Scene) {
     return lines.join('\n');
   };
 
+  // KML export for Google Earth - extruded polygons standing on the ground (relativeToGround),
+  // since Google Earth heights are above sea level while ours are ellipsoidal. The exact heights
+  // go in ExtendedData for the importer. Grouped polygons are written as one folder per group.
+  tool.getKML = (): string => {
+    const escapeXml = (value: any) => String(value)
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    // KML colours are aabbggrr
+    const toKmlColor = (color: Color, alpha: number) => {
+      const hex = (v: number) => `0${Math.round(Math.min(1, Math.max(0, v)) * 255).toString(16)}`.slice(-2);
+      return `${hex(alpha)}${hex(color.blue)}${hex(color.green)}${hex(color.red)}`;
+    };
+
+    const toKmlRing = (ring: Cartesian3[], height: number) => {
+      const coords = ring.map(p => {
+        const c = Cartographic.fromCartesian(p);
+        return `${CesiumMath.toDegrees(c.longitude).toFixed(8)},${CesiumMath.toDegrees(c.latitude).toFixed(8)},${height.toFixed(2)}`;
+      });
+      // KML rings repeat their first point
+      return `<LinearRing><coordinates>${coords.concat(coords[0]).join(' ')}</coordinates></LinearRing>`;
+    };
+
+    const placemark = (polygon: PolygonData) => {
+      const top = polygon.baseHeight + polygon.extrudeHeight;
+      const description = `<![CDATA[<table>`
+        + `<tr><td>Bas</td><td>${polygon.baseHeight.toFixed(2)} m</td></tr>`
+        + `<tr><td>Höjd</td><td>${polygon.extrudeHeight} m</td></tr>`
+        + `<tr><td>Topp</td><td>${top.toFixed(2)} m</td></tr>`
+        + `<tr><td>Yta</td><td>${polygon.area.toFixed(1)} m²</td></tr>`
+        + `</table>]]>`;
+      const data: Record<string, any> = {
+        baseHeight: polygon.baseHeight,
+        extrudeHeight: polygon.extrudeHeight,
+        color: polygon.color.toCssColorString(),
+        fillAlpha: polygon.fillAlpha,
+        ...(polygon.groupId ? { groupId: polygon.groupId } : {}),
+      };
+      return [
+        '<Placemark>',
+        `<name>${escapeXml(polygon.name)}</name>`,
+        `<description>${description}</description>`,
+        '<Style>',
+        `<LineStyle><color>${toKmlColor(polygon.color, 1)}</color><width>2</width></LineStyle>`,
+        `<PolyStyle><color>${toKmlColor(polygon.color, polygon.fillAlpha)}</color></PolyStyle>`,
+        '</Style>',
+        '<ExtendedData>',
+        ...Object.keys(data).map(key => `<Data name="${key}"><value>${escapeXml(data[key])}</value></Data>`),
+        '</ExtendedData>',
+        '<Polygon>',
+        '<extrude>1</extrude>',
+        '<altitudeMode>relativeToGround</altitudeMode>',
+        `<outerBoundaryIs>${toKmlRing(polygon.positions, polygon.extrudeHeight)}</outerBoundaryIs>`,
+        ...(polygon.holes || []).map(hole => `<innerBoundaryIs>${toKmlRing(hole, polygon.extrudeHeight)}</innerBoundaryIs>`),
+        '</Polygon>',
+        '</Placemark>',
+      ].join('\n');
+    };
+
+    const body: string[] = [];
+    const writtenGroups: Record<string, boolean> = {};
+    polygons.forEach((polygon) => {
+      if (!polygon.groupId) {
+        body.push(placemark(polygon));
+        return;
+      }
+      if (writtenGroups[polygon.groupId]) return;
+      writtenGroups[polygon.groupId] = true;
+      const members = getGroupMembers(polygon);
+      const groupName = groupProperties[polygon.groupId]?.name ?? members[0].name;
+      body.push(`<Folder>\n<name>${escapeXml(groupName)}</name>\n${members.map(placemark).join('\n')}\n</Folder>`);
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<kml xmlns="http://www.opengis.net/kml/2.2">',
+      '<Document>',
+      '<name>Ritade polygoner</name>',
+      ...body,
+      '</Document>',
+      '</kml>',
+    ].join('\n');
+  };
+
+  // KMZ export - the KML zipped as doc.kml
+  tool.getKMZ = (): Uint8Array => writeZip([{ name: 'doc.kml', data: new TextEncoder().encode(tool.getKML()) }]);
+
+  // CityJSON export - each polygon as a Building with an LoD1 Solid in the given projected CRS.
+  // Attributes carry what the importer needs to restore the polygon (name, colour, heights, and the
+  // wall centre line, roof, circle and materials the Solid cannot show).
+  // heightOffset is added to all Z values and to `baseHeight`, as for DXF. With a `verticalCrs` (the height system the offset
+  // leads to, e.g. RH2000) the reference system is the compound of both, otherwise only the horizontal one.
+  tool.getCityJSON = (crs: string = 'EPSG:3006', options: { heightOffset?: number; verticalCrs?: string } = {}) => {
+    const targetCrs = requireProjectedCrs(crs);
+    const heightOffset = options.heightOffset ?? 0;
+    const scale = 0.001;
+
+    const vertices: number[][] = [];
+    const vertexIndex: Record<string, number> = {};
+    const addVertex = (x: number, y: number, z: number): number => {
+      const v = [Math.round(x / scale), Math.round(y / scale), Math.round(z / scale)];
+      const key = v.join(',');
+      if (vertexIndex[key] === undefined) {
+        vertexIndex[key] = vertices.length;
+        vertices.push(v);
+      }
+      return vertexIndex[key];
+    };
+
+    const cityObjects: Record<string, any> = {};
+
+    polygons.forEach((polygon) => {
+      // [x, y, base height of the corner]
+      const toProjected = (ring: Cartesian3[]) => ring.map(p => {
+        const c = Cartographic.fromCartesian(p);
+        const [x, y] = fromWgs84(targetCrs, CesiumMath.toDegrees(c.longitude), CesiumMath.toDegrees(c.latitude));
+        return [x, y, vertexBaseHeight(polygon, c) + heightOffset];
+      });
+      const signedArea = (ring: number[][]) => ring.reduce((sum, [x1, y1], i) => {
+        const [x2, y2] = ring[(i + 1) % ring.length];
+        return sum + x1 * y2 - x2 * y1;
+      }, 0);
+
+      // Outer ring counter-clockwise and holes clockwise seen from above, so all surfaces face outwards
+      const outer = toProjected(polygon.positions);
+      if (signedArea(outer) < 0) outer.reverse();
+      const holes = (polygon.holes || []).map(toProjected);
+      holes.forEach(hole => {
+        if (signedArea(hole) > 0) hole.reverse();
+      });
+      const rings = [outer, ...holes];
+
+      const bottomRings = rings.map(ring => ring.map(([x, y, z]) => addVertex(x, y, z)));
+      const topRings = rings.map(ring => ring.map(([x, y, z]) => addVertex(x, y, z + polygon.extrudeHeight)));
+
+      // Ground, roof and then wall surfaces, with their semantics so the importer finds the footprint
+      const surfaces: number[][][] = [
+        bottomRings.map(ring => ring.slice().reverse()),
+        topRings,
+      ];
+      const semanticValues = [0, 1];
+      bottomRings.forEach((ring, r) => {
+        ring.forEach((a, i) => {
+          const j = (i + 1) % ring.length;
+          surfaces.push([[a, ring[j], topRings[r][j], topRings[r][i]]]);
+          semanticValues.push(2);
+        });
+      });
+
+      const attributes: any = {
+        name: polygon.name,
+        color: polygon.color.toCssColorString(),
+        fillAlpha: polygon.fillAlpha,
+        baseHeight: polygon.baseHeight + heightOffset,
+        extrudeHeight: polygon.extrudeHeight,
+        measuredHeight: polygon.extrudeHeight,
+        area: polygon.area,
+        ...(polygon.groupId ? { groupId: polygon.groupId } : {}),
+        ...(polygon.baseMode ? { baseMode: polygon.baseMode } : {}),
+        ...(polygon.maskTiles ? { maskTiles: true } : {}),
+      };
+      applyRoofProperties(attributes, polygon.roof);
+      applyCircleProperties(attributes, polygon.circle);
+      applyMaterialProperties(attributes, polygon.material);
+      if (polygon.wall) {
+        attributes.thickness = polygon.wall.thickness;
+        attributes.wallLine = toProjected(polygon.wall.line);
+      }
+
+      cityObjects[polygon.id] = {
+        type: polygon.wall ? 'OtherConstruction' : 'Building',
+        attributes,
+        geometry: [{
+          type: 'Solid',
+          lod: '1',
+          boundaries: [surfaces],
+          semantics: {
+            surfaces: [{ type: 'GroundSurface' }, { type: 'RoofSurface' }, { type: 'WallSurface' }],
+            values: [semanticValues],
+          },
+        }],
+      };
+    });
+
+    // Quantized vertices relative to the lower corner of the extent
+    const min = [0, 1, 2].map(axis => vertices.reduce((m, v) => Math.min(m, v[axis]), vertices.length ? Infinity : 0));
+    const max = [0, 1, 2].map(axis => vertices.reduce((m, v) => Math.max(m, v[axis]), vertices.length ? -Infinity : 0));
+    const crsUri = (code: string) => {
+      const epsgMatch = code.match(/^EPSG:(\d+)$/);
+      return epsgMatch ? `https://www.opengis.net/def/crs/EPSG/0/${epsgMatch[1]}` : code;
+    };
+    const referenceSystem = options.verticalCrs
+      ? `https://www.opengis.net/def/crs-compound?1=${crsUri(targetCrs)}&2=${crsUri(options.verticalCrs)}`
+      : crsUri(targetCrs);
+
+    return {
+      type: 'CityJSON',
+      version: '2.0',
+      transform: {
+        scale: [scale, scale, scale],
+        translate: min.map(value => value * scale),
+      },
+      metadata: {
+        referenceSystem,
+        geographicalExtent: [...min, ...max].map(value => value * scale),
+      },
+      CityObjects: cityObjects,
+      vertices: vertices.map(v => v.map((value, axis) => value - min[axis])),
+    };
+  };
+
   return tool;
 }
\ No newline at end of file
@@ -0,0 +1,770 @@
+/**
+ * Parsers for loading footprint files into the draw tool.
+ *
+ * The parsers return a GeoJSON FeatureCollection in EPSG:4326 with `baseHeight`
+ * and `extrudeHeight` properties, ready for polygonDrawTool's importGeoJSON.
+ */
+
+import { normalizeCrsCode, isProjectionRegistered, toWgs84 } from './projections';
+import { readZip } from './zipArchive';
+
+export interface PolygonFileImportOptions {
+  /** CRS for GeoJSON without a `crs` member whose coordinates are not lon/lat (e.g. the map projection) */
+  fallbackCrs?: string;
+  /** CRS of DXF coordinates (DXF files carry no CRS of their own) */
+  dxfCrs?: string;
+  /** Meters that were added to DXF Z values on export (see drawTool `dxfHeightOffsets`) */
+  dxfHeightOffset?: number;
+  /** Meters that were added on export to the Z values of a CityJSON file in the given CRS */
+  heightOffsetFor?: (crs: string) => number;
+  /** Extrude height for footprints without any height information */
+  defaultHeight?: number;
+}
+
+type XY = [number, number];
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+const ringArea = (ring: XY[]): number => {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area) / 2;
+};
+
+const pointInRing = ([x, y]: XY, ring: XY[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Sorts rings into polygons: a ring inside an odd number of other rings is a hole of the
+// smallest ring containing it
+const groupRingsIntoPolygons = <T extends { ring: XY[] }>(rings: T[]): { outer: T; holes: T[] }[] => {
+  const sorted = rings.slice().sort((a, b) => ringArea(b.ring) - ringArea(a.ring));
+  const polygons: { outer: T; holes: T[] }[] = [];
+
+  sorted.forEach((candidate, index) => {
+    const containers = sorted.slice(0, index).filter(other => pointInRing(candidate.ring[0], other.ring));
+    if (containers.length % 2 === 0) {
+      polygons.push({ outer: candidate, holes: [] });
+      return;
+    }
+    const parent = polygons.find(p => p.outer === containers[containers.length - 1]);
+    if (parent) parent.holes.push(candidate);
+  });
+
+  return polygons;
+};
+
+const closeRing = (ring: XY[]): XY[] => ring.concat([ring[0]]);
+
+// Features exported from one polygon group (marked with a `groupId` member) are joined again
+// as one multi-part feature with per-part properties
+const joinGroupedFeatures = (features: any[]): any[] => {
+  const groups: Record<string, { coordinates: any[]; parts: any[] }> = {};
+  const result: any[] = [];
+  features.forEach(({ groupId, ...feature }) => {
+    if (!groupId || feature.geometry.type !== 'Polygon') {
+      result.push(feature);
+      return;
+    }
+    let group = groups[groupId];
+    if (!group) {
+      group = groups[groupId] = { coordinates: [], parts: [] };
+      result.push({
+        type: 'Feature',
+        geometry: { type: 'MultiPolygon', coordinates: group.coordinates },
+        properties: { parts: group.parts },
+      });
+    }
+    group.coordinates.push(feature.geometry.coordinates);
+    group.parts.push(feature.properties);
+  });
+  return result;
+};
+
+// ============================================================================
+// GeoJSON
+// ============================================================================
+
+const forEachPosition = (geometry: any, callback: (position: number[]) => void) => {
+  if (!geometry) return;
+  if (geometry.type === 'GeometryCollection') {
+    (geometry.geometries || []).forEach((g: any) => forEachPosition(g, callback));
+    return;
+  }
+  const walk = (coords: any) => {
+    if (!Array.isArray(coords)) return;
+    if (typeof coords[0] === 'number') {
+      callback(coords);
+      return;
+    }
+    coords.forEach(walk);
+  };
+  walk(geometry.coordinates);
+};
+
+const mapPositions = (geometry: any, transform: (position: number[]) => number[]): any => {
+  if (!geometry) return geometry;
+  if (geometry.type === 'GeometryCollection') {
+    return { ...geometry, geometries: (geometry.geometries || []).map((g: any) => mapPositions(g, transform)) };
+  }
+  const walk = (coords: any): any => {
+    if (!Array.isArray(coords)) return coords;
+    if (typeof coords[0] === 'number') return transform(coords);
+    return coords.map(walk);
+  };
+  return { ...geometry, coordinates: walk(geometry.coordinates) };
+};
+
+/**
+ * Parses GeoJSON text in any registered CRS.
+ * Base height is taken from `baseHeight` or the lowest Z value, extrude height from
+ * `extrudeHeight` or `height`. LineStrings (walls) keep the Z of each point in `baseHeights`.
+ */
+export function parseGeoJSONText(text: string | object, options: PolygonFileImportOptions = {}): any {
+  const geojson = typeof text === 'string' ? JSON.parse(text) : text as any;
+  const defaultHeight = options.defaultHeight ?? 10;
+
+  // Determine source CRS: the (pre-RFC 7946) `crs` member, else lon/lat unless the
+  // coordinates are obviously projected
+  let crs = 'EPSG:4326';
+  const crsName = geojson?.crs?.properties?.name;
+  if (typeof crsName === 'string') {
+    crs = normalizeCrsCode(crsName);
+  } else if (options.fallbackCrs) {
+    let projected = false;
+    const scan = (obj: any) => {
+      if (!obj || projected) return;
+      if (obj.type === 'FeatureCollection') (obj.features || []).forEach(scan);
+      else if (obj.type === 'Feature') scan(obj.geometry);
+      else forEachPosition(obj, ([x, y]) => {
+        if (Math.abs(x) > 180 || Math.abs(y) > 90) projected = true;
+      });
+    };
+    scan(geojson);
+    if (projected) crs = normalizeCrsCode(options.fallbackCrs);
+  }
+
+  if (!isProjectionRegistered(crs)) {
+    throw new Error(`Okänt koordinatsystem: ${crs}`);
+  }
+
+  const convertFeature = (feature: any): any => {
+    if (!feature || typeof feature !== 'object') return null;
+    if (feature.type === 'FeatureCollection') {
+      return { type: 'FeatureCollection', features: (feature.features || []).map(convertFeature).filter(Boolean) };
+    }
+    if (feature.type !== 'Feature') {
+      return convertFeature({ type: 'Feature', geometry: feature, properties: {} });
+    }
+
+    const properties = { ...(feature.properties || {}) };
+
+    // Heights from Z values when not given as properties
+    let minZ = Number.POSITIVE_INFINITY;
+    forEachPosition(feature.geometry, (position) => {
+      if (typeof position[2] === 'number' && position[2] < minZ) minZ = position[2];
+    });
+    if (properties.baseHeight === undefined && Number.isFinite(minZ)) {
+      properties.baseHeight = minZ;
+    }
+    // Lines become walls whose base follows the Z of each point
+    const line = feature.geometry?.type === 'LineString' ? feature.geometry.coordinates : null;
+    if (properties.baseHeights === undefined && Array.isArray(line) && line.every((p: any) => typeof p?.[2] === 'number')) {
+      properties.baseHeights = line.map((p: number[]) => p[2]);
+    }
+    if (properties.extrudeHeight === undefined) {
+      const height = Number(properties.height);
+      properties.extrudeHeight = Number.isFinite(height) && height > 0 ? height : defaultHeight;
+    }
+    // Recomputed on import
+    delete properties.area;
+
+    return {
+      type: 'Feature',
+      geometry: mapPositions(feature.geometry, ([x, y]) => toWgs84(crs, x, y)),
+      properties,
+    };
+  };
+
+  const converted = convertFeature(geojson);
+  return converted?.type === 'FeatureCollection'
+    ? converted
+    : { type: 'FeatureCollection', features: converted ? [converted] : [] };
+}
+
+// ============================================================================
+// DXF
+// ============================================================================
+
+interface DxfEntity {
+  type: string;
+  pairs: { code: number; value: string }[];
+}
+
+interface DxfFace {
+  layer: string;
+  vertices: [number, number, number][];
+}
+
+interface DxfRing {
+  layer: string;
+  ring: XY[];
+  baseZ: number;
+  thickness: number;
+}
+
+const readDxfEntities = (text: string): DxfEntity[] => {
+  const lines = text.split(/\r?\n/);
+  const entities: DxfEntity[] = [];
+  let inEntities = false;
+  let current: DxfEntity | null = null;
+
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    const value = lines[i + 1].trim();
+    if (Number.isNaN(code)) continue;
+
+    if (code === 0) {
+      if (current) entities.push(current);
+      current = null;
+      if (value === 'ENDSEC') inEntities = false;
+      else if (inEntities) current = { type: value, pairs: [] };
+      continue;
+    }
+    if (code === 2 && value === 'ENTITIES') {
+      inEntities = true;
+      continue;
+    }
+    current?.pairs.push({ code, value });
+  }
+  if (current) entities.push(current);
+  return entities;
+};
+
+const getNumber = (entity: DxfEntity, code: number, fallback = 0): number => {
+  const pair = entity.pairs.find(p => p.code === code);
+  const value = pair ? parseFloat(pair.value) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const getLayer = (entity: DxfEntity): string => entity.pairs.find(p => p.code === 8)?.value ?? '0';
+
+const xyKey = (x: number, y: number) => `${x.toFixed(3)},${y.toFixed(3)}`;
+
+// Removes a repeated closing vertex
+const openRing = (ring: XY[]): XY[] => {
+  if (ring.length > 1 && xyKey(...ring[0]) === xyKey(...ring[ring.length - 1])) {
+    return ring.slice(0, -1);
+  }
+  return ring;
+};
+
+// Outline rings of a set of horizontal faces: edges used by exactly one face, chained together
+const chainBoundaryRings = (faces: DxfFace[]): XY[][] => {
+  const edgeCounts: Record<string, number> = {};
+  const points: Record<string, XY> = {};
+  const edges: [string, string][] = [];
+
+  faces.forEach(face => {
+    const keys: string[] = [];
+    face.vertices.forEach(([x, y]) => {
+      const key = xyKey(x, y);
+      points[key] = [x, y];
+      if (keys[keys.length - 1] !== key) keys.push(key);
+    });
+    if (keys.length > 1 && keys[0] === keys[keys.length - 1]) keys.pop();
+    if (keys.length < 3) return;
+
+    keys.forEach((key, i) => {
+      const next = keys[(i + 1) % keys.length];
+      const edgeKey = key < next ? `${key}|${next}` : `${next}|${key}`;
+      edgeCounts[edgeKey] = (edgeCounts[edgeKey] || 0) + 1;
+      edges.push([key, next]);
+    });
+  });
+
+  const neighbours: Record<string, string[]> = {};
+  edges.forEach(([a, b]) => {
+    const edgeKey = a < b ? `${a}|${b}` : `${b}|${a}`;
+    if (edgeCounts[edgeKey] !== 1) return;
+    (neighbours[a] = neighbours[a] || []).push(b);
+    (neighbours[b] = neighbours[b] || []).push(a);
+  });
+
+  const used: Record<string, boolean> = {};
+  const rings: XY[][] = [];
+  Object.keys(neighbours).forEach(start => {
+    if (used[start]) return;
+    const ring: string[] = [start];
+    used[start] = true;
+    let current = start;
+    for (;;) {
+      const next = neighbours[current].find(n => !used[n]);
+      if (!next) break;
+      ring.push(next);
+      used[next] = true;
+      current = next;
+    }
+    if (ring.length >= 3) rings.push(ring.map(key => points[key]));
+  });
+  return rings;
+};
+
+const facesToRings = (faces: DxfFace[]): DxfRing[] => {
+  const byLayer: Record<string, DxfFace[]> = {};
+  faces.forEach(face => {
+    (byLayer[face.layer] = byLayer[face.layer] || []).push(face);
+  });
+
+  const result: DxfRing[] = [];
+  Object.keys(byLayer).forEach(layer => {
+    const layerFaces = byLayer[layer];
+
+    // Horizontal faces grouped by height level (bottom and top caps)
+    const levels: Record<string, DxfFace[]> = {};
+    layerFaces.forEach(face => {
+      const zs = face.vertices.map(v => v[2]);
+      if (Math.max(...zs) - Math.min(...zs) > 0.01) return;
+      const level = zs[0].toFixed(2);
+      (levels[level] = levels[level] || []).push(face);
+    });
+
+    // A footprint appears as a cap at several levels - keep the lowest one
+    const seen: Record<string, boolean> = {};
+    Object.keys(levels)
+      .sort((a, b) => parseFloat(a) - parseFloat(b))
+      .forEach(level => {
+        chainBoundaryRings(levels[level]).forEach(ring => {
+          const signature = ring.map(([x, y]) => xyKey(x, y)).sort().join(';');
+          if (seen[signature]) return;
+          seen[signature] = true;
+
+          // Top of the volume: the highest vertex standing on the ring's corners
+          const ringKeys: Record<string, boolean> = {};
+          ring.forEach(([x, y]) => { ringKeys[xyKey(x, y)] = true; });
+          let topZ = parseFloat(level);
+          layerFaces.forEach(face => face.vertices.forEach(([x, y, z]) => {
+            if (ringKeys[xyKey(x, y)] && z > topZ) topZ = z;
+          }));
+
+          result.push({ layer, ring, baseZ: parseFloat(level), thickness: topZ - parseFloat(level) });
+        });
+      });
+  });
+  return result;
+};
+
+/**
+ * Parses DXF text: closed LWPOLYLINE/POLYLINE footprints (thickness = extrude height)
+ * and 3DFACE/polyface mesh volumes (footprint from the lowest cap, height from the top).
+ * Rings inside other rings on the same layer become holes.
+ */
+export function parseDXFText(text: string, options: PolygonFileImportOptions = {}): any {
+  const crs = normalizeCrsCode(options.dxfCrs || 'EPSG:3006');
+  const defaultHeight = options.defaultHeight ?? 10;
+  const heightOffset = options.dxfHeightOffset ?? 0;
+  if (!isProjectionRegistered(crs)) {
+    throw new Error(`Okänt koordinatsystem: ${crs}`);
+  }
+
+  const entities = readDxfEntities(text);
+  const rings: DxfRing[] = [];
+  const faces: DxfFace[] = [];
+
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i];
+    const layer = getLayer(entity);
+
+    if (entity.type === 'LWPOLYLINE') {
+      const flags = getNumber(entity, 70);
+      const ring: XY[] = [];
+      entity.pairs.forEach(p => {
+        if (p.code === 10) ring.push([parseFloat(p.value), 0]);
+        if (p.code === 20 && ring.length) ring[ring.length - 1][1] = parseFloat(p.value);
+      });
+      const isClosed = (flags & 1) === 1 || (ring.length > 2 && xyKey(...ring[0]) === xyKey(...ring[ring.length - 1]));
+      const open = openRing(ring);
+      if (isClosed && open.length >= 3) {
+        rings.push({ layer, ring: open, baseZ: getNumber(entity, 38), thickness: getNumber(entity, 39) });
+      }
+    } else if (entity.type === 'POLYLINE') {
+      const flags = getNumber(entity, 70);
+      const vertices: { xyz: [number, number, number]; flags: number; indices: number[] }[] = [];
+      while (i + 1 < entities.length && entities[i + 1].type === 'VERTEX') {
+        const vertex = entities[++i];
+        vertices.push({
+          xyz: [getNumber(vertex, 10), getNumber(vertex, 20), getNumber(vertex, 30)],
+          flags: getNumber(vertex, 70),
+          indices: [71, 72, 73, 74].map(code => Math.abs(getNumber(vertex, code))).filter(n => n > 0),
+        });
+      }
+      if (i + 1 < entities.length && entities[i + 1].type === 'SEQEND') i++;
+
+      if (flags & 64) {
+        // Polyface mesh: vertex records first, then face records referencing them (1-based)
+        const meshVertices = vertices.filter(v => (v.flags & 128) && (v.flags & 64)).map(v => v.xyz);
+        vertices
+          .filter(v => (v.flags & 128) && !(v.flags & 64))
+          .forEach(face => {
+            const faceVertices = face.indices.map(n => meshVertices[n - 1]).filter(Boolean);
+            if (faceVertices.length >= 3) faces.push({ layer, vertices: faceVertices });
+          });
+      } else {
+        const ring = openRing(vertices.map(v => [v.xyz[0], v.xyz[1]] as XY));
+        const isClosed = (flags & 1) === 1 || ring.length < vertices.length;
+        if (isClosed && ring.length >= 3) {
+          const baseZ = Math.min(getNumber(entity, 30), ...vertices.map(v => v.xyz[2]));
+          rings.push({ layer, ring, baseZ, thickness: getNumber(entity, 39) });
+        }
+      }
+    } else if (entity.type === '3DFACE') {
+      const vertices = [0, 1, 2, 3].map(k => [
+        getNumber(entity, 10 + k),
+        getNumber(entity, 20 + k),
+        getNumber(entity, 30 + k),
+      ] as [number, number, number]);
+      faces.push({ layer, vertices });
+    }
+  }
+
+  rings.push(...facesToRings(faces));
+
+  // Holes are matched within each layer
+  const byLayer: Record<string, DxfRing[]> = {};
+  rings.forEach(r => {
+    (byLayer[r.layer] = byLayer[r.layer] || []).push(r);
+  });
+
+  const features: any[] = [];
+  Object.keys(byLayer).forEach(layer => {
+    groupRingsIntoPolygons(byLayer[layer]).forEach(({ outer, holes }) => {
+      const toLonLat = (ring: XY[]) => closeRing(ring.map(([x, y]) => toWgs84(crs, x, y)));
+      features.push({
+        type: 'Feature',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [toLonLat(outer.ring), ...holes.map(h => toLonLat(h.ring))],
+        },
+        properties: {
+          ...(layer !== '0' ? { name: layer } : {}),
+          baseHeight: outer.baseZ - heightOffset,
+          extrudeHeight: Math.abs(outer.thickness) > 0.001 ? Math.abs(outer.thickness) : defaultHeight,
+        },
+      });
+    });
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+// ============================================================================
+// CityJSON
+// ============================================================================
+
+// Flattens the per-surface entries of Solid / MultiSolid / CompositeSolid / MultiSurface / CompositeSurface
+// boundaries or semantic values to one list, in the same order for both
+const flattenSurfaces = (type: string, nested: any): any[] => {
+  if (!Array.isArray(nested)) return [];
+  switch (type) {
+    case 'MultiSurface':
+    case 'CompositeSurface':
+      return nested;
+    case 'Solid':
+      return nested.reduce((acc: any[], shell: any[]) => acc.concat(shell), []);
+    case 'MultiSolid':
+    case 'CompositeSolid':
+      return nested.reduce((acc: any[], solid: any[][]) =>
+        solid.reduce((inner, shell) => inner.concat(shell), acc), []);
+    default:
+      return [];
+  }
+};
+
+// Surfaces of a geometry, each [outerRing, ...innerRings] of vertex indices
+const collectSurfaces = (geometry: any): number[][][] => flattenSurfaces(geometry?.type, geometry?.boundaries);
+
+// Newell normal of a ring; surfaces facing outwards are counter-clockwise seen from outside
+const ringNormal = (ring: [number, number, number][]): [number, number, number] => {
+  const normal: [number, number, number] = [0, 0, 0];
+  ring.forEach((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    normal[0] += (a[1] - b[1]) * (a[2] + b[2]);
+    normal[1] += (a[2] - b[2]) * (a[0] + b[0]);
+    normal[2] += (a[0] - b[0]) * (a[1] + b[1]);
+  });
+  return normal;
+};
+
+// Attributes of the CityJSON export that the Solid cannot show (roof, circle, materials and the
+// like), passed on as the GeoJSON properties of the same name
+const CITYJSON_SHAPE_ATTRIBUTES = [
+  'thickness', 'roofType', 'roofHeight', 'roofDirection', 'radius', 'segments',
+  'facadeMaterial', 'roofMaterial', 'windowPattern', 'storeyHeight', 'baseMode', 'maskTiles',
+];
+
+/**
+ * Parses CityJSON text: each city object's footprint is taken from its GroundSurface surfaces, or
+ * without semantics from the surfaces facing down, its height from the highest vertex. Attributes
+ * written by the CityJSON export (name, color, fillAlpha, baseHeight, extrudeHeight) take precedence,
+ * and an object with a `wallLine` attribute becomes a wall along that centre line again.
+ */
+export function parseCityJSONText(text: string | object, options: PolygonFileImportOptions = {}): any {
+  const cityJson = typeof text === 'string' ? JSON.parse(text) : text as any;
+  const defaultHeight = options.defaultHeight ?? 10;
+
+  const crs = normalizeCrsCode(cityJson?.metadata?.referenceSystem || options.fallbackCrs || 'EPSG:3006');
+  if (!isProjectionRegistered(crs)) {
+    throw new Error(`Okänt koordinatsystem: ${crs}`);
+  }
+  const heightOffset = options.heightOffsetFor?.(crs) ?? 0;
+
+  // Heights are taken back to the draw tool's height system
+  const scale = cityJson.transform?.scale || [1, 1, 1];
+  const translate = cityJson.transform?.translate || [0, 0, 0];
+  const vertices: [number, number, number][] = (cityJson.vertices || []).map((v: number[]) => [
+    v[0] * scale[0] + translate[0],
+    v[1] * scale[1] + translate[1],
+    v[2] * scale[2] + translate[2] - heightOffset,
+  ]);
+
+  const features: any[] = [];
+  Object.keys(cityJson.CityObjects || {}).forEach(id => {
+    const cityObject = cityJson.CityObjects[id];
+    // Prefer the highest LoD geometry that describes a volume
+    const geometry = (cityObject.geometry || [])
+      .filter((g: any) => collectSurfaces(g).length)
+      .sort((a: any, b: any) => parseFloat(b.lod) - parseFloat(a.lod))[0];
+    if (!geometry) return;
+
+    const surfaces = collectSurfaces(geometry);
+    let minZ = Number.POSITIVE_INFINITY;
+    let maxZ = Number.NEGATIVE_INFINITY;
+    surfaces.forEach(surface => surface.forEach(ring => ring.forEach(index => {
+      const z = vertices[index]?.[2];
+      if (z === undefined) return;
+      minZ = Math.min(minZ, z);
+      maxZ = Math.max(maxZ, z);
+    })));
+    if (!Number.isFinite(minZ)) return;
+
+    // Footprint: the GroundSurface surfaces, else those facing down. Neither has to be flat, so walls
+    // and bases following the terrain keep their footprint.
+    const semanticValues = flattenSurfaces(geometry.type, geometry.semantics?.values);
+    const semanticSurfaces = geometry.semantics?.surfaces || [];
+    const isGround = (index: number) => semanticValues.length === surfaces.length
+      && semanticSurfaces[semanticValues[index]]?.type === 'GroundSurface';
+    const facesDown = (surface: number[][]) => {
+      const ring = surface[0].map(index => vertices[index]).filter(Boolean);
+      const [nx, ny, nz] = ringNormal(ring);
+      return nz < 0 && -nz > Math.sqrt(nx * nx + ny * ny);
+    };
+    const candidates = surfaces.filter(surface => surface[0]?.length >= 3);
+    const grounds = candidates.filter(surface => isGround(surfaces.indexOf(surface)));
+    const footprints = grounds.length ? grounds : candidates.filter(facesDown);
+    if (!footprints.length) return;
+
+    const toLonLat = (ring: number[]) => closeRing(ring.map(index => toWgs84(crs, vertices[index][0], vertices[index][1])));
+    const polygons = footprints.map(surface => surface.map(toLonLat));
+
+    const attributes = cityObject.attributes || {};
+    const measuredHeight = Number(attributes.measuredHeight);
+    const extrudeHeight = Number.isFinite(Number(attributes.extrudeHeight)) ? Number(attributes.extrudeHeight)
+      : maxZ - minZ > 0.001 ? maxZ - minZ
+      : Number.isFinite(measuredHeight) && measuredHeight > 0 ? measuredHeight
+      : defaultHeight;
+
+    const properties: any = {
+      name: attributes.name ?? id,
+      baseHeight: Number.isFinite(Number(attributes.baseHeight)) ? Number(attributes.baseHeight) - heightOffset : minZ,
+      extrudeHeight,
+      ...(attributes.color ? { color: attributes.color } : {}),
+      ...(attributes.fillAlpha !== undefined ? { fillAlpha: attributes.fillAlpha } : {}),
+    };
+    CITYJSON_SHAPE_ATTRIBUTES.forEach(key => {
+      if (attributes[key] !== undefined && attributes[key] !== null) properties[key] = attributes[key];
+    });
+
+    // Walls: the centre line with the base height of each point
+    const wallLine: any[] = Array.isArray(attributes.wallLine) ? attributes.wallLine : [];
+    if (wallLine.length >= 2 && wallLine.every(p => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]))) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: wallLine.map(([x, y]) => toWgs84(crs, x, y)) },
+        properties: {
+          ...properties,
+          baseHeights: wallLine.map(p => (Number.isFinite(p[2]) ? p[2] - heightOffset : null)),
+        },
+      });
+      return;
+    }
+
+    features.push({
+      type: 'Feature',
+      groupId: attributes.groupId,
+      geometry: polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons },
+      properties,
+    });
+  });
+
+  return { type: 'FeatureCollection', features: joinGroupedFeatures(features) };
+}
+
+// ============================================================================
+// KML / KMZ
+// ============================================================================
+
+const elementsByName = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+const childText = (parent: Element, name: string): string | undefined => {
+  const child = Array.from(parent.children).find(c => c.localName === name);
+  return child?.textContent?.trim() || undefined;
+};
+
+// KML colours are aabbggrr
+const parseKmlColor = (value?: string): { color: string; alpha: number } | null => {
+  if (!value || !/^[0-9a-f]{8}$/i.test(value)) return null;
+  const byte = (i: number) => parseInt(value.substr(i, 2), 16);
+  return { color: `rgb(${byte(6)}, ${byte(4)}, ${byte(2)})`, alpha: byte(0) / 255 };
+};
+
+const parseKmlCoordinates = (text?: string): [number, number, number][] => (text || '')
+  .trim()
+  .split(/\s+/)
+  .map(tuple => tuple.split(',').map(Number))
+  .filter(values => values.length >= 2 && Number.isFinite(values[0]) && Number.isFinite(values[1]))
+  .map(([lon, lat, alt]) => [lon, lat, Number.isFinite(alt) ? alt : 0] as [number, number, number]);
+
+/**
+ * Parses KML: every Polygon in a Placemark becomes a footprint (several in one Placemark become a
+ * group). Heights and colour written by the KML export are read from ExtendedData; otherwise an
+ * extruded polygon's altitude is used as its height.
+ */
+export function parseKMLText(text: string, options: PolygonFileImportOptions = {}): any {
+  const defaultHeight = options.defaultHeight ?? 10;
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) {
+    throw new Error('Ogiltig KML-fil');
+  }
+
+  // Shared styles, resolved through StyleMaps to their normal style
+  const styles: Record<string, Element> = {};
+  elementsByName(doc, 'Style').forEach(style => {
+    const id = style.getAttribute('id');
+    if (id) styles[`#${id}`] = style;
+  });
+  elementsByName(doc, 'StyleMap').forEach(styleMap => {
+    const id = styleMap.getAttribute('id');
+    const normal = elementsByName(styleMap, 'Pair').find(pair => childText(pair, 'key') === 'normal');
+    const url = normal && childText(normal, 'styleUrl');
+    if (id && url && styles[url]) styles[`#${id}`] = styles[url];
+  });
+
+  const features: any[] = [];
+  elementsByName(doc, 'Placemark').forEach(placemark => {
+    const polygons = elementsByName(placemark, 'Polygon');
+    if (!polygons.length) return;
+
+    const data: Record<string, string> = {};
+    elementsByName(placemark, 'Data').forEach(d => {
+      const name = d.getAttribute('name');
+      const value = childText(d, 'value');
+      if (name && value !== undefined) data[name] = value;
+    });
+    elementsByName(placemark, 'SimpleData').forEach(d => {
+      const name = d.getAttribute('name');
+      if (name && d.textContent) data[name] = d.textContent.trim();
+    });
+
+    const styleUrl = childText(placemark, 'styleUrl');
+    const style = Array.from(placemark.children).find(c => c.localName === 'Style') || (styleUrl ? styles[styleUrl] : undefined);
+    const polyStyle = style ? elementsByName(style, 'PolyStyle')[0] : undefined;
+    const polyColor = parseKmlColor(polyStyle ? childText(polyStyle, 'color') : undefined);
+
+    let maxAltitude = 0;
+    let isExtruded = false;
+    let isAbsolute = false;
+    const coordinates = polygons.map(polygon => {
+      isExtruded = isExtruded || childText(polygon, 'extrude') === '1';
+      isAbsolute = isAbsolute || childText(polygon, 'altitudeMode') === 'absolute';
+      const ringOf = (boundary: Element) => {
+        const ring = elementsByName(boundary, 'coordinates')[0];
+        return parseKmlCoordinates(ring?.textContent || '');
+      };
+      const outer = elementsByName(polygon, 'outerBoundaryIs').map(ringOf)[0] || [];
+      const inner = elementsByName(polygon, 'innerBoundaryIs').map(ringOf);
+      outer.forEach(([, , alt]) => { maxAltitude = Math.max(maxAltitude, alt); });
+      return [outer, ...inner]
+        .filter(ring => ring.length >= 4)
+        .map(ring => ring.map(([lon, lat]) => [lon, lat]));
+    }).filter(rings => rings.length);
+    if (!coordinates.length) return;
+
+    const number = (value?: string) => (value !== undefined && Number.isFinite(Number(value)) ? Number(value) : undefined);
+    const properties: Record<string, any> = {
+      name: childText(placemark, 'name'),
+      baseHeight: number(data.baseHeight) ?? (!isExtruded && isAbsolute ? maxAltitude : undefined),
+      extrudeHeight: number(data.extrudeHeight) ?? (isExtruded && maxAltitude > 0 ? maxAltitude : defaultHeight),
+      color: data.color ?? polyColor?.color,
+      fillAlpha: number(data.fillAlpha) ?? polyColor?.alpha,
+    };
+    Object.keys(properties).forEach(key => {
+      if (properties[key] === undefined) delete properties[key];
+    });
+
+    features.push({
+      type: 'Feature',
+      groupId: data.groupId,
+      geometry: coordinates.length === 1
+        ? { type: 'Polygon', coordinates: coordinates[0] }
+        : { type: 'MultiPolygon', coordinates },
+      properties,
+    });
+  });
+
+  return { type: 'FeatureCollection', features: joinGroupedFeatures(features) };
+}
+
+/**
+ * Parses a KMZ archive (the first .kml file in it)
+ */
+export function parseKMZ(buffer: ArrayBuffer, options: PolygonFileImportOptions = {}): any {
+  const entries = readZip(buffer);
+  const kml = entries.find(entry => /^doc\.kml$/i.test(entry.name)) || entries.find(entry => /\.kml$/i.test(entry.name));
+  if (!kml) throw new Error('KMZ-filen innehåller ingen KML');
+  return parseKMLText(new TextDecoder().decode(kml.data), options);
+}
+
+/**
+ * Parses a GeoJSON/CityJSON (.geojson/.json), KML (.kml) or DXF (.dxf) file's text based on its
+ * name and content. KMZ files are binary, see parseKMZ.
+ */
+export function parsePolygonFile(fileName: string, text: string, options: PolygonFileImportOptions = {}): any {
+  if (/\.dxf$/i.test(fileName)) {
+    return parseDXFText(text, options);
+  }
+  if (/\.kml$/i.test(fileName)) {
+    return parseKMLText(text, options);
+  }
+  const json = JSON.parse(text);
+  if (json?.type === 'CityJSON') {
+    return parseCityJSONText(json, options);
+  }
+  return parseGeoJSONText(json, options);
+}
@@ -0,0 +1,167 @@
+/**
+ * Footprint and building metrics for drawn polygons: area on the WGS84 ellipsoid and in a projected
+ * coordinate system, edge lengths, volume (including a pitched roof), storeys and gross floor area.
+ */
+
+import { Cartesian3, Cartographic, EllipsoidGeodesic } from 'cesium';
+
+import { createLocalFrame } from './localFrame';
+import { fromWgs84 } from './projections';
+import { RoofOptions, computeRoofMetrics, pitchedRoof } from './roofGeometry';
+
+export interface PolygonMetrics {
+  /** Net footprint area (outer ring minus holes) on the ellipsoid, m² */
+  area: number;
+  /** Net footprint area in the projected system, m²; differs from `area` by the projection's scale factor */
+  gridArea?: number;
+  gridCrs?: string;
+  /** Outer ring, m */
+  perimeter: number;
+  /** Edge lengths of the outer ring in drawing order, m */
+  edges: number[];
+  /** Ridge above the top of the extrusion, 0 for flat roofs */
+  roofHeight: number;
+  /** Extrusion plus the space under the roof, m³ */
+  volume: number;
+  storeys: number;
+  grossFloorArea: number;
+}
+
+const shoelace = (xy: number[][]): number => {
+  let area = 0;
+  for (let i = 0; i < xy.length; i++) {
+    const [x1, y1] = xy[i];
+    const [x2, y2] = xy[(i + 1) % xy.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area) / 2;
+};
+
+/**
+ * Area (m²) of a ring on the WGS84 ellipsoid. The points are moved to the ellipsoid surface and measured
+ * in the east-north plane at their centre, which for building-sized footprints is exact to well below 1 ppm.
+ */
+export function computePolygonArea(positions: Cartesian3[]): number {
+  if (positions.length < 3) return 0;
+  return shoelace(createLocalFrame(positions).points.map(p => [p.x, p.y]));
+}
+
+/**
+ * Planar area (m²) of a ring in a projected coordinate system, e.g. SWEREF99 TM
+ */
+export function computeGridArea(positions: Cartesian3[], crs: string): number {
+  if (positions.length < 3) return 0;
+  return shoelace(positions.map(p => {
+    const c = Cartographic.fromCartesian(p);
+    return fromWgs84(crs, c.longitude * 180 / Math.PI, c.latitude * 180 / Math.PI);
+  }));
+}
+
+/**
+ * Geodesic length (m) of each edge of a closed ring on the ellipsoid
+ */
+export function computeEdgeLengths(positions: Cartesian3[]): number[] {
+  if (positions.length < 2) return [];
+  const cartos = positions.map(p => Cartographic.fromCartesian(p));
+  return cartos.map((start, i) => {
+    const end = cartos[(i + 1) % cartos.length];
+    if (start.longitude === end.longitude && start.latitude === end.latitude) return 0;
+    return new EllipsoidGeodesic(start, end).surfaceDistance;
+  });
+}
+
+/**
+ * Storeys are whole floors of `storeyHeight` that fit in the extrusion (not the roof), at least one for any volume
+ */
+export function computePolygonMetrics(
+  polygon: { positions: Cartesian3[]; holes?: Cartesian3[][]; extrudeHeight: number; roof?: RoofOptions },
+  options: { storeyHeight: number; crs?: string },
+): PolygonMetrics {
+  const holes = polygon.holes ?? [];
+  const net = (measure: (ring: Cartesian3[]) => number) =>
+    Math.max(0, holes.reduce((area, hole) => area - measure(hole), measure(polygon.positions)));
+
+  const area = net(computePolygonArea);
+  let gridArea: number | undefined;
+  if (options.crs) {
+    try {
+      gridArea = net(ring => computeGridArea(ring, options.crs as string));
+    } catch (e) {
+      console.warn(`[Globe] Could not compute area in ${options.crs}`, e);
+    }
+  }
+  const edges = computeEdgeLengths(polygon.positions);
+  const height = Math.max(0, polygon.extrudeHeight);
+  const roof = pitchedRoof(polygon);
+  const roofMetrics = roof ? computeRoofMetrics(polygon.positions, roof) : { peak: 0, volume: 0 };
+  const storeys = height > 0 && options.storeyHeight > 0
+    ? Math.max(1, Math.floor(height / options.storeyHeight + 1e-6))
+    : 0;
+
+  return {
+    area,
+    ...(gridArea !== undefined ? { gridArea, gridCrs: options.crs } : {}),
+    perimeter: edges.reduce((sum, length) => sum + length, 0),
+    edges,
+    roofHeight: roofMetrics.peak,
+    volume: area * height + roofMetrics.volume,
+    storeys,
+    grossFloorArea: area * storeys,
+  };
+}
+
+const csvNumber = (value: number | undefined, decimals: number) =>
+  value === undefined || !isFinite(value) ? '' : value.toFixed(decimals).replace('.', ',');
+
+const csvText = (value: string) => (/[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Schedule of all polygons with a total row, semicolon-separated with decimal commas for Swedish Excel
+ */
+export function buildMetricsCsv(
+  polygons: Array<{
+    name: string; groupId?: string; positions: Cartesian3[]; holes?: Cartesian3[][]; baseHeight: number; extrudeHeight: number; roof?: RoofOptions;
+  }>,
+  options: { storeyHeight: number; crs?: string },
+): string {
+  const header = [
+    'Namn', 'Grupp', 'Bashöjd (m)', 'Höjd (m)', 'Topphöjd (m)', 'Yta ellipsoid (m²)',
+    ...(options.crs ? [`Yta ${options.crs} (m²)`] : []),
+    'Omkrets (m)', 'Kantlängder (m)', 'Volym (m³)', 'Våningar', 'BTA (m²)',
+  ];
+  const totals = { area: 0, gridArea: 0, volume: 0, grossFloorArea: 0 };
+
+  const rows = polygons.map(polygon => {
+    const metrics = computePolygonMetrics(polygon, options);
+    totals.area += metrics.area;
+    totals.gridArea += metrics.gridArea ?? 0;
+    totals.volume += metrics.volume;
+    totals.grossFloorArea += metrics.grossFloorArea;
+    return [
+      csvText(polygon.name ?? ''),
+      csvText(polygon.groupId ?? ''),
+      csvNumber(polygon.baseHeight, 2),
+      csvNumber(polygon.extrudeHeight, 2),
+      csvNumber(polygon.baseHeight + polygon.extrudeHeight + metrics.roofHeight, 2),
+      csvNumber(metrics.area, 1),
+      ...(options.crs ? [csvNumber(metrics.gridArea, 1)] : []),
+      csvNumber(metrics.perimeter, 2),
+      metrics.edges.map(length => csvNumber(length, 2)).join(' / '),
+      csvNumber(metrics.volume, 1),
+      String(metrics.storeys),
+      csvNumber(metrics.grossFloorArea, 1),
+    ];
+  });
+
+  const totalRow = [
+    'Summa', '', '', '', '',
+    csvNumber(totals.area, 1),
+    ...(options.crs ? [csvNumber(totals.gridArea, 1)] : []),
+    '', '',
+    csvNumber(totals.volume, 1),
+    '',
+    csvNumber(totals.grossFloorArea, 1),
+  ];
+
+  return [header, ...rows, totalRow].map(row => row.join(';')).join('\r\n');
+}
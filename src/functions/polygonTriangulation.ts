@@ -0,0 +1,32 @@
+import * as Cesium from 'cesium';
+import { Cartesian2 } from 'cesium';
+
+// PolygonPipeline is part of Cesium's runtime API but not of its type definitions
+const PolygonPipeline = (Cesium as any).PolygonPipeline;
+
+export interface PlanarPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Triangulates a planar polygon with optional holes (ear clipping).
+ * Rings must not repeat their first point at the end.
+ * Returns triangles as index triples into the outer ring followed by all hole rings.
+ */
+export function triangulatePolygon(outer: PlanarPoint[], holes: PlanarPoint[][] = []): [number, number, number][] {
+  const points: Cartesian2[] = outer.map(p => new Cartesian2(p.x, p.y));
+  const holeIndices: number[] = [];
+
+  holes.forEach(hole => {
+    holeIndices.push(points.length);
+    hole.forEach(p => points.push(new Cartesian2(p.x, p.y)));
+  });
+
+  const indices: number[] = PolygonPipeline.triangulate(points, holeIndices.length ? holeIndices : undefined) || [];
+  const triangles: [number, number, number][] = [];
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    triangles.push([indices[i], indices[i + 1], indices[i + 2]]);
+  }
+  return triangles;
+}
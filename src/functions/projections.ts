@@ -0,0 +1,138 @@
+/**
+ * Projection registry for import/export of drawn polygons.
+ *
+ * The plugin bundles its own proj4 instance, so the projections Origo registers
+ * from `proj4Defs` in index.json have to be registered here as well.
+ * SWEREF99 TM and the SWEREF99 local zones are always available.
+ */
+
+import proj4 from 'proj4';
+
+export interface Proj4Def {
+  code: string;
+  projection: string;
+  alias?: string;
+}
+
+const SWEREF99_LOCAL_ZONES: Record<string, number> = {
+  'EPSG:3007': 12,
+  'EPSG:3008': 13.5,
+  'EPSG:3009': 15,
+  'EPSG:3010': 16.5,
+  'EPSG:3011': 18,
+  'EPSG:3012': 14.25,
+  'EPSG:3013': 15.75,
+  'EPSG:3014': 17.25,
+  'EPSG:3015': 18.75,
+  'EPSG:3016': 20.25,
+  'EPSG:3017': 21.75,
+  'EPSG:3018': 23.25,
+};
+
+const BUILT_IN_DEFS: Proj4Def[] = [
+  { code: 'EPSG:3006', projection: '+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs' },
+  ...Object.keys(SWEREF99_LOCAL_ZONES).map(code => ({
+    code,
+    projection: `+proj=tmerc +lat_0=0 +lon_0=${SWEREF99_LOCAL_ZONES[code]} +k=1 +x_0=150000 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs`,
+  })),
+];
+
+let builtInsRegistered = false;
+
+const ensureBuiltIns = () => {
+  if (builtInsRegistered) return;
+  builtInsRegistered = true;
+  BUILT_IN_DEFS.forEach(def => {
+    if (!proj4.defs(def.code)) proj4.defs(def.code, def.projection);
+  });
+};
+
+/**
+ * Registers projection definitions (Origo `proj4Defs` format) with the plugin's proj4 instance
+ */
+export function registerProj4Defs(defs?: Proj4Def[]): void {
+  ensureBuiltIns();
+  if (!Array.isArray(defs)) return;
+
+  defs.forEach(def => {
+    if (!def?.code || !def.projection) return;
+    try {
+      proj4.defs(def.code, def.projection);
+      if (def.alias) proj4.defs(def.alias, proj4.defs(def.code));
+    } catch (e) {
+      console.warn(`[Globe] Could not register projection ${def.code}:`, e);
+    }
+  });
+}
+
+/**
+ * Normalizes CRS names such as `urn:ogc:def:crs:EPSG::3006`, `https://www.opengis.net/def/crs/EPSG/0/3006`
+ * or `EPSG:3006` to `EPSG:3006`
+ */
+export function normalizeCrsCode(name: string): string {
+  const value = String(name ?? '').trim();
+  if (/CRS84$/i.test(value)) return 'EPSG:4326';
+  // A compound system (e.g. SWEREF 99 TM + RH2000) by its horizontal part
+  const compound = value.match(/crs-compound\?1=([^&]+)/i);
+  if (compound) return normalizeCrsCode(decodeURIComponent(compound[1]));
+  const match = value.match(/EPSG(?::[^:]*)?::?(\d+)$/i) || value.match(/\/EPSG\/\d+\/(\d+)$/i);
+  return match ? `EPSG:${match[1]}` : value;
+}
+
+export function isProjectionRegistered(code: string): boolean {
+  ensureBuiltIns();
+  try {
+    return !!proj4.defs(normalizeCrsCode(code));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True for lon/lat systems, whose degree units cannot be mixed with metric heights
+ */
+export function isGeographicProjection(code: string): boolean {
+  ensureBuiltIns();
+  try {
+    return proj4.defs(normalizeCrsCode(code))?.projName === 'longlat';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalizes the code and throws unless it is a registered projected (metric) system.
+ * Used by the 3D exports, where X/Y in degrees with Z in meters would distort the geometry.
+ */
+export function requireProjectedCrs(crs: string): string {
+  const code = normalizeCrsCode(crs);
+  if (!isProjectionRegistered(code)) {
+    throw new Error(`Koordinatsystemet ${code} är inte definierat`);
+  }
+  if (isGeographicProjection(code)) {
+    throw new Error(`Koordinatsystemet ${code} har grader som enhet och kan inte användas för 3D-export`);
+  }
+  return code;
+}
+
+/**
+ * Transforms a projected coordinate to WGS84 [lon, lat] (degrees)
+ */
+export function toWgs84(crs: string, x: number, y: number): [number, number] {
+  ensureBuiltIns();
+  const code = normalizeCrsCode(crs);
+  if (code === 'EPSG:4326') return [x, y];
+  const [lon, lat] = proj4(code, 'EPSG:4326', [x, y]);
+  return [lon, lat];
+}
+
+/**
+ * Transforms a WGS84 coordinate (degrees) to the given CRS
+ */
+export function fromWgs84(crs: string, lon: number, lat: number): [number, number] {
+  ensureBuiltIns();
+  const code = normalizeCrsCode(crs);
+  if (code === 'EPSG:4326') return [lon, lat];
+  const [x, y] = proj4('EPSG:4326', code, [lon, lat]);
+  return [x, y];
+}
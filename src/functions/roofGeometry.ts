@@ -0,0 +1,283 @@
+/**
+ * Pitched roofs on drawn volumes. A roof is a height field over the footprint that is the minimum of a
+ * few planes (two for a gable, four for a hip, eight for a mansard), laid out in the bounding box of the
+ * footprint aligned with the ridge. Each plane's part of the footprint is cut out and triangulated, and
+ * the footprint edges get vertical walls up to the roof (gables).
+ *
+ * Coordinates are local meters: x = east, y = north, z = up from the eaves. `computeRoofTriangles` places
+ * the roof of a drawn footprint on the globe.
+ */
+
+import { Cartesian3, Cartographic } from 'cesium';
+
+import { createLocalFrame } from './localFrame';
+import { triangulatePolygon, PlanarPoint } from './polygonTriangulation';
+
+export type RoofType = 'flat' | 'gable' | 'hip' | 'shed' | 'mansard';
+
+export const ROOF_TYPES: RoofType[] = ['flat', 'gable', 'hip', 'shed', 'mansard'];
+
+export interface RoofOptions {
+  type: RoofType;
+  /** Ridge height above the eaves (top of `extrudeHeight`), m */
+  height: number;
+  /** Ridge azimuth in degrees clockwise from north; along the longest footprint edge when not set */
+  direction?: number;
+}
+
+export type RoofVertex = [number, number, number];
+export type RoofTriangle = [RoofVertex, RoofVertex, RoofVertex];
+
+/** Plane z = a·x + b·y + c */
+interface Plane {
+  a: number;
+  b: number;
+  c: number;
+}
+
+// Mansard: the steep lower slope ends at this share of the half width, at this share of the height
+const MANSARD_BREAK_DEPTH = 0.3;
+const MANSARD_BREAK_HEIGHT = 0.8;
+const EPSILON = 1e-9;
+
+/**
+ * Roof of a GeoJSON feature's properties (`roofType`, `roofHeight`, `roofDirection`), undefined for flat roofs
+ */
+export function roofFromProperties(properties: any): RoofOptions | undefined {
+  const type = properties?.roofType;
+  const height = Number(properties?.roofHeight);
+  if (ROOF_TYPES.indexOf(type) <= 0 || !(height > 0)) return undefined;
+  const direction = Number(properties?.roofDirection);
+  return {
+    type,
+    height,
+    ...(properties?.roofDirection !== undefined && properties?.roofDirection !== null && isFinite(direction)
+      ? { direction: ((direction % 360) + 360) % 360 }
+      : {}),
+  };
+}
+
+/**
+ * Writes a roof to GeoJSON properties; flat roofs remove the roof properties
+ */
+export function applyRoofProperties(properties: any, roof: RoofOptions | undefined): void {
+  if (!properties) return;
+  delete properties.roofType;
+  delete properties.roofHeight;
+  delete properties.roofDirection;
+  if (!roof || roof.type === 'flat') return;
+  properties.roofType = roof.type;
+  properties.roofHeight = roof.height;
+  if (roof.direction !== undefined) properties.roofDirection = roof.direction;
+}
+
+/**
+ * The roof to build on a polygon. Footprints with holes (courtyards) and walls keep a flat top.
+ */
+export function pitchedRoof(polygon: { roof?: RoofOptions; holes?: unknown[]; wall?: unknown }): RoofOptions | undefined {
+  const roof = polygon.roof;
+  if (!roof || roof.type === 'flat' || !(roof.height > 0) || (polygon.holes?.length ?? 0) > 0 || polygon.wall) return undefined;
+  return roof;
+}
+
+const signedArea = (ring: PlanarPoint[]) =>
+  ring.reduce((sum, p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    return sum + p.x * q.y - q.x * p.y;
+  }, 0) / 2;
+
+/**
+ * Azimuth (degrees clockwise from north) of the longest edge
+ */
+export function longestEdgeAzimuth(ring: PlanarPoint[]): number {
+  let best = 0;
+  let azimuth = 0;
+  ring.forEach((p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    const length = Math.hypot(q.x - p.x, q.y - p.y);
+    if (length > best) {
+      best = length;
+      azimuth = Math.atan2(q.x - p.x, q.y - p.y) * 180 / Math.PI;
+    }
+  });
+  return ((azimuth % 180) + 180) % 180;
+}
+
+const planeAt = (plane: Plane, p: PlanarPoint) => plane.a * p.x + plane.b * p.y + plane.c;
+
+const samePlane = (p: Plane, q: Plane) =>
+  Math.abs(p.a - q.a) < EPSILON && Math.abs(p.b - q.b) < EPSILON && Math.abs(p.c - q.c) < 1e-6;
+
+/**
+ * Planes whose minimum is the roof. `along` and `across` are the ridge-aligned axes, and the footprint
+ * spans [u0, u1] along the ridge and [v0, v1] across it.
+ */
+const roofPlanes = (roof: RoofOptions, ring: PlanarPoint[]): Plane[] => {
+  const azimuth = (roof.direction ?? longestEdgeAzimuth(ring)) * Math.PI / 180;
+  const along = { x: Math.sin(azimuth), y: Math.cos(azimuth) };
+  const across = { x: Math.cos(azimuth), y: -Math.sin(azimuth) };
+  const us = ring.map(p => p.x * along.x + p.y * along.y);
+  const vs = ring.map(p => p.x * across.x + p.y * across.y);
+  const u0 = Math.min(...us);
+  const u1 = Math.max(...us);
+  const v0 = Math.min(...vs);
+  const v1 = Math.max(...vs);
+  const halfWidth = (v1 - v0) / 2;
+  if (halfWidth < EPSILON) return [];
+
+  // Plane rising with `slope` per meter of distance from the footprint side `axis·p = start`
+  // (direction +1) or `axis·p = end` (direction -1), offset by `base`
+  const rising = (axis: PlanarPoint, start: number, direction: 1 | -1, slope: number, base = 0): Plane => ({
+    a: direction * slope * axis.x,
+    b: direction * slope * axis.y,
+    c: base - direction * slope * start,
+  });
+  const sides: Array<[PlanarPoint, number, 1 | -1]> = [[across, v0, 1], [across, v1, -1]];
+  const ends: Array<[PlanarPoint, number, 1 | -1]> = [[along, u0, 1], [along, u1, -1]];
+  const slope = roof.height / halfWidth;
+
+  switch (roof.type) {
+    case 'shed':
+      return [rising(across, v0, 1, roof.height / (v1 - v0))];
+    case 'gable':
+      return sides.map(([axis, start, direction]) => rising(axis, start, direction, slope));
+    case 'hip':
+      return sides.concat(ends).map(([axis, start, direction]) => rising(axis, start, direction, slope));
+    case 'mansard': {
+      const lowerSlope = MANSARD_BREAK_HEIGHT * roof.height / (MANSARD_BREAK_DEPTH * halfWidth);
+      const upperSlope = (1 - MANSARD_BREAK_HEIGHT) * roof.height / ((1 - MANSARD_BREAK_DEPTH) * halfWidth);
+      const upperBase = MANSARD_BREAK_HEIGHT * roof.height - upperSlope * MANSARD_BREAK_DEPTH * halfWidth;
+      return sides.concat(ends).reduce((planes, [axis, start, direction]) => planes.concat([
+        rising(axis, start, direction, lowerSlope),
+        rising(axis, start, direction, upperSlope, upperBase),
+      ]), [] as Plane[]);
+    }
+    default:
+      return [];
+  }
+};
+
+/** Sutherland–Hodgman: the part of the ring where `keep(p) <= 0` */
+const clipRing = (ring: PlanarPoint[], keep: (p: PlanarPoint) => number): PlanarPoint[] => {
+  const result: PlanarPoint[] = [];
+  ring.forEach((p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    const dp = keep(p);
+    const dq = keep(q);
+    if (dp <= 0) result.push(p);
+    if ((dp < 0 && dq > 0) || (dp > 0 && dq < 0)) {
+      const t = dp / (dp - dq);
+      result.push({ x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) });
+    }
+  });
+  // Drop repeated points left by the clipping
+  return result.filter((p, i) => {
+    const q = result[(i + 1) % result.length];
+    return Math.abs(p.x - q.x) > 1e-7 || Math.abs(p.y - q.y) > 1e-7;
+  });
+};
+
+const triangleArea = (a: RoofVertex, b: RoofVertex, c: RoofVertex) =>
+  ((b[0] - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (b[1] - a[1])) / 2;
+
+/**
+ * Roof surfaces (facing up) and the walls between the eaves and the roof (facing out) of a footprint
+ * without holes. Flat roofs have none.
+ */
+export function buildRoofTriangles(ring: PlanarPoint[], roof: RoofOptions): RoofTriangle[] {
+  if (ring.length < 3 || roof.type === 'flat' || !(roof.height > 0)) return [];
+
+  const planes = roofPlanes(roof, ring).filter((plane, i, all) => all.findIndex(other => samePlane(plane, other)) === i);
+  if (!planes.length) return [];
+  const heightAt = (p: PlanarPoint) => Math.max(0, Math.min(...planes.map(plane => planeAt(plane, p))));
+  const triangles: RoofTriangle[] = [];
+
+  // Roof surfaces: each plane where it is the lowest
+  planes.forEach((plane, k) => {
+    let region = ring;
+    planes.forEach((other, j) => {
+      if (j === k || region.length < 3) return;
+      region = clipRing(region, p => planeAt(plane, p) - planeAt(other, p));
+    });
+    if (region.length < 3) return;
+
+    triangulatePolygon(region).forEach(([i0, i1, i2]) => {
+      const vertices = [region[i0], region[i1], region[i2]].map(p => [p.x, p.y, Math.max(0, planeAt(plane, p))] as RoofVertex);
+      const area = triangleArea(vertices[0], vertices[1], vertices[2]);
+      if (Math.abs(area) < 1e-6) return;
+      triangles.push(area > 0 ? [vertices[0], vertices[1], vertices[2]] : [vertices[0], vertices[2], vertices[1]]);
+    });
+  });
+
+  // Walls: each footprint edge rises to the roof, which bends where the lowest plane changes
+  const counterClockwise = signedArea(ring) > 0;
+  ring.forEach((p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    const breaks = [0, 1];
+    planes.forEach((first, a) => planes.forEach((second, b) => {
+      if (b <= a) return;
+      const fp = planeAt(first, p) - planeAt(second, p);
+      const fq = planeAt(first, q) - planeAt(second, q);
+      if ((fp < 0 && fq > 0) || (fp > 0 && fq < 0)) breaks.push(fp / (fp - fq));
+    }));
+    breaks.sort((x, y) => x - y);
+
+    const points = breaks.map(t => {
+      const point = { x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) };
+      return { ...point, z: heightAt(point) };
+    });
+    for (let k = 0; k + 1 < points.length; k++) {
+      const a = points[k];
+      const b = points[k + 1];
+      if (Math.hypot(b.x - a.x, b.y - a.y) < 1e-7) continue;
+      const a0: RoofVertex = [a.x, a.y, 0];
+      const b0: RoofVertex = [b.x, b.y, 0];
+      const aTop: RoofVertex = [a.x, a.y, a.z];
+      const bTop: RoofVertex = [b.x, b.y, b.z];
+      const wall: RoofTriangle[] = [];
+      if (b.z > 1e-6) wall.push([a0, b0, bTop]);
+      if (a.z > 1e-6) wall.push([a0, bTop, aTop]);
+      // Seen from outside, counter-clockwise footprints run left to right along their edges
+      wall.forEach(([v0, v1, v2]) => triangles.push(counterClockwise ? [v0, v1, v2] : [v0, v2, v1]));
+    }
+  });
+
+  return triangles;
+}
+
+/**
+ * Highest point of the roof above the eaves; lower than `height` when a hip or mansard footprint is
+ * shorter than it is wide
+ */
+export function roofPeakHeight(triangles: RoofTriangle[]): number {
+  return triangles.reduce((max, triangle) => Math.max(max, ...triangle.map(v => v[2])), 0);
+}
+
+/**
+ * Volume (m³) between the eaves and the roof: the upward surfaces' footprint times their mean height
+ */
+export function roofVolume(triangles: RoofTriangle[]): number {
+  return triangles.reduce((sum, [a, b, c]) => {
+    const area = triangleArea(a, b, c);
+    return area > 0 ? sum + area * (a[2] + b[2] + c[2]) / 3 : sum;
+  }, 0);
+}
+
+/**
+ * Roof triangles of a drawn footprint (outer ring) with ellipsoid heights, eaves at `eaveHeight`
+ */
+export function computeRoofTriangles(positions: Cartesian3[], eaveHeight: number, roof: RoofOptions): Cartographic[][] {
+  if (positions.length < 3 || roof.type === 'flat') return [];
+  const frame = createLocalFrame(positions);
+  return buildRoofTriangles(frame.points, roof)
+    .map(triangle => triangle.map(([x, y, z]) => frame.toCartographic(x, y, eaveHeight + z)));
+}
+
+/**
+ * Ridge height (m above the eaves) and volume under the roof (m³) of a drawn footprint
+ */
+export function computeRoofMetrics(positions: Cartesian3[], roof: RoofOptions): { peak: number; volume: number } {
+  if (positions.length < 3 || roof.type === 'flat') return { peak: 0, volume: 0 };
+  const triangles = buildRoofTriangles(createLocalFrame(positions).points, roof);
+  return { peak: roofPeakHeight(triangles), volume: roofVolume(triangles) };
+}
@@ -0,0 +1,73 @@
+/**
+ * Typed dimensions while drawing ("12 m along the street, then 90°, 8 m"). The next point is placed a given
+ * length from the last one, in a given direction; whichever of the two is left out is taken from the cursor.
+ * Bearings are degrees clockwise from north, like the roof ridge direction; turns are degrees clockwise
+ * from the direction of the previous edge.
+ */
+
+import { Cartesian3, Cartographic, Math as CesiumMath, Matrix4, Transforms } from 'cesium';
+
+export interface SegmentInput {
+  /** m */
+  length?: number;
+  /** Degrees; a bearing from north, or a turn from the previous edge when `relative` is set */
+  angle?: number;
+  relative?: boolean;
+}
+
+function toLocal(origin: Cartesian3, point: Cartesian3): Cartesian3 {
+  const toEnu = Matrix4.inverseTransformation(Transforms.eastNorthUpToFixedFrame(origin), new Matrix4());
+  return Matrix4.multiplyByPoint(toEnu, point, new Cartesian3());
+}
+
+/**
+ * Bearing (degrees clockwise from north, 0–360) from one point to another
+ */
+export function bearingBetween(from: Cartesian3, to: Cartesian3): number {
+  const local = toLocal(from, to);
+  return (CesiumMath.toDegrees(Math.atan2(local.x, local.y)) + 360) % 360;
+}
+
+/**
+ * The point `length` m from `from` along a bearing, at the ellipsoid height of `from`
+ */
+export function pointAtBearing(from: Cartesian3, bearing: number, length: number): Cartesian3 {
+  const angle = CesiumMath.toRadians(bearing);
+  const local = new Cartesian3(length * Math.sin(angle), length * Math.cos(angle), 0);
+  const c = Cartographic.fromCartesian(Matrix4.multiplyByPoint(Transforms.eastNorthUpToFixedFrame(from), local, new Cartesian3()));
+  return Cartesian3.fromRadians(c.longitude, c.latitude, Cartographic.fromCartesian(from).height);
+}
+
+/**
+ * Next point after `points` from a typed length and/or angle, with the cursor standing in for what is not
+ * given. Undefined when neither is given, a turn has no previous edge, or the cursor is needed but missing.
+ */
+export function resolveSegment(points: Cartesian3[], cursor: Cartesian3 | null, input: SegmentInput): Cartesian3 | undefined {
+  const last = points[points.length - 1];
+  if (!last) return undefined;
+  const hasLength = input.length !== undefined && input.length > 0;
+  const hasAngle = input.angle !== undefined && isFinite(input.angle);
+  if (!hasLength && !hasAngle) return undefined;
+
+  let bearing: number | undefined;
+  if (hasAngle && input.relative) {
+    if (points.length < 2) return undefined;
+    bearing = bearingBetween(points[points.length - 2], last) + input.angle!;
+  } else if (hasAngle) {
+    bearing = input.angle!;
+  } else if (cursor) {
+    bearing = bearingBetween(last, cursor);
+  }
+  if (bearing === undefined) return undefined;
+
+  let length = hasLength ? input.length : undefined;
+  if (length === undefined && cursor) {
+    // How far the cursor is along the typed direction
+    const local = toLocal(last, cursor);
+    const angle = CesiumMath.toRadians(bearing);
+    length = local.x * Math.sin(angle) + local.y * Math.cos(angle);
+  }
+  if (length === undefined || !(length > 0)) return undefined;
+
+  return pointAtBearing(last, bearing, length);
+}
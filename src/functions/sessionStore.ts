@@ -0,0 +1,73 @@
+/**
+ * IndexedDB storage of draw tool sessions, one record per map configuration.
+ */
+
+import type { GeoJsonFeatureCollection } from '../globe/types';
+import type { SharedMeasurement } from '../globe/shareCodec';
+import type { StoredScenario } from '../globe/scenarioManager';
+
+export interface StoredSession {
+  key: string;
+  /** ISO date */
+  savedAt: string;
+  /** Polygons of the active scenario */
+  polygons?: GeoJsonFeatureCollection;
+  measurements?: SharedMeasurement[];
+  scenarios?: StoredScenario[];
+  activeScenario?: number;
+}
+
+const DB_NAME = 'origo-globe-plugin';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry later, e.g. after a blocked upgrade
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  }));
+
+export function loadSession(key: string): Promise<StoredSession | null> {
+  return run<StoredSession | undefined>('readonly', store => store.get(key)).then(session => session ?? null);
+}
+
+export function saveSession(session: StoredSession): Promise<void> {
+  return run('readwrite', store => store.put(session)).then(() => undefined);
+}
+
+export function deleteSession(key: string): Promise<void> {
+  return run('readwrite', store => store.delete(key)).then(() => undefined);
+}
+
+/**
+ * Removes the stored sessions of all map configurations
+ */
+export function clearSessions(): Promise<void> {
+  return run('readwrite', store => store.clear()).then(() => undefined);
+}
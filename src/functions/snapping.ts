@@ -0,0 +1,346 @@
+/**
+ * Snapping for the draw and measure tools. A picked position is moved, in order of preference, to
+ * - a corner of a drawn polygon or of the shape being drawn
+ * - the nearest point on an edge of a drawn polygon or of the shape being drawn
+ * - the edge of a 3D tile surface (e.g. the eaves of a building), found where the surface drops away; off
+ *   by default, since every search costs a few extra depth picks
+ * - a direction orthogonal or parallel to the previous edge of the shape being drawn
+ * - a 3D tile surface instead of the terrain under it
+ *
+ * Distances are measured on screen, so the tolerance (pixels) means the same at any zoom level. A point
+ * and a short text at the snapped position show what was snapped to. A cursor that has not moved more than
+ * a pixel or two, with the same camera and shapes, gets the previous result without picking again.
+ */
+
+import {
+  Cartesian2, Cartesian3, Cartographic, Cesium3DTileFeature, Cesium3DTileset, Color, HorizontalOrigin, LabelCollection,
+  LabelStyle, Matrix4, PointPrimitiveCollection, Scene, SceneTransforms, Transforms, VerticalOrigin
+} from 'cesium';
+
+export type SnapKind = 'vertex' | 'edge' | 'tileEdge' | 'orthogonal' | 'parallel' | 'surface';
+
+export interface SnapResult {
+  position: Cartesian3;
+  kind: SnapKind;
+}
+
+export interface SnapContext {
+  /** Points of the shape being drawn, in drawing order; its last edge gives the orthogonal/parallel directions */
+  line?: Cartesian3[];
+  /** Closed rings (drawn polygons) whose corners and edges are snapped to */
+  rings?: Cartesian3[][];
+}
+
+export const DEFAULT_SNAP_TOLERANCE = 10;
+
+const SNAP_LABELS: Record<SnapKind, string> = {
+  vertex: 'Hörn',
+  edge: 'Kant',
+  tileEdge: 'Byggnadskant',
+  orthogonal: 'Vinkelrät',
+  parallel: 'Parallell',
+  surface: 'Yta',
+};
+
+const SNAP_COLORS: Record<SnapKind, Color> = {
+  vertex: Color.MAGENTA,
+  edge: Color.CYAN,
+  tileEdge: Color.ORANGE,
+  orthogonal: Color.LIME,
+  parallel: Color.LIME,
+  surface: Color.YELLOW,
+};
+
+// A 3D tile surface ends where the next sample is this much (m) lower, or missing
+const TILE_EDGE_DROP = 0.5;
+// One probe per direction at the tolerance, then a few bisections towards the first edge found
+const TILE_EDGE_DIRECTIONS = 8;
+const TILE_EDGE_STEPS = 1;
+const TILE_EDGE_REFINEMENTS = 3;
+
+// Pixels the cursor must move before snapping is searched again
+const SNAP_MIN_MOVE = 1.5;
+
+interface SnapCache {
+  windowPosition: Cartesian2;
+  key: string;
+  cameraPosition: Cartesian3;
+  cameraDirection: Cartesian3;
+  result: SnapResult | undefined;
+}
+
+// What the snap targets look like; when it changes the previous result no longer holds
+function contextKey(context: SnapContext): string {
+  const line = context.line ?? [];
+  const last = line[line.length - 1];
+  const rings = context.rings ?? [];
+  const points = rings.reduce((sum, ring) => sum + ring.length, 0);
+  return `${line.length}:${last ? `${last.x},${last.y},${last.z}` : ''}:${rings.length}:${points}`;
+}
+
+export function createSnapper(scene: Scene) {
+  let enabled = true;
+  let tileEdges = false;
+  let tolerance = DEFAULT_SNAP_TOLERANCE;
+  let cache: SnapCache | undefined;
+
+  const indicators = new PointPrimitiveCollection();
+  const labels = new LabelCollection();
+  scene.primitives.add(indicators);
+  scene.primitives.add(labels);
+  const indicator = indicators.add({
+    pixelSize: 10,
+    outlineColor: Color.BLACK,
+    outlineWidth: 2,
+    disableDepthTestDistance: Number.POSITIVE_INFINITY,
+    show: false,
+  });
+  const indicatorLabel = labels.add({
+    position: new Cartesian3(),
+    font: '14px sans-serif',
+    fillColor: Color.WHITE,
+    outlineColor: Color.BLACK,
+    outlineWidth: 2,
+    style: LabelStyle.FILL_AND_OUTLINE,
+    verticalOrigin: VerticalOrigin.TOP,
+    horizontalOrigin: HorizontalOrigin.LEFT,
+    pixelOffset: new Cartesian2(10, 8),
+    disableDepthTestDistance: Number.POSITIVE_INFINITY,
+    show: false,
+  });
+
+  const toWindow = (position: Cartesian3): Cartesian2 | undefined =>
+    SceneTransforms.worldToWindowCoordinates(scene, position) ?? undefined;
+
+  // Terrain first so drawn volumes are not picked, then whatever is under the cursor
+  function pickGround(windowPosition: Cartesian2): Cartesian3 | undefined {
+    const ray = scene.camera.getPickRay(windowPosition);
+    const onGlobe = ray ? scene.globe.pick(ray, scene) : undefined;
+    return onGlobe ?? scene.pickPosition(windowPosition);
+  }
+
+  function isTileset(picked: any): boolean {
+    return picked instanceof Cesium3DTileFeature || picked?.primitive instanceof Cesium3DTileset;
+  }
+
+  // 3D tile surface under the cursor, if any
+  function pickTileSurface(windowPosition: Cartesian2): Cartesian3 | undefined {
+    if (!scene.pickPositionSupported || !isTileset(scene.pick(windowPosition))) return undefined;
+    return scene.pickPosition(windowPosition);
+  }
+
+  function nearestVertex(windowPosition: Cartesian2, points: Cartesian3[]): Cartesian3 | undefined {
+    let best: Cartesian3 | undefined;
+    let bestDistance = tolerance;
+    points.forEach(p => {
+      const w = toWindow(p);
+      if (!w) return;
+      const distance = Cartesian2.distance(w, windowPosition);
+      if (distance <= bestDistance) {
+        bestDistance = distance;
+        best = p;
+      }
+    });
+    return best;
+  }
+
+  // Nearest point on a segment, interpolated in window coordinates (fine at building scale)
+  function nearestOnEdges(windowPosition: Cartesian2, edges: Array<[Cartesian3, Cartesian3]>): Cartesian3 | undefined {
+    let best: Cartesian3 | undefined;
+    let bestDistance = tolerance;
+    edges.forEach(([a, b]) => {
+      const wa = toWindow(a);
+      const wb = toWindow(b);
+      if (!wa || !wb) return;
+      const dx = wb.x - wa.x;
+      const dy = wb.y - wa.y;
+      const lengthSquared = dx * dx + dy * dy;
+      if (lengthSquared < 1) return;
+      const t = Math.max(0, Math.min(1, ((windowPosition.x - wa.x) * dx + (windowPosition.y - wa.y) * dy) / lengthSquared));
+      const distance = Math.hypot(wa.x + t * dx - windowPosition.x, wa.y + t * dy - windowPosition.y);
+      if (distance <= bestDistance) {
+        bestDistance = distance;
+        best = Cartesian3.lerp(a, b, t, new Cartesian3());
+      }
+    });
+    return best;
+  }
+
+  // Walks out from the cursor in a few directions and stops at the first place where the tile surface
+  // drops away; the last position still on the surface is the edge (refined by bisection)
+  function nearestTileEdge(windowPosition: Cartesian2, surface: Cartesian3): Cartesian3 | undefined {
+    const surfaceHeight = Cartographic.fromCartesian(surface).height;
+    const onSurface = (w: Cartesian2) => {
+      const p = scene.pickPosition(w);
+      return p && Cartographic.fromCartesian(p).height > surfaceHeight - TILE_EDGE_DROP ? p : undefined;
+    };
+    const step = tolerance / TILE_EDGE_STEPS;
+
+    let best: Cartesian3 | undefined;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (let d = 0; d < TILE_EDGE_DIRECTIONS; d++) {
+      const angle = 2 * Math.PI * d / TILE_EDGE_DIRECTIONS;
+      const at = (distance: number) =>
+        new Cartesian2(windowPosition.x + Math.cos(angle) * distance, windowPosition.y + Math.sin(angle) * distance);
+
+      let inside = 0;
+      let insidePosition = surface;
+      for (let k = 1; k <= TILE_EDGE_STEPS; k++) {
+        const outside = k * step;
+        if (outside >= bestDistance) break;
+        const p = onSurface(at(outside));
+        if (p) {
+          inside = outside;
+          insidePosition = p;
+          continue;
+        }
+        let low = inside;
+        let high = outside;
+        for (let i = 0; i < TILE_EDGE_REFINEMENTS; i++) {
+          const middle = (low + high) / 2;
+          const q = onSurface(at(middle));
+          if (q) {
+            low = middle;
+            insidePosition = q;
+          } else {
+            high = middle;
+          }
+        }
+        best = insidePosition;
+        bestDistance = low;
+        break;
+      }
+    }
+    return best;
+  }
+
+  // The cursor moved onto the line through the last point orthogonal or parallel to the last edge
+  function constrained(windowPosition: Cartesian2, line: Cartesian3[], position: Cartesian3): SnapResult | undefined {
+    if (line.length < 2) return undefined;
+    const last = line[line.length - 1];
+    const fromEnu = Transforms.eastNorthUpToFixedFrame(last);
+    const toEnu = Matrix4.inverseTransformation(fromEnu, new Matrix4());
+    const local = (p: Cartesian3) => Matrix4.multiplyByPoint(toEnu, p, new Cartesian3());
+
+    const previous = local(line[line.length - 2]);
+    const length = Math.hypot(previous.x, previous.y);
+    if (length < 1e-6) return undefined;
+    const along = { x: -previous.x / length, y: -previous.y / length };
+    const cursor = local(position);
+
+    let best: SnapResult | undefined;
+    let bestDistance = tolerance;
+    ([['parallel', along], ['orthogonal', { x: -along.y, y: along.x }]] as Array<[SnapKind, { x: number; y: number }]>)
+      .forEach(([kind, direction]) => {
+        const t = cursor.x * direction.x + cursor.y * direction.y;
+        const candidate = Matrix4.multiplyByPoint(fromEnu, new Cartesian3(t * direction.x, t * direction.y, cursor.z), new Cartesian3());
+        const w = toWindow(candidate);
+        if (!w) return;
+        const distance = Cartesian2.distance(w, windowPosition);
+        if (distance <= bestDistance) {
+          bestDistance = distance;
+          best = { position: candidate, kind };
+        }
+      });
+    return best;
+  }
+
+  function showIndicator(result: SnapResult | undefined) {
+    indicator.show = !!result;
+    indicatorLabel.show = !!result;
+    if (result) {
+      indicator.position = result.position;
+      indicator.color = SNAP_COLORS[result.kind];
+      indicatorLabel.position = result.position;
+      indicatorLabel.text = SNAP_LABELS[result.kind];
+    }
+    scene.requestRender();
+  }
+
+  /**
+   * Snapped position under the cursor, also shown by the indicator. Undefined when snapping is off or
+   * nothing is within the tolerance; the tool then picks as usual.
+   */
+  function snap(windowPosition: Cartesian2, context: SnapContext = {}): SnapResult | undefined {
+    let result: SnapResult | undefined;
+    if (enabled) {
+      const key = contextKey(context);
+      const camera = scene.camera;
+      if (cache && cache.key === key && Cartesian2.distance(cache.windowPosition, windowPosition) < SNAP_MIN_MOVE
+        && Cartesian3.equals(cache.cameraPosition, camera.positionWC)
+        && Cartesian3.equals(cache.cameraDirection, camera.directionWC)) {
+        result = cache.result;
+      } else {
+        result = findSnap(windowPosition, context);
+        cache = {
+          windowPosition: Cartesian2.clone(windowPosition),
+          key,
+          cameraPosition: Cartesian3.clone(camera.positionWC),
+          cameraDirection: Cartesian3.clone(camera.directionWC),
+          result,
+        };
+      }
+    }
+    showIndicator(result);
+    return result && { position: Cartesian3.clone(result.position), kind: result.kind };
+  }
+
+  function findSnap(windowPosition: Cartesian2, context: SnapContext): SnapResult | undefined {
+    const line = context.line ?? [];
+    const rings = context.rings ?? [];
+
+    const vertex = nearestVertex(windowPosition, line.concat(...rings));
+    if (vertex) return { position: vertex, kind: 'vertex' };
+
+    const edges: Array<[Cartesian3, Cartesian3]> = [];
+    rings.forEach(ring => ring.forEach((p, i) => edges.push([p, ring[(i + 1) % ring.length]])));
+    line.slice(1).forEach((p, i) => edges.push([line[i], p]));
+    const edge = nearestOnEdges(windowPosition, edges);
+    if (edge) return { position: edge, kind: 'edge' };
+
+    const surface = pickTileSurface(windowPosition);
+    if (surface && tileEdges) {
+      const tileEdge = nearestTileEdge(windowPosition, surface);
+      if (tileEdge) return { position: tileEdge, kind: 'tileEdge' };
+    }
+
+    const position = surface ?? pickGround(windowPosition);
+    if (!position) return undefined;
+    return constrained(windowPosition, line, position) ?? (surface ? { position: surface, kind: 'surface' } : undefined);
+  }
+
+  function hideIndicator() {
+    showIndicator(undefined);
+  }
+
+  function destroy() {
+    scene.primitives.remove(indicators);
+    scene.primitives.remove(labels);
+  }
+
+  return {
+    snap,
+    hideIndicator,
+    setEnabled: (value: boolean) => {
+      enabled = value;
+      cache = undefined;
+      if (!enabled) hideIndicator();
+    },
+    isEnabled: () => enabled,
+    setTileEdges: (value: boolean) => {
+      tileEdges = value;
+      cache = undefined;
+    },
+    isSnappingTileEdges: () => tileEdges,
+    setTolerance: (pixels: number) => {
+      if (pixels > 0) {
+        tolerance = pixels;
+        cache = undefined;
+      }
+    },
+    getTolerance: () => tolerance,
+    destroy,
+  };
+}
+
+export type Snapper = ReturnType<typeof createSnapper>;
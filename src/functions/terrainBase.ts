@@ -0,0 +1,86 @@
+/**
+ * Base heights of drawn volumes from the terrain under their footprint, so a volume on a slope neither
+ * floats nor sinks into the ground: the lowest, highest or average ground height, or a fixed height in
+ * the national height system (RH2000). Without a mode the base is the lowest clicked point.
+ *
+ * The ground is sampled at the corners, the edge midpoints and a grid over the footprint. Scene heights
+ * are ellipsoidal; a fixed RH2000 height is lifted by the geoid height (SWEN17_RH2000 is roughly 20–40 m
+ * in Sweden), which is 0 for terrain that is already in RH2000.
+ */
+
+import { Cartesian3, Cartographic } from 'cesium';
+
+import { createLocalFrame } from './localFrame';
+
+export type BaseHeightMode = 'clicked' | 'lowest' | 'highest' | 'average' | 'fixed';
+
+export const BASE_HEIGHT_MODES: BaseHeightMode[] = ['clicked', 'lowest', 'highest', 'average', 'fixed'];
+
+// Grid cells across the longer side of the footprint's bounding box
+const SAMPLE_GRID = 8;
+
+/**
+ * Whether the base follows the terrain, and is sampled again when the volume is moved or rotated
+ */
+export function followsTerrain(mode: BaseHeightMode | undefined): boolean {
+  return mode === 'lowest' || mode === 'highest' || mode === 'average';
+}
+
+/**
+ * Base height mode of a GeoJSON feature's properties (`baseMode`), undefined for the clicked base
+ */
+export function baseModeFromProperties(properties: any): BaseHeightMode | undefined {
+  const mode = properties?.baseMode;
+  return BASE_HEIGHT_MODES.indexOf(mode) !== -1 && mode !== 'clicked' ? mode : undefined;
+}
+
+function insideRing(x: number, y: number, ring: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Points (at height 0) where the ground under a footprint is sampled
+ */
+export function footprintSamplePoints(positions: Cartesian3[]): Cartographic[] {
+  if (positions.length < 3) return positions.map(p => Cartographic.fromCartesian(p));
+
+  const frame = createLocalFrame(positions);
+  const ring = frame.points;
+  const samples = ring.concat(ring.map((p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    return { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+  }));
+
+  const xs = ring.map(p => p.x);
+  const ys = ring.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const step = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) / SAMPLE_GRID;
+  if (step > 0) {
+    for (let x = minX + step / 2; x < Math.max(...xs); x += step) {
+      for (let y = minY + step / 2; y < Math.max(...ys); y += step) {
+        if (insideRing(x, y, ring)) samples.push({ x, y });
+      }
+    }
+  }
+  return samples.map(p => frame.toCartographic(p.x, p.y, 0));
+}
+
+/**
+ * Base height from the sampled ground heights in a terrain mode, undefined without samples
+ */
+export function baseHeightFromTerrain(mode: BaseHeightMode, heights: number[]): number | undefined {
+  if (!heights.length) return undefined;
+  switch (mode) {
+    case 'lowest': return Math.min(...heights);
+    case 'highest': return Math.max(...heights);
+    case 'average': return heights.reduce((sum, h) => sum + h, 0) / heights.length;
+    default: return undefined;
+  }
+}
@@ -66,6 +66,8 @@ export interface ThreedTileLayer {
   CesiumTileset?: Cesium3DTileset;
   CesiumModels?: Model[];
   CesiumModelFootprints?: Array<Cartesian3[] | null>;
+  /** Footprints set at runtime (e.g. drawn volumes), used instead of models or a polygon file */
+  MaskFootprints?: Cartesian3[][];
   CesiumClippingCollections?: Map<string, ClippingPolygonCollection>;
   /** Stores the actual ClippingPolygon instances this layer contributed to each tileset */
   OwnClippingPolygons?: Map<string, ClippingPolygon[]>;
@@ -938,7 +940,12 @@ export async function applyMask(
 
     // Build footprint polygons
     let footprints: Cartesian3[][];
-    if (config.polygon) {
+    if (layer.MaskFootprints) {
+      footprints = layer.MaskFootprints
+        .filter(p => p.length >= 3)
+        .map(p => bufferPositions(p, config.buffer).map(projectToSurface));
+      if (!footprints.length) continue;
+    } else if (config.polygon) {
       footprints = await loadGeoJSONFootprint(config.polygon, config.buffer, bufferPositions);
       if (!footprints.length) continue;
     } else if (models?.length) {
@@ -998,8 +1005,8 @@ export async function applyMask(
       const rawStyle = tilesetLayer?.get('style') as Record<string, unknown> | 'default' | undefined;
       const baseStyle = rawStyle && rawStyle !== 'default' ? rawStyle : undefined;
 
-      const remover = tileset.tileLoad.addEventListener((tile) => {
-        if (!tile.content) return;
+      const excludeInTile = (tile: any): boolean => {
+        if (!tile.content) return false;
         const content = tile.content as Cesium3DTileContent;
         const len = content.featuresLength ?? 0;
         let newExclusions = false;
@@ -1020,11 +1027,25 @@ export async function applyMask(
             }
           }
         }
+        return newExclusions;
+      };
 
-        if (newExclusions) updateTilesetStyleWithExclusions(tileset, excludedIds, baseStyle);
+      const remover = tileset.tileLoad.addEventListener((tile) => {
+        if (excludeInTile(tile)) updateTilesetStyleWithExclusions(tileset, excludedIds, baseStyle);
       });
 
       layer.TileListenerRemovers.set(tilesetName, remover);
+
+      // Tiles loaded before the mask was applied (runtime masks are added to tilesets already in view)
+      let loadedExclusions = false;
+      const excludeInLoadedTiles = (tile: any) => {
+        loadedExclusions = excludeInTile(tile) || loadedExclusions;
+        tile.children?.forEach(excludeInLoadedTiles);
+      };
+      try {
+        if (tileset.root) excludeInLoadedTiles(tileset.root);
+      } catch { /* ignore traversal errors */ }
+      if (loadedExclusions) updateTilesetStyleWithExclusions(tileset, excludedIds, baseStyle);
     }
   }
 }
@@ -1111,6 +1132,20 @@ export function disableMask(
   }
 }
 
+/**
+ * Removes a layer's masks and forgets them, so applyMask builds them again (e.g. from new footprints).
+ */
+export function removeMask(
+  layer: ThreedTileLayer,
+  allLayers: ThreedTileLayer[]
+): void {
+  disableMask(layer, allLayers);
+  layer.OwnClippingPolygons?.clear();
+  layer.OwnMaskPolygons?.clear();
+  layer.CesiumClippingCollections?.clear();
+  layer.ExcludedFeatureIds?.clear();
+}
+
 /**
  * Re-enables clipping masks for a layer using stored polygon data.
  * Call this when a GLB model layer is shown again (visible: true).
@@ -0,0 +1,277 @@
+/**
+ * Facade and roof materials of drawn volumes (brick, plaster, glass, wood, concrete), drawn as procedural
+ * patterns in meters, with an optional window grid by storey height on the facades. Plaster takes the
+ * volume's colour; the other materials have their own.
+ *
+ * The fill geometry gets each vertex in meters east, north and up from the volume's base, and the fragment
+ * shader finds the surface direction from it: faces steeper than a mansard's lower slope are facades,
+ * the rest roof. Facade patterns run along the wall and up from the base, roof patterns along the eaves
+ * and up the slope.
+ */
+
+import {
+  Appearance, BlendingState, Cartesian3, ComponentDatatype, CullFace, Geometry, GeometryAttribute, Matrix4, Transforms
+} from 'cesium';
+
+export type MaterialType = 'brick' | 'plaster' | 'glass' | 'wood' | 'concrete';
+
+export const MATERIAL_TYPES: MaterialType[] = ['brick', 'plaster', 'glass', 'wood', 'concrete'];
+
+/** Punched: one window per bay and storey; ribbon: a band of windows along each storey */
+export type WindowPattern = 'none' | 'punched' | 'ribbon';
+
+export const WINDOW_PATTERNS: WindowPattern[] = ['none', 'punched', 'ribbon'];
+
+export interface MaterialOptions {
+  /** Walls; the volume's colour when not set */
+  facade?: MaterialType;
+  /** Roof and flat top; the volume's colour when not set */
+  roof?: MaterialType;
+  windows?: WindowPattern;
+  /** m per storey of the window grid */
+  storeyHeight?: number;
+}
+
+export const DEFAULT_STOREY_HEIGHT = 3;
+
+/**
+ * Materials of a GeoJSON feature's properties (`facadeMaterial`, `roofMaterial`, `windowPattern`,
+ * `storeyHeight`), undefined for a volume in its plain colour
+ */
+export function materialFromProperties(properties: any): MaterialOptions | undefined {
+  return cleanMaterial({
+    facade: properties?.facadeMaterial,
+    roof: properties?.roofMaterial,
+    windows: properties?.windowPattern,
+    storeyHeight: Number(properties?.storeyHeight),
+  });
+}
+
+/**
+ * Materials with unknown types and invalid values left out, undefined when the volume keeps its plain colour
+ */
+export function cleanMaterial(material: MaterialOptions | undefined): MaterialOptions | undefined {
+  const facade = MATERIAL_TYPES.indexOf(material?.facade as MaterialType) !== -1 ? material!.facade : undefined;
+  const roof = MATERIAL_TYPES.indexOf(material?.roof as MaterialType) !== -1 ? material!.roof : undefined;
+  const windows = WINDOW_PATTERNS.indexOf(material?.windows as WindowPattern) > 0 ? material!.windows : undefined;
+  if (!facade && !roof && !windows) return undefined;
+  const storeyHeight = Number(material?.storeyHeight);
+  return {
+    ...(facade ? { facade } : {}),
+    ...(roof ? { roof } : {}),
+    ...(windows ? { windows } : {}),
+    ...(storeyHeight > 0 ? { storeyHeight } : {}),
+  };
+}
+
+/**
+ * Writes materials to GeoJSON properties; undefined removes the material properties
+ */
+export function applyMaterialProperties(properties: any, material: MaterialOptions | undefined): void {
+  if (!properties) return;
+  delete properties.facadeMaterial;
+  delete properties.roofMaterial;
+  delete properties.windowPattern;
+  delete properties.storeyHeight;
+  if (!material) return;
+  if (material.facade) properties.facadeMaterial = material.facade;
+  if (material.roof) properties.roofMaterial = material.roof;
+  if (material.windows) properties.windowPattern = material.windows;
+  if (material.storeyHeight !== undefined) properties.storeyHeight = material.storeyHeight;
+}
+
+/**
+ * Adds the `localPosition` attribute (meters east, north and up from `origin`) the material shader draws with
+ */
+export function addLocalPositions(geometry: Geometry, origin: Cartesian3): Geometry {
+  const positions = geometry.attributes.position?.values ?? [];
+  const toLocal = Matrix4.inverseTransformation(Transforms.eastNorthUpToFixedFrame(origin), new Matrix4());
+  const values = new Float32Array(positions.length);
+  const scratch = new Cartesian3();
+  for (let i = 0; i < positions.length; i += 3) {
+    Cartesian3.fromElements(positions[i], positions[i + 1], positions[i + 2], scratch);
+    Matrix4.multiplyByPoint(toLocal, scratch, scratch);
+    values[i] = scratch.x;
+    values[i + 1] = scratch.y;
+    values[i + 2] = scratch.z;
+  }
+  (geometry.attributes as any).localPosition = new GeometryAttribute({
+    componentDatatype: ComponentDatatype.FLOAT,
+    componentsPerAttribute: 3,
+    values,
+  });
+  return geometry;
+}
+
+const VERTEX_SHADER = `
+in vec3 position3DHigh;
+in vec3 position3DLow;
+in vec3 localPosition;
+in vec4 color;
+in float batchId;
+
+out vec3 v_localPosition;
+out vec4 v_color;
+
+void main()
+{
+    vec4 p = czm_computePosition();
+    v_localPosition = localPosition;
+    v_color = color;
+    gl_Position = czm_modelViewProjectionRelativeToEye * p;
+}
+`;
+
+// Patterns fade to their average colour where their details get smaller than a pixel
+const PATTERN_FUNCTIONS = `
+float materialHash(vec2 p)
+{
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+float materialNoise(vec2 p)
+{
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(mix(materialHash(i), materialHash(i + vec2(1.0, 0.0)), f.x),
+               mix(materialHash(i + vec2(0.0, 1.0)), materialHash(i + vec2(1.0, 1.0)), f.x), f.y);
+}
+
+// 1 on joints \`width\` m wide every \`period\` m
+float materialJoint(float x, float period, float width)
+{
+    float w = max(fwidth(x), 1e-4);
+    float d = abs(fract(x / period + 0.5) - 0.5) * period;
+    float joint = 1.0 - smoothstep(width * 0.5 - w, width * 0.5 + w, d);
+    return mix(joint, width / period, clamp(w * 4.0 / period, 0.0, 1.0));
+}
+
+// 1 between \`low\` and \`high\`
+float materialBand(float x, float low, float high)
+{
+    float w = max(fwidth(x), 1e-4);
+    return smoothstep(low - w, low + w, x) * (1.0 - smoothstep(high - w, high + w, x));
+}
+
+float materialDetail(vec2 uv, float size)
+{
+    return 1.0 - clamp(max(fwidth(uv.x), fwidth(uv.y)) * 2.0 / size, 0.0, 1.0);
+}
+
+vec3 materialBrick(vec2 uv, vec3 tint)
+{
+    float course = floor(uv.y / 0.075);
+    float x = uv.x + 0.13 * mod(course, 2.0);
+    vec3 brick = mix(vec3(0.50, 0.20, 0.13), vec3(0.66, 0.30, 0.20), materialHash(vec2(floor(x / 0.26), course)));
+    brick = mix(vec3(0.58, 0.25, 0.17), brick, materialDetail(uv, 0.075));
+    float mortar = max(materialJoint(uv.y, 0.075, 0.01), materialJoint(x, 0.26, 0.01));
+    return mix(brick, vec3(0.75, 0.72, 0.66), mortar);
+}
+
+vec3 materialPlaster(vec2 uv, vec3 tint)
+{
+    return tint * (0.93 + 0.05 * materialNoise(uv * 3.0) + 0.03 * materialNoise(uv * 17.0) * materialDetail(uv, 0.06));
+}
+
+vec3 materialGlass(vec2 uv, vec3 tint)
+{
+    float reflection = fract(uv.y / STOREY_HEIGHT) * 0.4 + 0.3 * materialNoise(uv * 0.15);
+    vec3 glass = mix(vec3(0.16, 0.25, 0.31), vec3(0.55, 0.68, 0.76), reflection);
+    float mullion = max(materialJoint(uv.x, 1.5, 0.08), materialJoint(uv.y, STOREY_HEIGHT, 0.15));
+    return mix(glass, vec3(0.28, 0.29, 0.30), mullion);
+}
+
+vec3 materialWood(vec2 uv, vec3 tint)
+{
+    float board = materialHash(vec2(floor(uv.x / 0.15), 0.0));
+    vec3 wood = mix(vec3(0.45, 0.30, 0.18), vec3(0.60, 0.42, 0.26), board);
+    wood *= 0.9 + 0.15 * materialNoise(vec2(uv.x * 40.0, uv.y * 2.0 + board * 10.0)) * materialDetail(uv, 0.05);
+    wood = mix(vec3(0.52, 0.36, 0.22), wood, materialDetail(uv, 0.15));
+    return mix(wood, wood * 0.45, materialJoint(uv.x, 0.15, 0.008));
+}
+
+vec3 materialConcrete(vec2 uv, vec3 tint)
+{
+    vec3 concrete = vec3(0.63, 0.62, 0.60) * (0.93 + 0.07 * materialNoise(uv * 1.5) + 0.04 * materialNoise(uv * 11.0));
+    float joint = max(materialJoint(uv.x, 2.4, 0.015), materialJoint(uv.y, 1.2, 0.015));
+    return mix(concrete, concrete * 0.7, joint);
+}
+
+// Windows of every storey that fits below the eaves
+vec3 materialWindows(vec2 uv, vec3 facade)
+{
+    float storeyBase = floor(uv.y / STOREY_HEIGHT) * STOREY_HEIGHT;
+    float y = uv.y - storeyBase;
+    float top = min(0.9 + 1.5, STOREY_HEIGHT - 0.4);
+    float below = step(storeyBase + top, WALL_HEIGHT + 0.01) * step(0.0, uv.y);
+    float frame;
+    float pane;
+    if (WINDOW_PATTERN == 1) {
+        float x = fract(uv.x / 2.7) * 2.7;
+        frame = materialBand(x, 0.7, 2.0) * materialBand(y, 0.85, top + 0.05);
+        pane = materialBand(x, 0.75, 1.95) * materialBand(y, 0.9, top);
+    } else {
+        frame = materialBand(y, 0.85, STOREY_HEIGHT - 0.4);
+        pane = materialBand(y, 0.9, STOREY_HEIGHT - 0.45) * (1.0 - materialJoint(uv.x, 1.2, 0.06));
+    }
+    vec3 glass = mix(vec3(0.10, 0.14, 0.18), vec3(0.32, 0.42, 0.50), clamp((y - 0.9) / 1.5, 0.0, 1.0) * 0.6);
+    vec3 color = mix(facade, vec3(0.86, 0.86, 0.84), frame * below);
+    return mix(color, glass, pane * below);
+}
+`;
+
+const MATERIAL_FUNCTIONS: Record<MaterialType, string> = {
+  brick: 'materialBrick',
+  plaster: 'materialPlaster',
+  glass: 'materialGlass',
+  wood: 'materialWood',
+  concrete: 'materialConcrete',
+};
+
+const glslFloat = (value: number) => (Math.round(value * 1000) / 1000).toFixed(3);
+
+const surfaceColor = (type: MaterialType | undefined) =>
+  type ? `${MATERIAL_FUNCTIONS[type]}(uv, v_color.rgb)` : 'v_color.rgb';
+
+function fragmentShader(material: MaterialOptions, wallHeight: number): string {
+  const windows = material.facade !== 'glass' && !!material.windows;
+  const facade = windows ? `materialWindows(uv, ${surfaceColor(material.facade)})` : surfaceColor(material.facade);
+  return `
+in vec3 v_localPosition;
+in vec4 v_color;
+
+const float STOREY_HEIGHT = ${glslFloat(Math.max(material.storeyHeight ?? DEFAULT_STOREY_HEIGHT, 1))};
+const float WALL_HEIGHT = ${glslFloat(wallHeight)};
+const int WINDOW_PATTERN = ${material.windows === 'ribbon' ? 2 : 1};
+${PATTERN_FUNCTIONS}
+void main()
+{
+    vec3 p = v_localPosition;
+    vec3 n = normalize(cross(dFdx(p), dFdy(p)));
+    vec3 along = length(n.xy) > 1e-3 ? normalize(vec3(-n.y, n.x, 0.0)) : vec3(1.0, 0.0, 0.0);
+    vec2 uv = vec2(dot(p, along), dot(p, cross(n, along)));
+    vec3 color = abs(n.z) > 0.2 ? ${surfaceColor(material.roof)} : ${facade};
+    float light = 0.75 + 0.25 * max(dot(n, normalize(vec3(0.35, -0.45, 0.82))), 0.0);
+    out_FragColor = czm_gammaCorrect(vec4(color * light, v_color.a));
+}
+`;
+}
+
+/**
+ * Appearance that draws a volume's fill (with `localPosition`, see `addLocalPositions`) in its materials.
+ * `wallHeight` (m above the base) keeps windows out of gables.
+ */
+export function createMaterialAppearance(material: MaterialOptions, translucent: boolean, wallHeight: number): Appearance {
+  return new Appearance({
+    translucent,
+    closed: true,
+    vertexShaderSource: VERTEX_SHADER,
+    fragmentShaderSource: fragmentShader(material, wallHeight),
+    renderState: {
+      depthTest: { enabled: true },
+      cull: { enabled: true, face: CullFace.BACK },
+      ...(translucent ? { depthMask: false, blending: BlendingState.ALPHA_BLEND } : {}),
+    },
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * Walls, fences and noise barriers drawn as polylines. The centre line is widened to a closed footprint
+ * of the wall's thickness, so a wall can be rendered, edited and exported like any drawn polygon. Each
+ * corner of the footprint keeps the height of its centre line point, so the base follows the terrain.
+ */
+
+import { Cartesian3, Cartographic } from 'cesium';
+
+import { createLocalFrame } from './localFrame';
+
+export interface WallOptions {
+  /** Centre line with the ground height of each point */
+  line: Cartesian3[];
+  /** m */
+  thickness: number;
+}
+
+export const DEFAULT_WALL_THICKNESS = 0.3;
+
+// Sharp corners are mitred at most this many half thicknesses out from the centre line
+const MITER_LIMIT = 4;
+
+/**
+ * The line without repeated points (double clicks)
+ */
+export function cleanWallLine(line: Cartesian3[]): Cartesian3[] {
+  return line.filter((p, i) => i === 0 || Cartesian3.distance(p, line[i - 1]) > 0.01);
+}
+
+/**
+ * Footprint ring of a wall: the left side from the first to the last point, then the right side back.
+ * Empty for lines with fewer than two distinct points.
+ */
+export function wallOutline(line: Cartesian3[], thickness: number): Cartesian3[] {
+  const points = cleanWallLine(line);
+  if (points.length < 2 || !(thickness > 0)) return [];
+
+  const frame = createLocalFrame(points);
+  const xy = frame.points;
+  const heights = points.map(p => Cartographic.fromCartesian(p).height);
+  const half = thickness / 2;
+
+  // Left-hand unit normal of each segment
+  const normals = xy.slice(1).map((q, i) => {
+    const p = xy[i];
+    const length = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    return { x: -(q.y - p.y) / length, y: (q.x - p.x) / length };
+  });
+
+  const offsets = xy.map((_, i) => {
+    const before = normals[Math.max(0, i - 1)];
+    const after = normals[Math.min(normals.length - 1, i)];
+    const sum = { x: before.x + after.x, y: before.y + after.y };
+    const length = Math.hypot(sum.x, sum.y);
+    // A line doubling back on itself has no corner to mitre
+    if (length < 1e-9) return { x: after.x * half, y: after.y * half };
+    const miter = { x: sum.x / length, y: sum.y / length };
+    const scale = Math.min(half * MITER_LIMIT, half / Math.max(1e-9, miter.x * after.x + miter.y * after.y));
+    return { x: miter.x * scale, y: miter.y * scale };
+  });
+
+  const side = (sign: 1 | -1) => xy.map((p, i) =>
+    Cartographic.toCartesian(frame.toCartographic(p.x + sign * offsets[i].x, p.y + sign * offsets[i].y, heights[i])));
+  return side(1).concat(side(-1).reverse());
+}
+
+/**
+ * Length (m) of the centre line along the ground plane
+ */
+export function wallLength(line: Cartesian3[]): number {
+  const xy = createLocalFrame(line).points;
+  return xy.slice(1).reduce((sum, q, i) => sum + Math.hypot(q.x - xy[i].x, q.y - xy[i].y), 0);
+}
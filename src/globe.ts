@@ -23,7 +23,7 @@ import { threedtile } from './layer/layerhelper';
 // Function imports
 import quickTimePicker from './functions/quickTimePicker';
 import timeSetter from './functions/timeSetter';
-import ViewShed from './functions/ViewShed';
+import ViewShed, { ViewshedApi } from './functions/ViewShed';
 import StreetView, { forceExitStreetMode } from './functions/StreetView';
 import CameraControls from './functions/CameraControls';
 import dynamicResolutionScaling from './functions/dynamicResolutionScaling';
@@ -40,6 +40,16 @@ import { processGlobeOptions } from './globe/configValidation';
 import { configureScene, configureGlobeAppearance, loadTerrainProvider, load3DTiles, loadGltfAssets } from './globe/sceneConfig';
 import { createElementFromMarkup, stopDomEvent } from './globe/domUtils';
 import { initializeSvgIcons } from './globe/svgIcons';
+import { SceneState, hasSharedSceneParams, resolveSharedSceneState } from './globe/shareCodec';
+import { SessionPersistenceApi, createSessionPersistence } from './globe/sessionPersistence';
+import {
+  applySharedSceneState,
+  captureCamera,
+  captureThreedTileLayers,
+  fromSharedMeasurements,
+  toSharedMeasurements,
+  toSharedViewshed,
+} from './globe/sceneShare';
 
 // Button system
 import {
@@ -55,7 +65,7 @@ import {
 import { streetViewHtml, cameraControlsHtml } from './uiTemplates';
 
 // Re-export types
-export type { DrawToolExportOptions, DrawToolOptions, GlobeOptions, DirectCesiumLayerConfig } from './globe/configValidation';
+export type { DrawToolExportOptions, DrawToolOptions, DrawToolShareOptions, GlobeOptions, DirectCesiumLayerConfig } from './globe/configValidation';
 import type { DirectCesiumLayerConfig } from './globe/configValidation';
 
 // ============================================================================
@@ -146,7 +156,6 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
   // DEBUG: Log resolved config
   console.log('[Globe DEBUG] Resolved config:', config);
   console.log('[Globe DEBUG] config.drawToolConfig:', config.drawToolConfig);
-
   // Extract commonly used options
   const {
     globeOnStart,
@@ -176,11 +185,15 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
   let scene: Cesium.Scene;
   let fp: flatpickr.Instance | null = null;
   let cesiumHandler: Cesium.ScreenSpaceEventHandler | undefined;
+  let viewshedApi: ViewshedApi | null = null;
+  let threedTilesLoaded: Promise<void> = Promise.resolve();
 
   // UI references
   let globeEl: OrigoElement;
   let polygonUi: PolygonUiApi | null = null;
   let measureUi: MeasureUiApi | null = null;
+  let sessionPersistence: SessionPersistenceApi | null = null;
+  const persistSessions = (!!drawTool || measure) && config.drawToolConfig.options?.persist !== false;
 
   // Button manager
   const buttonManager = new ButtonManager();
@@ -188,6 +201,7 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
 
   // Lifecycle
   let hasActivatedOnStart = false;
+  let hasRestoredSharedState = false;
 
   // ============================================================================
   // Cleanup Management
@@ -370,34 +384,39 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
     });
   };
 
+  const switchGlobe = (): void => {
+    toggleGlobe();
+    toggleButtons();
+    setActiveControls(oGlobe, viewer);
+  };
+
+  const setShadowsActive = (active: boolean): void => {
+    if (!scene?.shadowMap) return;
+    buttonManager.get(BUTTON_IDS.SHADOWS)?.setActive(active);
+    scene.shadowMap.enabled = active;
+
+    SHADOW_DEPENDENT_BUTTONS.forEach(id => {
+      buttonManager.get(id)?.setDisabled(!active);
+    });
+    if (quickTimeButton) {
+      const el = document.getElementById(quickTimeButton.getId()) as HTMLButtonElement;
+      if (el) {
+        el.classList.toggle('disabled', !active);
+        el.disabled = !active;
+      }
+    }
+    requestSceneRender();
+  };
+
   // ============================================================================
   // Button Click Handlers
   // ============================================================================
 
   const buttonHandlers: Record<string, (btn: ButtonInstance, el: HTMLElement) => void> = {
-    [BUTTON_IDS.GLOBE]: () => {
-      toggleGlobe();
-      toggleButtons();
-      setActiveControls(oGlobe, viewer);
-    },
+    [BUTTON_IDS.GLOBE]: switchGlobe,
 
     [BUTTON_IDS.SHADOWS]: (btn) => {
-      if (!scene?.shadowMap) return;
-      const active = !btn.isActive();
-      btn.setActive(active);
-      scene.shadowMap.enabled = active;
-
-      SHADOW_DEPENDENT_BUTTONS.forEach(id => {
-        buttonManager.get(id)?.setDisabled(!active);
-      });
-      if (quickTimeButton) {
-        const el = document.getElementById(quickTimeButton.getId()) as HTMLButtonElement;
-        if (el) {
-          el.classList.toggle('disabled', !active);
-          el.disabled = !active;
-        }
-      }
-      requestSceneRender();
+      setShadowsActive(!btn.isActive());
     },
 
     [BUTTON_IDS.FLATPICKR]: (btn) => {
@@ -536,9 +555,59 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
   const activeGlobeOnStart = (): void => {
     if (!globeOnStart || hasActivatedOnStart || !oGlobe) return;
     hasActivatedOnStart = true;
-    toggleGlobe();
-    toggleButtons();
-    setActiveControls(oGlobe, viewer);
+    switchGlobe();
+  };
+
+  // ============================================================================
+  // Shared Scene State
+  // ============================================================================
+
+  /** Everything but the polygons, which polygonUi adds itself */
+  const captureSceneState = (): Omit<SceneState, 'v' | 'polygons'> => {
+    const globe = !!oGlobe && isGlobeActive(oGlobe);
+    const measurements = toSharedMeasurements(measureUi?.getMeasurements() ?? []);
+    const viewshed = viewshedApi?.getSetup();
+    return {
+      ...(globe ? { camera: captureCamera(scene) } : {}),
+      globe,
+      ...(fp?.selectedDates[0] ? { time: fp.selectedDates[0].toISOString() } : {}),
+      shadows: Boolean(scene?.shadowMap?.enabled),
+      layers: captureThreedTileLayers(map),
+      ...(measurements.length ? { measurements } : {}),
+      ...(viewshed ? { viewshed: toSharedViewshed(viewshed) } : {}),
+    };
+  };
+
+  const restoreSharedSceneState = (): void => {
+    if (hasRestoredSharedState || !scene || !oGlobe) return;
+    hasRestoredSharedState = true;
+
+    const shareOptions = config.drawToolConfig.options?.share;
+    const endpoint = typeof shareOptions === 'object' ? shareOptions.endpoint : undefined;
+    resolveSharedSceneState(endpoint)
+      .then(state => {
+        // The plugin may have been removed while a short link was resolving
+        if (!state || !hasRestoredSharedState) return;
+        // Runs after globeOnStart, so the link decides whether the globe is on
+        applySharedSceneState(state, {
+          scene,
+          map,
+          polygonUi,
+          measureUi,
+          isGlobeActive: () => isGlobeActive(oGlobe),
+          toggleGlobe: switchGlobe,
+          getFlatpickr: () => fp,
+          setShadowsActive,
+          threedTilesLoaded,
+          restoreViewshed: viewshedApi ? (setup) => {
+            viewshedApi?.restore(setup);
+            buttonManager.get(BUTTON_IDS.VIEWSHED)?.setActive(true);
+          } : undefined,
+          registerOptionalCleanup,
+          requestSceneRender,
+        });
+      })
+      .catch(e => console.warn('[Globe] Could not restore shared scene', e));
   };
 
   const showGlobeOption = (): void => {
@@ -665,6 +734,8 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
         registerCleanup,
         stopDomEvent,
         drawToolOptions: config.drawToolConfig,
+        getSceneState: captureSceneState,
+        clearStoredSessions: persistSessions ? () => sessionPersistence?.clearStoredSessions() : undefined,
       });
       registerCleanup(() => { polygonUi?.destroy(); polygonUi = null; });
 
@@ -675,10 +746,39 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
         requestSceneRender,
         registerCleanup,
         stopDomEvent,
+        getSnapTargets: () => polygonUi?.getSnapTargets() ?? [],
       });
       measureUi.mountMeasureToolbarIfNeeded();
       registerCleanup(() => { measureUi?.destroy(); measureUi = null; });
 
+      if (persistSessions) {
+        sessionPersistence = createSessionPersistence({
+          // Per page and map configuration
+          storageKey: `${window.location.origin}${window.location.pathname}#${viewer.getMapName?.() ?? ''}`,
+          captureSession: () => {
+            const scenarioState = polygonUi?.getScenarios();
+            return {
+              polygons: polygonUi?.getPolygonsGeoJSON(),
+              measurements: toSharedMeasurements(measureUi?.getMeasurements() ?? []),
+              ...(scenarioState ? { scenarios: scenarioState.scenarios, activeScenario: scenarioState.activeIndex } : {}),
+            };
+          },
+          restoreSession: (session) => {
+            if (session.scenarios?.length) {
+              polygonUi?.restoreScenarios(session.scenarios, session.activeScenario ?? 0);
+            } else if (session.polygons) {
+              registerOptionalCleanup(polygonUi?.loadSharedPolygons(session.polygons));
+            }
+            if (session.measurements) measureUi?.addMeasurements(fromSharedMeasurements(session.measurements));
+          },
+          injectIntoMap,
+          stopDomEvent,
+        });
+        polygonUi.onPolygonsChange(() => sessionPersistence?.notifyChange());
+        measureUi.onMeasurementsChange(() => sessionPersistence?.notifyChange());
+        registerCleanup(() => { sessionPersistence?.destroy(); sessionPersistence = null; });
+      }
+
       // Post-render patches
       const onPostRender = () => patchCollections(scene);
       scene.postRender.addEventListener(onPostRender);
@@ -692,7 +792,7 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
       if (viewShed) {
         const viewshedBtn = buttonManager.get(BUTTON_IDS.VIEWSHED)?.button;
         if (viewshedBtn) {
-          ViewShed(scene, viewshedBtn, cesiumHandler);
+          viewshedApi = ViewShed(scene, viewshedBtn, cesiumHandler);
         }
       }
       registerOptionalCleanup(addCameraControls());
@@ -702,11 +802,6 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
       setActiveControls(oGlobe, viewer);
       registerOptionalCleanup(addPickedFeatureStyle(cesiumHandler));
 
-      // Load shared polygons from URL
-      try {
-        registerOptionalCleanup(polygonUi?.loadSharedPolygonsFromUrl());
-      } catch { /* ignore */ }
-
       // Camera controls
       CameraControls(scene);
 
@@ -724,7 +819,7 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
         cesiumIontoken: config.cesiumIontoken,
       }).catch((e: Error) => console.error('Terrain load failed', e));
 
-      load3DTiles(scene, map, config.cesiumIontoken);
+      threedTilesLoaded = load3DTiles(scene, map, config.cesiumIontoken);
       loadGltfAssets(scene, config.gltf);
 
       // Add components and render
@@ -763,6 +858,9 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
       }
 
       activeGlobeOnStart();
+      restoreSharedSceneState();
+      // A share link is not mixed with the stored session, and only replaces it when the user agrees
+      sessionPersistence?.start(hasSharedSceneParams());
       this.dispatch('render');
     },
 
@@ -776,7 +874,9 @@ const Globe = function Globe(options: GlobeOptionsInput = {}) {
       cesiumHandler = undefined;
       cleanupDom();
       buttonManager.clear();
+      viewshedApi = null;
       hasActivatedOnStart = false;
+      hasRestoredSharedState = false;
     },
 
     // Public API
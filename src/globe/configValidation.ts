@@ -1,4 +1,7 @@
 import type { GlobeSettings, ShadowSettings, SkyBoxSettings } from './types';
+import { registerProj4Defs, isProjectionRegistered, isGeographicProjection } from '../functions/projections';
+import { BASE_HEIGHT_MODES, BaseHeightMode } from '../functions/terrainBase';
+import type { MaskConfig } from '../functions/tileClipping';
 
 // ============================================================================
 // Globe Options Interface
@@ -7,16 +10,59 @@ import type { GlobeSettings, ShadowSettings, SkyBoxSettings } from './types';
 export interface DrawToolExportOptions {
   geojson?: boolean;
   dxf?: boolean;
+  glb?: boolean;
+  /** CityJSON LoD1 export, one button per `dxfCrs` coordinate system */
+  cityjson?: boolean;
+  /** KML and KMZ export for Google Earth */
+  kml?: boolean;
+  /** Schedule of all polygons with areas, volumes and gross floor areas */
+  csv?: boolean;
   dxfCrs?: string[];
+  /**
+   * Meters added to Z per DXF CRS (e.g. `{ "EPSG:3008": -0.3 }`), subtracted again on DXF import. With `geoidHeight`
+   * set they are added to RH2000 heights rather than to the scene's heights
+   */
+  dxfHeightOffsets?: Record<string, number>;
+}
+
+export interface DrawToolShareOptions {
+  /** Short-link service: POST `{ payload }` returns `{ id }`, GET `<endpoint>/<id>` returns `{ payload }` */
+  endpoint?: string;
 }
 
 export interface DrawToolOptions {
   active?: boolean;
   options?: {
     export?: DrawToolExportOptions | boolean;
-    share?: boolean;
+    /** Show the GeoJSON/DXF file import button (default true) */
+    import?: boolean;
+    share?: boolean | DrawToolShareOptions;
+    /** Keep drawings and measurements in the browser (IndexedDB) and offer to restore them (default true) */
+    persist?: boolean;
+    /** Named scenarios that can be switched between and compared (default true) */
+    scenarios?: boolean;
     defaultColor?: string;
     defaultHeight?: number;
+    /** Meters per storey for the storey and gross floor area estimates (default 3) */
+    storeyHeight?: number;
+    /** Snap to corners, edges, 3D tiles and right angles while drawing (default true) */
+    snapping?: boolean;
+    /** Also search for the edges of 3D tile surfaces under the cursor, at a few extra picks per move (default false) */
+    snapTileEdges?: boolean;
+    /** How close (pixels) to a corner or edge the cursor snaps (default 10) */
+    snapTolerance?: number;
+    /** How the base height of new volumes is found (default 'clicked') */
+    baseHeightMode?: BaseHeightMode;
+    /**
+     * Height (m) of RH2000 zero above the scene's heights (the WGS84 ellipsoid, or 0 for RH2000 terrain). Fixed
+     * base heights are only offered when set; DXF and coordinate list heights are then RH2000 as well
+     */
+    geoidHeight?: number;
+    /**
+     * THREEDTILE layers hidden under volumes marked as replacing existing buildings, as in a layer's mask:
+     * `{ tilesetName: buffer }` or `{ tilesetName: { buffer, removeIntersecting } }`
+     */
+    mask?: Record<string, number | MaskConfig>;
   };
 }
 
@@ -216,6 +262,84 @@ function validateGltfAssets(gltf?: GLTFAssetOptions[]): ValidationResult {
   return result;
 }
 
+function validateDrawToolOptions(drawTool?: boolean | DrawToolOptions): ValidationResult {
+  const result: ValidationResult = { valid: true, warnings: [], errors: [] };
+
+  const shareOptions = typeof drawTool === 'object' ? drawTool.options?.share : undefined;
+  if (shareOptions && typeof shareOptions === 'object' && shareOptions.endpoint !== undefined
+    && (typeof shareOptions.endpoint !== 'string' || !shareOptions.endpoint.trim())) {
+    result.errors.push('drawTool share.endpoint must be a non-empty URL string');
+    result.valid = false;
+  }
+
+  const storeyHeight = typeof drawTool === 'object' ? drawTool.options?.storeyHeight : undefined;
+  if (storeyHeight !== undefined && !(typeof storeyHeight === 'number' && storeyHeight > 0)) {
+    result.errors.push('drawTool storeyHeight must be a positive number of meters');
+    result.valid = false;
+  }
+
+  const snapTolerance = typeof drawTool === 'object' ? drawTool.options?.snapTolerance : undefined;
+  if (snapTolerance !== undefined && !(typeof snapTolerance === 'number' && snapTolerance > 0)) {
+    result.errors.push('drawTool snapTolerance must be a positive number of pixels');
+    result.valid = false;
+  }
+
+  const baseHeightMode = typeof drawTool === 'object' ? drawTool.options?.baseHeightMode : undefined;
+  if (baseHeightMode !== undefined && BASE_HEIGHT_MODES.indexOf(baseHeightMode) === -1) {
+    result.errors.push(`drawTool baseHeightMode must be one of ${BASE_HEIGHT_MODES.join(', ')}`);
+    result.valid = false;
+  }
+
+  const geoidHeight = typeof drawTool === 'object' ? drawTool.options?.geoidHeight : undefined;
+  if (geoidHeight !== undefined && !(typeof geoidHeight === 'number' && isFinite(geoidHeight))) {
+    result.errors.push('drawTool geoidHeight must be a number of meters');
+    result.valid = false;
+  }
+  if (baseHeightMode === 'fixed' && geoidHeight === undefined) {
+    result.errors.push("drawTool baseHeightMode 'fixed' needs geoidHeight, the height of RH2000 zero above the scene's heights");
+    result.valid = false;
+  }
+
+  const mask = typeof drawTool === 'object' ? drawTool.options?.mask : undefined;
+  if (mask !== undefined) {
+    if (!mask || typeof mask !== 'object') {
+      result.errors.push('drawTool mask must map tileset layer names to a buffer or mask options');
+      result.valid = false;
+    } else {
+      Object.keys(mask).forEach(name => {
+        const value = mask[name];
+        const buffer = typeof value === 'object' && value ? value.buffer ?? 0 : value;
+        if (!(typeof buffer === 'number' && buffer >= 0)) {
+          result.errors.push(`drawTool mask buffer for "${name}" must be a non-negative number of meters`);
+          result.valid = false;
+        }
+      });
+    }
+  }
+
+  const exportOptions = typeof drawTool === 'object' ? drawTool.options?.export : undefined;
+  if (!exportOptions || typeof exportOptions !== 'object') return result;
+
+  (exportOptions.dxfCrs || []).forEach(crs => {
+    if (!isProjectionRegistered(crs)) {
+      result.errors.push(`drawTool dxfCrs ${crs} has no projection definition (add it to proj4Defs)`);
+      result.valid = false;
+    } else if (isGeographicProjection(crs)) {
+      result.errors.push(`drawTool dxfCrs ${crs} is geographic (degrees) and cannot be used for 3D DXF`);
+      result.valid = false;
+    }
+  });
+
+  Object.keys(exportOptions.dxfHeightOffsets || {}).forEach(crs => {
+    if (typeof exportOptions.dxfHeightOffsets?.[crs] !== 'number') {
+      result.errors.push(`drawTool dxfHeightOffsets for ${crs} must be a number`);
+      result.valid = false;
+    }
+  });
+
+  return result;
+}
+
 // ============================================================================
 // Main Configuration Functions
 // ============================================================================
@@ -243,6 +367,12 @@ export function validateGlobeOptions(options: GlobeOptions): ValidationResult {
   result.warnings.push(...gltfValidation.warnings);
   result.errors.push(...gltfValidation.errors);
   if (!gltfValidation.valid) result.valid = false;
+
+  // Validate draw tool export coordinate systems
+  const drawToolValidation = validateDrawToolOptions(options.drawTool ?? options.indexJson?.['3D']?.drawTool);
+  result.warnings.push(...drawToolValidation.warnings);
+  result.errors.push(...drawToolValidation.errors);
+  if (!drawToolValidation.valid) result.valid = false;
   
   // Check for conflicting options
   if (options.streetView && !options.streetViewMap) {
@@ -321,6 +451,9 @@ export function processGlobeOptions(options: GlobeOptions = {}): {
   resolved: ResolvedGlobeOptions;
   validation: ValidationResult;
 } {
+  // Projections from the map config must be known before dxfCrs can be validated
+  registerProj4Defs(options.indexJson?.proj4Defs);
+
   const validation = validateGlobeOptions(options);
   const resolved = resolveGlobeOptions(options);
   
@@ -10,3 +10,61 @@ export const stopDomEvent = (event: Event) => {
   (event as any).stopImmediatePropagation?.();
   event.stopPropagation();
 };
+
+/**
+ * Wires the snapping checkboxes and tolerance input made by the toolbar templates to a draw or measure tool.
+ * The `${idPrefix}-button` is shown active while snapping is on.
+ */
+export const watchSnapFields = (
+  idPrefix: string,
+  tool: {
+    setSnapping(enabled: boolean): void;
+    isSnapping(): boolean;
+    setSnapTileEdges(enabled: boolean): void;
+    isSnappingTileEdges(): boolean;
+    setSnapTolerance(pixels: number): void;
+    getSnapTolerance(): number;
+  },
+) => {
+  const button = document.getElementById(`${idPrefix}-button`);
+  const enabledInput = document.getElementById(`${idPrefix}-enabled`) as HTMLInputElement | null;
+  const tileEdgesInput = document.getElementById(`${idPrefix}-tile-edges`) as HTMLInputElement | null;
+  const toleranceInput = document.getElementById(`${idPrefix}-tolerance`) as HTMLInputElement | null;
+
+  const sync = () => {
+    if (enabledInput) enabledInput.checked = tool.isSnapping();
+    if (tileEdgesInput) tileEdgesInput.checked = tool.isSnappingTileEdges();
+    if (toleranceInput) toleranceInput.value = String(tool.getSnapTolerance());
+    button?.classList.toggle('active', tool.isSnapping());
+  };
+  sync();
+
+  enabledInput?.addEventListener('change', () => {
+    tool.setSnapping(enabledInput.checked);
+    sync();
+  });
+  tileEdgesInput?.addEventListener('change', () => {
+    tool.setSnapTileEdges(tileEdgesInput.checked);
+    sync();
+  });
+  toleranceInput?.addEventListener('input', () => {
+    const pixels = parseFloat(toleranceInput.value);
+    if (pixels > 0) tool.setSnapTolerance(pixels);
+  });
+};
+
+/**
+ * Saves a blob as a file through a temporary link
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 100);
+};
@@ -3,7 +3,7 @@ export type { CleanupFn, GLTFAsset, GlobeSettings, ShadowSettings, SkyBoxSetting
 
 // Configuration
 export { processGlobeOptions, resolveGlobeOptions, validateGlobeOptions } from './configValidation';
-export type { GlobeOptions, ResolvedGlobeOptions, DrawToolOptions, DrawToolExportOptions, GLTFAssetOptions } from './configValidation';
+export type { GlobeOptions, ResolvedGlobeOptions, DrawToolOptions, DrawToolExportOptions, DrawToolShareOptions, GLTFAssetOptions } from './configValidation';
 
 // State (prefer using centralized state manager)
 export * from './globeStateManager';
@@ -1,6 +1,7 @@
 import * as Cesium from 'cesium';
-import measureTool, { MeasureMode } from '../functions/measureTool';
+import measureTool, { MeasureMode, Measurement } from '../functions/measureTool';
 import { measureToolbarHtml } from '../uiTemplates';
+import { watchSnapFields } from './domUtils';
 
 type CleanupFn = () => void;
 
@@ -8,6 +9,9 @@ export interface MeasureUiApi {
   mountMeasureToolbarIfNeeded(): void;
   setMeasureToolbarVisible(visible: boolean): void;
   isMeasureToolbarVisible(): boolean;
+  getMeasurements(): Measurement[];
+  addMeasurements(measurements: Measurement[]): void;
+  onMeasurementsChange(callback: (() => void) | null): void;
   destroy(): void;
 }
 
@@ -18,6 +22,8 @@ export const createMeasureUi = (deps: {
   requestSceneRender: () => void;
   registerCleanup: (cleanup?: CleanupFn) => void;
   stopDomEvent: (event: Event) => void;
+  /** Rings besides the measurements to snap to, e.g. the drawn polygons */
+  getSnapTargets?: () => Cesium.Cartesian3[][];
 }): MeasureUiApi => {
   const {
     scene,
@@ -25,11 +31,22 @@ export const createMeasureUi = (deps: {
     requestSceneRender,
     registerCleanup,
     stopDomEvent,
+    getSnapTargets,
   } = deps;
 
   let measureToolbarEl: HTMLElement | null = null;
   let tool: ReturnType<typeof measureTool> | null = null;
   let currentMode: MeasureMode = 'distance';
+  let measurementsChangeCallback: (() => void) | null = null;
+
+  const ensureTool = () => {
+    if (!tool) {
+      tool = measureTool(scene);
+      tool.onChange(() => measurementsChangeCallback?.());
+      tool.setSnapTargets(getSnapTargets ?? null);
+    }
+    return tool;
+  };
 
   const updateModeButtons = () => {
     const distanceBtn = document.getElementById('measure-distance');
@@ -48,12 +65,8 @@ export const createMeasureUi = (deps: {
     measureToolbarEl.style.display = visible ? 'flex' : 'none';
 
     if (visible) {
-      // Initialize tool if not already
-      if (!tool) {
-        tool = measureTool(scene);
-      }
-      // Start with current mode
-      tool.setMode(currentMode);
+      // Initialize tool if not already, and start with current mode
+      ensureTool().setMode(currentMode);
       updateModeButtons();
     } else {
       // Stop measuring when hidden
@@ -83,6 +96,8 @@ export const createMeasureUi = (deps: {
     const surfaceBtn = document.getElementById('measure-surface') as HTMLButtonElement | null;
     const clearBtn = document.getElementById('measure-clear') as HTMLButtonElement | null;
     const closeBtn = document.getElementById('measure-close') as HTMLButtonElement | null;
+    const snapBtn = document.getElementById('measure-snap-button') as HTMLButtonElement | null;
+    const snapPopover = document.getElementById('measure-snap-popover') as HTMLElement | null;
 
     // Prevent events from bubbling to map
     const preventBubbling = (el: HTMLElement | null) => {
@@ -139,6 +154,25 @@ export const createMeasureUi = (deps: {
       });
     }
 
+    // Snapping settings popover; closes on a click outside it
+    watchSnapFields('measure-snap', ensureTool());
+    if (snapBtn && snapPopover) {
+      const closeSnapPopover = (e: MouseEvent) => {
+        if (snapPopover.contains(e.target as Node) || snapBtn.contains(e.target as Node)) return;
+        snapPopover.classList.remove('o-active');
+        document.removeEventListener('click', closeSnapPopover, true);
+      };
+      snapBtn.addEventListener('click', (e) => {
+        stopDomEvent(e);
+        const open = snapPopover.classList.toggle('o-active');
+        document.removeEventListener('click', closeSnapPopover, true);
+        if (open) document.addEventListener('click', closeSnapPopover, true);
+      });
+      // The checkbox and input need their default actions, which the toolbar's handlers would prevent
+      ['click', 'mousedown', 'pointerdown'].forEach(type => snapPopover.addEventListener(type, (e) => e.stopPropagation()));
+      registerCleanup(() => document.removeEventListener('click', closeSnapPopover, true));
+    }
+
     // Clear measurements
     if (clearBtn) {
       clearBtn.addEventListener('click', (e) => {
@@ -174,6 +208,19 @@ export const createMeasureUi = (deps: {
     });
   };
 
+  const getMeasurements = (): Measurement[] => tool?.getMeasurements() ?? [];
+
+  const addMeasurements = (measurements: Measurement[]) => {
+    if (!measurements.length) return;
+    // The tool stays idle until the toolbar is shown, so restored measurements do not start a new one
+    ensureTool().addMeasurements(measurements);
+    requestSceneRender();
+  };
+
+  const onMeasurementsChange = (callback: (() => void) | null) => {
+    measurementsChangeCallback = callback;
+  };
+
   const destroy = () => {
     tool?.destroy();
     tool = null;
@@ -187,6 +234,9 @@ export const createMeasureUi = (deps: {
     mountMeasureToolbarIfNeeded,
     setMeasureToolbarVisible,
     isMeasureToolbarVisible,
+    getMeasurements,
+    addMeasurements,
+    onMeasurementsChange,
     destroy,
   };
 };
@@ -1,35 +1,41 @@
 import * as Cesium from 'cesium';
 
 import polygonDrawTool, { PolygonData } from '../functions/polygonDrawTool';
-import { polygonToolbarHtml, polygonEditPanelHtml, polygonTranslateArrowsHtml, PolygonToolbarOptions } from '../uiTemplates';
+import { parsePolygonFile, parseKMZ } from '../functions/polygonFileImport';
+import { isProjectionRegistered, isGeographicProjection } from '../functions/projections';
+import { buildMetricsCsv, computePolygonMetrics } from '../functions/polygonMetrics';
+import { ROOF_TYPES, RoofOptions, RoofType } from '../functions/roofGeometry';
+import { CoordinateOrder, parseCoordinateList } from '../functions/coordinateInput';
+import { MAX_ARRAY_COPIES } from '../functions/polygonArray';
+import { BaseHeightMode } from '../functions/terrainBase';
+import { MaterialOptions, MaterialType, WindowPattern } from '../functions/volumeMaterials';
+import { FootprintMask, createFootprintMask } from '../layer/threedtile';
 import {
-  decodeCompressedBase64UrlToJson,
-  encodeCompressedJsonToBase64Url,
-  roundGeoJsonForShare,
-} from './shareCodec';
+  polygonToolbarHtml, polygonEditPanelHtml, polygonTranslateArrowsHtml, segmentInputHtml, PolygonToolbarOptions
+} from '../uiTemplates';
+import { SCENE_STATE_VERSION, SceneState, buildSceneShareUrl, createShortShareUrl } from './shareCodec';
+import { createScenarioManager, ScenarioManagerApi, StoredScenario } from './scenarioManager';
+import { downloadBlob, watchSnapFields } from './domUtils';
 
-import type { CleanupFn } from './types';
-
-export interface DrawToolExportOptions {
-  geojson?: boolean;
-  dxf?: boolean;
-  dxfCrs?: string[];
-}
-
-export interface DrawToolOptions {
-  active?: boolean;
-  options?: {
-    export?: DrawToolExportOptions | boolean;
-    share?: boolean;
-    defaultColor?: string;
-    defaultHeight?: number;
-  };
-}
+import type { DrawToolOptions } from './configValidation';
+import type { CleanupFn, GeoJsonFeatureCollection } from './types';
 
 export interface PolygonUiApi {
   mountPolygonToolbarIfNeeded(): void;
   setPolygonToolbarVisible(visible: boolean): void;
-  loadSharedPolygonsFromUrl(): CleanupFn | void;
+  /**
+   * Imports polygons from a share link or stored session; the camera is left alone when `flyTo` is false.
+   * With a `scenarioName` they go into a scenario of that name unless the current one is empty.
+   */
+  loadSharedPolygons(geojson: GeoJsonFeatureCollection, flyTo?: boolean, scenarioName?: string): CleanupFn | void;
+  /** Drawn polygons of the active scenario as GeoJSON, empty before the draw tool is first used */
+  getPolygonsGeoJSON(): GeoJsonFeatureCollection;
+  /** All scenarios, null when scenarios are turned off or the draw tool is not used yet */
+  getScenarios(): { scenarios: StoredScenario[]; activeIndex: number } | null;
+  restoreScenarios(scenarios: StoredScenario[], activeIndex: number): void;
+  onPolygonsChange(callback: (() => void) | null): void;
+  /** Outer rings and holes of the drawn polygons, for the measure tool to snap to */
+  getSnapTargets(): Cesium.Cartesian3[][];
   destroy(): void;
 }
 
@@ -41,6 +47,10 @@ export const createPolygonUi = (deps: {
   registerCleanup: (cleanup?: CleanupFn) => void;
   stopDomEvent: (event: Event) => void;
   drawToolOptions?: DrawToolOptions;
+  /** Rest of the scene (camera, time, layers, tools) to include in share links */
+  getSceneState?: () => Omit<SceneState, 'v' | 'polygons'>;
+  /** Shows a toolbar button that removes locally stored sessions */
+  clearStoredSessions?: () => void;
 }): PolygonUiApi => {
   const {
     scene,
@@ -50,6 +60,8 @@ export const createPolygonUi = (deps: {
     registerCleanup,
     stopDomEvent,
     drawToolOptions = {},
+    getSceneState,
+    clearStoredSessions,
   } = deps;
 
   // Parse drawTool options
@@ -57,37 +69,77 @@ export const createPolygonUi = (deps: {
   const toolOptions = drawToolOptions.options || {};
   console.log('[Globe DEBUG] toolOptions:', JSON.stringify(toolOptions, null, 2));
   const exportConfig = typeof toolOptions.export === 'object' ? toolOptions.export : 
-    (toolOptions.export === false ? { geojson: false, dxf: false } : { geojson: true, dxf: true });
+    (toolOptions.export === false ? { geojson: false, dxf: false, glb: false, cityjson: false, kml: false, csv: false } : { geojson: true, dxf: true, glb: true, cityjson: true, kml: true, csv: true });
   console.log('[Globe DEBUG] exportConfig:', JSON.stringify(exportConfig, null, 2));
   const showShare = toolOptions.share !== false;
+  const shareEndpoint = typeof toolOptions.share === 'object' ? toolOptions.share.endpoint : undefined;
+  const showImport = toolOptions.import !== false;
+  const showScenarios = toolOptions.scenarios !== false;
   const defaultColor = toolOptions.defaultColor || 'white';
   const defaultHeight = toolOptions.defaultHeight ?? 10;
-  const dxfCrs = exportConfig.dxfCrs || ['EPSG:3006'];
+  // Coordinate systems that failed config validation get no buttons
+  const dxfCrs = (exportConfig.dxfCrs || ['EPSG:3006'])
+    .filter(crs => isProjectionRegistered(crs) && !isGeographicProjection(crs));
+  const dxfHeightOffsets = exportConfig.dxfHeightOffsets || {};
   const showGeojson = exportConfig.geojson !== false;
   const showDxf = exportConfig.dxf !== false;
+  const showGlb = exportConfig.glb !== false;
+  const showCityJson = exportConfig.cityjson !== false;
+  const showKml = exportConfig.kml !== false;
+  const showCsv = exportConfig.csv !== false;
+  // Projected areas are given in the first export system, normally the municipality's SWEREF99 zone
+  const metricsCrs: string | undefined = dxfCrs[0];
+  let storeyHeight = toolOptions.storeyHeight ?? 3;
+  const snapping = toolOptions.snapping !== false;
+  const snapTileEdges = toolOptions.snapTileEdges === true;
+  const snapTolerance = toolOptions.snapTolerance;
+  const baseHeightMode = toolOptions.baseHeightMode;
+  // RH2000 heights (fixed base heights, and via the per-system offsets DXF and coordinate lists) need the
+  // height of RH2000 zero above the scene's heights
+  const geoidHeight = toolOptions.geoidHeight;
+  const showFixedBase = geoidHeight !== undefined;
+  const heightOffsetFor = (crs: string) => (dxfHeightOffsets[crs] ?? 0) - (geoidHeight ?? 0);
+  // Exported heights are plain RH2000 (EPSG:5613) when there is a geoid height and no local offset
+  const verticalCrsFor = (crs: string) => (geoidHeight !== undefined && !dxfHeightOffsets[crs] ? 'EPSG:5613' : undefined);
+  const maskConfig = toolOptions.mask && Object.keys(toolOptions.mask).length ? toolOptions.mask : undefined;
   console.log('[Globe DEBUG] Final config: dxfCrs=', dxfCrs, 'showGeojson=', showGeojson, 'showDxf=', showDxf);
 
   let polygonToolbarEl: HTMLElement | null = null;
   let polygonEditPanelEl: HTMLElement | null = null;
   let polygonTranslateArrowsEl: HTMLElement | null = null;
+  let segmentInputEl: HTMLElement | null = null;
   let polygonTool: ReturnType<typeof polygonDrawTool> | null = null;
   let polygonToolIsDrawing = false;
   let rectangleToolIsDrawing = false;
+  let wallToolIsDrawing = false;
+  let circleToolIsDrawing = false;
   let selectedPolygonForArrows: PolygonData | null = null;
   let cameraChangeListener: Cesium.Event.RemoveCallback | null = null;
+  let polygonsChangeCallback: (() => void) | null = null;
+  let scenarios: ScenarioManagerApi | null = null;
+  let footprintMask: FootprintMask | null = null;
+  let renderScenarioList: (() => void) | null = null;
 
   // Disable/enable draw toolbar when polygon is selected/deselected
   const setDrawToolbarEnabled = (enabled: boolean) => {
     const toolbarButtons = [
       'polygon-draw',
       'rectangle-draw', 
+      'wall-draw',
+      'circle-draw',
+      'polygon-snap-button',
+      'polygon-coordinates-button',
       'polygon-height-button',
+      'polygon-roof-button',
       'polygon-color-button',
       'polygon-opacity-toggle',
       'polygon-labels-toggle',
+      'polygon-scenarios-button',
+      'polygon-import-button',
       'polygon-download-button',
       'polygon-share',
       'polygon-clear',
+      'polygon-clear-sessions',
     ];
     
     toolbarButtons.forEach(id => {
@@ -100,6 +152,20 @@ export const createPolygonUi = (deps: {
     });
   };
 
+  // Edits the draw tool refused (an invalid hole, a corner that would leave a hole outside) are shown
+  // above the edit panel for a few seconds
+  let editStatusTimer: ReturnType<typeof setTimeout> | undefined;
+  const showEditStatus = (message: string) => {
+    const status = document.getElementById('polygon-edit-status');
+    if (!status) return;
+    status.textContent = message;
+    status.style.display = 'block';
+    if (editStatusTimer !== undefined) clearTimeout(editStatusTimer);
+    editStatusTimer = setTimeout(() => {
+      status.style.display = 'none';
+    }, 4000);
+  };
+
   const hideEditPanel = () => {
     if (polygonEditPanelEl) {
       polygonEditPanelEl.style.display = 'none';
@@ -107,6 +173,7 @@ export const createPolygonUi = (deps: {
     // Close any open popovers
     document.getElementById('polygon-edit-height-popover')?.classList.remove('o-active');
     document.getElementById('polygon-edit-color-popover')?.classList.remove('o-active');
+    document.getElementById('polygon-edit-metrics-popover')?.classList.remove('o-active');
     // Hide translate arrows
     hideTranslateArrows();
     // Re-enable the draw toolbar
@@ -126,13 +193,55 @@ export const createPolygonUi = (deps: {
     const heightInput = document.getElementById('polygon-edit-height-input') as HTMLInputElement | null;
     const colorSelect = document.getElementById('polygon-edit-color-select') as HTMLSelectElement | null;
     const opacityButton = document.getElementById('polygon-edit-opacity-toggle') as HTMLButtonElement | null;
+    const verticesButton = document.getElementById('polygon-edit-vertices') as HTMLButtonElement | null;
+    const holeButton = document.getElementById('polygon-edit-hole') as HTMLButtonElement | null;
+    const roofButton = document.getElementById('polygon-edit-roof-button') as HTMLButtonElement | null;
+    const thicknessRow = document.getElementById('polygon-edit-thickness-row') as HTMLElement | null;
+    const thicknessInput = document.getElementById('polygon-edit-thickness-input') as HTMLInputElement | null;
+    const circleRow = document.getElementById('polygon-edit-circle-row') as HTMLElement | null;
+    const radiusInput = document.getElementById('polygon-edit-radius-input') as HTMLInputElement | null;
+    const segmentsInput = document.getElementById('polygon-edit-segments-input') as HTMLInputElement | null;
+    const metricsButton = document.getElementById('polygon-edit-metrics-button') as HTMLButtonElement | null;
+
+    // Several selected polygons share height, colour, rotation, moving and deleting; the rest is edited
+    // one polygon at a time
+    const multiple = Boolean(polygonTool?.isMultipleSelection?.());
 
     if (nameInput) {
-      nameInput.value = polygon.name || '';
+      nameInput.value = multiple ? '' : polygon.name || '';
+      nameInput.disabled = multiple;
+      nameInput.placeholder = multiple ? `${polygonTool?.getSelectedPolygons().length} valda` : 'Namn';
     }
     if (heightInput) {
       heightInput.value = String(polygon.extrudeHeight || 10);
     }
+    // Walls have a thickness instead of holes and roofs
+    if (thicknessRow) {
+      thicknessRow.style.display = polygon.wall && !multiple ? 'flex' : 'none';
+    }
+    if (thicknessInput && polygon.wall) {
+      thicknessInput.value = String(polygon.wall.thickness);
+    }
+    if (holeButton) {
+      holeButton.style.display = polygon.wall || multiple ? 'none' : '';
+    }
+    if (verticesButton) {
+      verticesButton.style.display = multiple ? 'none' : '';
+    }
+    if (metricsButton?.parentElement) {
+      metricsButton.parentElement.style.display = multiple ? 'none' : '';
+    }
+    // Circles keep their radius and segment count until the corners are edited
+    if (circleRow) {
+      circleRow.style.display = polygon.circle && !multiple ? 'flex' : 'none';
+    }
+    if (radiusInput && segmentsInput && polygon.circle) {
+      radiusInput.value = String(Math.round(polygon.circle.radius * 100) / 100);
+      segmentsInput.value = String(polygon.circle.segments);
+    }
+    if (roofButton?.parentElement) {
+      roofButton.parentElement.style.display = polygon.wall || multiple ? 'none' : '';
+    }
     if (colorSelect) {
       // Try to match color
       const colorCss = polygon.color?.toCssColorString?.() || '';
@@ -143,6 +252,142 @@ export const createPolygonUi = (deps: {
       const isOpaque = polygon.fillAlpha >= 0.999;
       opacityButton.classList.toggle('active', isOpaque);
     }
+    if (verticesButton) {
+      verticesButton.classList.toggle('active', Boolean(polygonTool?.isVertexEditing?.()));
+    }
+    if (holeButton) {
+      holeButton.classList.toggle('active', Boolean(polygonTool?.isCuttingHole?.()));
+    }
+    document.getElementById('polygon-edit-mask-tiles')?.classList.toggle('active', Boolean(polygon.maskTiles));
+    writeRoofFields('polygon-edit-roof', polygon.roof);
+    writeMaterialFields(polygon.material);
+    // Walls follow the terrain point by point
+    const baseRow = document.getElementById('polygon-edit-base-row');
+    if (baseRow) baseRow.style.display = polygon.wall ? 'none' : 'flex';
+    writeBaseFields('polygon-edit-base', polygon.baseMode ?? 'clicked', polygon.baseHeight - (geoidHeight ?? 0));
+    renderMetrics();
+  };
+
+  // Existing buildings are hidden under the footprints of the polygons that replace them
+  const updateFootprintMask = () => {
+    const footprints = (polygonTool?.getAllPolygons() ?? [])
+      .filter((p: PolygonData) => p.maskTiles)
+      .map((p: PolygonData) => p.positions);
+    footprintMask?.setFootprints(footprints);
+  };
+
+  const formatNumber = (value: number, decimals: number) =>
+    value.toLocaleString('sv-SE', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+  // Metrics of the selected polygon, only while the metrics popover is open
+  const renderMetrics = () => {
+    const popover = document.getElementById('polygon-edit-metrics-popover');
+    const table = document.getElementById('polygon-edit-metrics-table');
+    const selected = polygonTool?.getSelectedPolygon?.() as PolygonData | null | undefined;
+    if (!popover?.classList.contains('o-active') || !table || !selected) return;
+
+    const metrics = computePolygonMetrics(selected, { storeyHeight, crs: metricsCrs });
+    const rows: Array<[string, string]> = [
+      ['Yta (ellipsoid)', `${formatNumber(metrics.area, 1)} m²`],
+      ...(metrics.gridArea !== undefined ? [[`Yta (${metrics.gridCrs})`, `${formatNumber(metrics.gridArea, 1)} m²`] as [string, string]] : []),
+      ['Omkrets', `${formatNumber(metrics.perimeter, 2)} m`],
+      ['Kanter', metrics.edges.map(length => formatNumber(length, 2)).join(' · ') + ' m'],
+      ...(metrics.roofHeight > 0 ? [['Nockhöjd över takfot', `${formatNumber(metrics.roofHeight, 2)} m`] as [string, string]] : []),
+      ['Volym', `${formatNumber(metrics.volume, 0)} m³`],
+      ['Våningar (uppskattat)', String(metrics.storeys)],
+      ['BTA (uppskattat)', `${formatNumber(metrics.grossFloorArea, 0)} m²`],
+    ];
+    table.innerHTML = rows
+      .map(([label, value]) => `<tr><td style="padding: 1px 8px 1px 0; color: #555;">${label}</td><td style="padding: 1px 0; text-align: right; white-space: normal; max-width: 16rem;">${value}</td></tr>`)
+      .join('');
+  };
+
+  // Material fields of the edit panel; null = the polygon's colour
+  const readMaterialFields = (): MaterialOptions | null => {
+    const facade = (document.getElementById('polygon-edit-material-facade') as HTMLSelectElement | null)?.value;
+    const roof = (document.getElementById('polygon-edit-material-roof') as HTMLSelectElement | null)?.value;
+    const windows = (document.getElementById('polygon-edit-material-windows') as HTMLSelectElement | null)?.value;
+    const storeyInput = document.getElementById('polygon-edit-material-storey-height') as HTMLInputElement | null;
+    if (!facade && !roof && (!windows || windows === 'none')) return null;
+    const storey = parseFloat(storeyInput?.value ?? '');
+    return {
+      ...(facade ? { facade: facade as MaterialType } : {}),
+      ...(roof ? { roof: roof as MaterialType } : {}),
+      ...(windows && windows !== 'none' ? { windows: windows as WindowPattern } : {}),
+      ...(storey > 0 ? { storeyHeight: storey } : {}),
+    };
+  };
+
+  const writeMaterialFields = (material: MaterialOptions | undefined) => {
+    const facadeSelect = document.getElementById('polygon-edit-material-facade') as HTMLSelectElement | null;
+    const roofSelect = document.getElementById('polygon-edit-material-roof') as HTMLSelectElement | null;
+    const windowsSelect = document.getElementById('polygon-edit-material-windows') as HTMLSelectElement | null;
+    const storeyInput = document.getElementById('polygon-edit-material-storey-height') as HTMLInputElement | null;
+    if (facadeSelect) facadeSelect.value = material?.facade ?? '';
+    if (roofSelect) roofSelect.value = material?.roof ?? '';
+    if (windowsSelect) windowsSelect.value = material?.windows ?? 'none';
+    if (storeyInput) storeyInput.value = String(material?.storeyHeight ?? storeyHeight);
+  };
+
+  // Roof fields of the toolbar ('polygon-roof') or edit panel ('polygon-edit-roof') popover; null = flat
+  const readRoofFields = (idPrefix: string): RoofOptions | null => {
+    const typeSelect = document.getElementById(`${idPrefix}-type`) as HTMLSelectElement | null;
+    const heightInput = document.getElementById(`${idPrefix}-height`) as HTMLInputElement | null;
+    const directionInput = document.getElementById(`${idPrefix}-direction`) as HTMLInputElement | null;
+    const type = typeSelect?.value as RoofType | undefined;
+    const height = parseFloat(heightInput?.value ?? '');
+    if (!type || type === 'flat' || ROOF_TYPES.indexOf(type) === -1 || !(height > 0)) return null;
+    const direction = parseFloat(directionInput?.value ?? '');
+    return { type, height, ...(isFinite(direction) ? { direction } : {}) };
+  };
+
+  const writeRoofFields = (idPrefix: string, roof: RoofOptions | null | undefined) => {
+    const typeSelect = document.getElementById(`${idPrefix}-type`) as HTMLSelectElement | null;
+    const heightInput = document.getElementById(`${idPrefix}-height`) as HTMLInputElement | null;
+    const directionInput = document.getElementById(`${idPrefix}-direction`) as HTMLInputElement | null;
+    if (typeSelect) typeSelect.value = roof?.type ?? 'flat';
+    // Flat roofs keep the last height, so picking a type again starts from it
+    if (heightInput && roof) heightInput.value = String(roof.height);
+    if (directionInput) directionInput.value = roof?.direction !== undefined ? String(Math.round(roof.direction * 10) / 10) : '';
+  };
+
+  // Base height fields of the toolbar ('polygon-base') or edit panel ('polygon-edit-base') height popover
+  const readBaseFields = (idPrefix: string): { mode: BaseHeightMode; fixedHeight?: number } => {
+    const modeSelect = document.getElementById(`${idPrefix}-mode`) as HTMLSelectElement | null;
+    const fixedInput = document.getElementById(`${idPrefix}-fixed`) as HTMLInputElement | null;
+    const mode = (modeSelect?.value ?? 'clicked') as BaseHeightMode;
+    const fixedHeight = parseFloat(fixedInput?.value ?? '');
+    return { mode, ...(isFinite(fixedHeight) ? { fixedHeight } : {}) };
+  };
+
+  const writeBaseFields = (idPrefix: string, mode: BaseHeightMode, fixedHeight: number) => {
+    const modeSelect = document.getElementById(`${idPrefix}-mode`) as HTMLSelectElement | null;
+    const fixedInput = document.getElementById(`${idPrefix}-fixed`) as HTMLInputElement | null;
+    const fixedRow = document.getElementById(`${idPrefix}-fixed-row`);
+    if (modeSelect) {
+      modeSelect.value = mode;
+      // A fixed base from an imported file while fixed heights are not offered
+      if (modeSelect.value !== mode) modeSelect.value = 'clicked';
+    }
+    if (fixedInput) fixedInput.value = String(Math.round(fixedHeight * 100) / 100);
+    if (fixedRow) fixedRow.style.display = mode === 'fixed' ? 'flex' : 'none';
+  };
+
+  // Calls `onChange` when the base height mode or the fixed height is edited
+  const watchBaseFields = (idPrefix: string, onChange: () => void) => {
+    document.getElementById(`${idPrefix}-mode`)?.addEventListener('change', () => {
+      const fixedRow = document.getElementById(`${idPrefix}-fixed-row`);
+      if (fixedRow) fixedRow.style.display = readBaseFields(idPrefix).mode === 'fixed' ? 'flex' : 'none';
+      onChange();
+    });
+    document.getElementById(`${idPrefix}-fixed`)?.addEventListener('input', onChange);
+  };
+
+  // Calls `onChange` when any of the roof fields is edited
+  const watchRoofFields = (idPrefix: string, onChange: () => void) => {
+    document.getElementById(`${idPrefix}-type`)?.addEventListener('change', onChange);
+    document.getElementById(`${idPrefix}-height`)?.addEventListener('input', onChange);
+    document.getElementById(`${idPrefix}-direction`)?.addEventListener('input', onChange);
   };
 
   const getColorNameFromCss = (css: string): string => {
@@ -174,16 +419,18 @@ export const createPolygonUi = (deps: {
   const updateTranslateArrowsPosition = () => {
     if (!polygonTranslateArrowsEl || !selectedPolygonForArrows || !scene) return;
 
-    const polygon = selectedPolygonForArrows;
-    
+    // The handle follows the whole selection (and the groups of selected polygons)
+    const selection: PolygonData[] = polygonTool?.getSelectedPolygons?.() ?? [];
+    const polygons = selection.length ? selection : [selectedPolygonForArrows];
+
     // Calculate centroid of polygon positions
-    const positions = polygon.positions;
-    if (!positions || positions.length === 0) return;
+    const positions = ([] as Cesium.Cartesian3[]).concat(...polygons.map(p => p.positions || []));
+    if (positions.length === 0) return;
 
     const centroid = Cesium.Cartesian3.fromRadians(
       positions.reduce((sum, p) => sum + Cesium.Cartographic.fromCartesian(p).longitude, 0) / positions.length,
       positions.reduce((sum, p) => sum + Cesium.Cartographic.fromCartesian(p).latitude, 0) / positions.length,
-      polygon.baseHeight + polygon.extrudeHeight / 2
+      polygons.reduce((sum, p) => sum + p.baseHeight + p.extrudeHeight / 2, 0) / polygons.length
     );
 
     // Convert to screen coordinates
@@ -203,6 +450,68 @@ export const createPolygonUi = (deps: {
     polygonTranslateArrowsEl.style.display = 'block';
   };
 
+  // The typed segment panel is shown while drawing polygons and rectangles
+  const updateSegmentInput = () => {
+    if (!segmentInputEl) return;
+    segmentInputEl.style.display = polygonToolIsDrawing || rectangleToolIsDrawing ? 'flex' : 'none';
+  };
+
+  const mountSegmentInputIfNeeded = () => {
+    if (segmentInputEl) return;
+    segmentInputEl = injectIntoMap(segmentInputHtml()) ?? null;
+    if (!segmentInputEl) return;
+
+    const lengthInput = document.getElementById('polygon-segment-length') as HTMLInputElement | null;
+    const angleInput = document.getElementById('polygon-segment-angle') as HTMLInputElement | null;
+    const angleModeSelect = document.getElementById('polygon-segment-angle-mode') as HTMLSelectElement | null;
+    const addButton = document.getElementById('polygon-segment-add') as HTMLButtonElement | null;
+
+    const readSegment = () => {
+      const length = parseFloat(lengthInput?.value ?? '');
+      const angle = parseFloat(angleInput?.value ?? '');
+      return {
+        length: Number.isFinite(length) ? length : undefined,
+        angle: Number.isFinite(angle) ? angle : undefined,
+        relative: angleModeSelect?.value === 'turn',
+      };
+    };
+
+    const addSegment = () => {
+      if (!polygonTool?.addSegment(readSegment())) return;
+      if (lengthInput) lengthInput.value = '';
+      if (angleInput) angleInput.value = '';
+      lengthInput?.focus();
+      requestSceneRender();
+    };
+
+    [lengthInput, angleInput, angleModeSelect].forEach(el => el?.addEventListener('input', () => {
+      polygonTool?.previewSegment(readSegment());
+      requestSceneRender();
+    }));
+    [lengthInput, angleInput].forEach(el => el?.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key !== 'Enter') return;
+      e.preventDefault();
+      addSegment();
+    }));
+    addButton?.addEventListener('click', (e) => {
+      stopDomEvent(e);
+      addSegment();
+    });
+    // Keep clicks and typing in the panel away from the map
+    ['click', 'mousedown', 'pointerdown', 'dblclick'].forEach(type => segmentInputEl?.addEventListener(type, (e) => e.stopPropagation()));
+
+    // Typing a number while drawing starts the length
+    const onDigitKey = (e: KeyboardEvent) => {
+      if (!segmentInputEl || segmentInputEl.style.display === 'none' || !lengthInput) return;
+      if (e.ctrlKey || e.metaKey || e.altKey || !/^[0-9]$/.test(e.key)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(target.tagName) !== -1)) return;
+      lengthInput.focus();
+    };
+    document.addEventListener('keydown', onDigitKey, true);
+    registerCleanup(() => document.removeEventListener('keydown', onDigitKey, true));
+  };
+
   const mountTranslateArrowsIfNeeded = () => {
     if (polygonTranslateArrowsEl) return;
     if (!scene) return;
@@ -387,6 +696,21 @@ export const createPolygonUi = (deps: {
         }
       }
 
+      // Stop wall drawing if active
+      if (wallToolIsDrawing) {
+        polygonTool.stopDrawingWall();
+        wallToolIsDrawing = false;
+        document.getElementById('wall-draw')?.classList.remove('active');
+      }
+
+      // Stop circle drawing if active
+      if (circleToolIsDrawing) {
+        polygonTool.stopDrawingCircle();
+        circleToolIsDrawing = false;
+        document.getElementById('circle-draw')?.classList.remove('active');
+      }
+      updateSegmentInput();
+
       const heightInput = document.getElementById('polygon-height-compact') as HTMLInputElement | null;
       if (heightInput) {
         heightInput.disabled = false;
@@ -395,6 +719,44 @@ export const createPolygonUi = (deps: {
     }
   };
 
+  // Fly the camera to the extent of the given polygons
+  const flyToPolygons = (polygons: PolygonData[]) => {
+    const allPositions: Cesium.Cartesian3[] = [];
+    for (const polygon of polygons) {
+      allPositions.push(...polygon.positions);
+    }
+    if (!allPositions.length) return;
+
+    const rect = Cesium.Rectangle.fromCartesianArray(allPositions);
+
+    // Pad the extent so we don't zoom in too tight
+    const width = rect.east - rect.west;
+    const height = rect.north - rect.south;
+    const minPad = Cesium.Math.toRadians(0.002);
+    const padX = Math.max(Math.abs(width) * 0.25, minPad);
+    const padY = Math.max(Math.abs(height) * 0.25, minPad);
+
+    const paddedRect = new Cesium.Rectangle(
+      Math.max(-Math.PI, rect.west - padX),
+      Math.max(-Cesium.Math.PI_OVER_TWO, rect.south - padY),
+      Math.min(Math.PI, rect.east + padX),
+      Math.min(Cesium.Math.PI_OVER_TWO, rect.north + padY)
+    );
+
+    scene.camera.flyTo({
+      destination: paddedRect,
+      duration: 2.0,
+      complete: requestSceneRender,
+    });
+    requestSceneRender();
+  };
+
+  // Exports are of the active scenario and carry its name once there are several
+  const exportBaseName = () => {
+    if (!scenarios || scenarios.list().length < 2) return 'drawn_polygons';
+    return `drawn_polygons_${scenarios.getActiveName().replace(/[^a-zA-Z0-9åäöÅÄÖ_-]+/g, '_')}`;
+  };
+
   const mountPolygonToolbarIfNeeded = () => {
     if (polygonToolbarEl) return;
     if (!scene) return;
@@ -402,32 +764,95 @@ export const createPolygonUi = (deps: {
     const toolbarOptions: PolygonToolbarOptions = {
       showGeojson,
       showDxf,
+      showGlb,
+      showCityJson,
+      showKml,
+      showCsv,
       dxfCrs,
       showShare,
+      showImport,
+      showClearSessions: !!clearStoredSessions,
+      showScenarios,
+      showFixedBase,
     };
     polygonToolbarEl = injectIntoMap(polygonToolbarHtml(toolbarOptions)) ?? null;
     if (!polygonToolbarEl) return;
     polygonToolbarEl.style.display = 'none';
+    mountSegmentInputIfNeeded();
 
     const drawButton = document.getElementById('polygon-draw') as HTMLButtonElement | null;
     const rectangleButton = document.getElementById('rectangle-draw') as HTMLButtonElement | null;
+    const wallButton = document.getElementById('wall-draw') as HTMLButtonElement | null;
+    const wallThicknessInput = document.getElementById('polygon-wall-thickness') as HTMLInputElement | null;
+    const circleButton = document.getElementById('circle-draw') as HTMLButtonElement | null;
+    const circleSegmentsInput = document.getElementById('polygon-circle-segments') as HTMLInputElement | null;
+    const snapButton = document.getElementById('polygon-snap-button') as HTMLButtonElement | null;
+    const coordinatesButton = document.getElementById('polygon-coordinates-button') as HTMLButtonElement | null;
+    const coordinatesPopover = document.getElementById('polygon-coordinates-popover') as HTMLElement | null;
+    const coordinatesText = document.getElementById('polygon-coordinates-text') as HTMLTextAreaElement | null;
+    const coordinatesCrsSelect = document.getElementById('polygon-coordinates-crs') as HTMLSelectElement | null;
+    const coordinatesOrderSelect = document.getElementById('polygon-coordinates-order') as HTMLSelectElement | null;
+    const coordinatesCreateButton = document.getElementById('polygon-coordinates-create') as HTMLButtonElement | null;
+    const coordinatesStatus = document.getElementById('polygon-coordinates-status') as HTMLElement | null;
+    const snapPopover = document.getElementById('polygon-snap-popover') as HTMLElement | null;
     const heightButton = document.getElementById('polygon-height-button') as HTMLButtonElement | null;
     const heightPopover = document.getElementById('polygon-height-popover') as HTMLElement | null;
+    const roofButton = document.getElementById('polygon-roof-button') as HTMLButtonElement | null;
+    const roofPopover = document.getElementById('polygon-roof-popover') as HTMLElement | null;
     const colorButton = document.getElementById('polygon-color-button') as HTMLButtonElement | null;
     const colorPopover = document.getElementById('polygon-color-popover') as HTMLElement | null;
     const colorSelect = document.getElementById('polygon-color-select') as HTMLSelectElement | null;
     const opacityButton = document.getElementById('polygon-opacity-toggle') as HTMLButtonElement | null;
     const clearButton = document.getElementById('polygon-clear-compact') as HTMLButtonElement | null;
+    const clearSessionsButton = document.getElementById('polygon-clear-sessions') as HTMLButtonElement | null;
     const downloadButton = document.getElementById('polygon-download-button') as HTMLButtonElement | null;
     const downloadPopover = document.getElementById('polygon-download-popover') as HTMLElement | null;
     const downloadGeojsonButton = document.getElementById('polygon-download-geojson') as HTMLButtonElement | null;
+    const downloadGlbButton = document.getElementById('polygon-download-glb') as HTMLButtonElement | null;
+    const downloadKmlButton = document.getElementById('polygon-download-kml') as HTMLButtonElement | null;
+    const downloadKmzButton = document.getElementById('polygon-download-kmz') as HTMLButtonElement | null;
+    const downloadCsvButton = document.getElementById('polygon-download-csv') as HTMLButtonElement | null;
+    const importButton = document.getElementById('polygon-import-button') as HTMLButtonElement | null;
+    const importPopover = document.getElementById('polygon-import-popover') as HTMLElement | null;
+    const importDropzone = document.getElementById('polygon-import-dropzone') as HTMLElement | null;
+    const importFileInput = document.getElementById('polygon-import-file') as HTMLInputElement | null;
+    const importDxfCrsSelect = document.getElementById('polygon-import-dxf-crs') as HTMLSelectElement | null;
+    const importStatus = document.getElementById('polygon-import-status') as HTMLElement | null;
     const shareButton = document.getElementById('polygon-share') as HTMLButtonElement | null;
+    const scenariosButton = document.getElementById('polygon-scenarios-button') as HTMLButtonElement | null;
+    const scenariosPopover = document.getElementById('polygon-scenarios-popover') as HTMLElement | null;
+    const scenariosList = document.getElementById('polygon-scenarios-list') as HTMLElement | null;
+    const scenariosNewButton = document.getElementById('polygon-scenarios-new') as HTMLButtonElement | null;
+    const scenariosCompareSelect = document.getElementById('polygon-scenarios-compare') as HTMLSelectElement | null;
+    const scenariosCompareColor = document.getElementById('polygon-scenarios-compare-color') as HTMLSelectElement | null;
     const toggleLabelsButton = document.getElementById('polygon-toggle-labels') as HTMLButtonElement | null;
+    const undoButton = document.getElementById('polygon-undo') as HTMLButtonElement | null;
+    const redoButton = document.getElementById('polygon-redo') as HTMLButtonElement | null;
     const heightInput = document.getElementById('polygon-height-compact') as HTMLInputElement | null;
 
     polygonTool = polygonDrawTool(scene);
+    if (maskConfig) footprintMask = createFootprintMask(scene, map, maskConfig);
+    polygonTool.onPolygonsChange(() => {
+      renderMetrics();
+      updateFootprintMask();
+      polygonsChangeCallback?.();
+    });
+    polygonTool.onEditError(showEditStatus);
+    if (showScenarios) {
+      scenarios = createScenarioManager({
+        scene,
+        getActivePolygons: getPolygonsGeoJSON,
+        loadActivePolygons: (geojson) => replaceActivePolygons(geojson),
+      });
+      scenarios.onChange(() => {
+        renderScenarioList?.();
+        polygonsChangeCallback?.();
+      });
+    }
     polygonToolIsDrawing = false;
     rectangleToolIsDrawing = false;
+    wallToolIsDrawing = false;
+    circleToolIsDrawing = false;
 
     // Apply defaults from config
     try {
@@ -437,6 +862,11 @@ export const createPolygonUi = (deps: {
     } catch {
       // ignore
     }
+    polygonTool.setSnapping(snapping);
+    polygonTool.setSnapTileEdges(snapTileEdges);
+    if (snapTolerance !== undefined) polygonTool.setSnapTolerance(snapTolerance);
+    if (geoidHeight !== undefined) polygonTool.setGeoidHeight(geoidHeight);
+    if (baseHeightMode) polygonTool.setBaseHeightMode(baseHeightMode);
 
     // Set default height in input
     if (heightInput) {
@@ -475,7 +905,15 @@ export const createPolygonUi = (deps: {
         }
       };
 
-      const onPopoverClick = (e: Event) => stopDomEvent(e);
+      const onPopoverClick = (e: Event) => {
+        // Checkboxes, labels and file inputs need their default click action
+        const target = e.target as HTMLElement | null;
+        if (target instanceof HTMLInputElement || target?.closest('label')) {
+          e.stopPropagation();
+          return;
+        }
+        stopDomEvent(e);
+      };
       const onButtonClick = (e: Event) => {
         stopDomEvent(e);
 
@@ -520,40 +958,222 @@ export const createPolygonUi = (deps: {
         if (!polygonTool) return;
         const geojson = polygonTool.getGeoJSON();
         const blob = new Blob([JSON.stringify(geojson, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'drawn_polygons_EPSG4326.geojson';
-        document.body.appendChild(a);
-        a.click();
-        setTimeout(() => {
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-        }, 100);
+        downloadBlob(blob, `${exportBaseName()}_EPSG4326.geojson`);
+        // Close popover
+        downloadPopover?.classList.remove('o-active');
+      });
+    }
+
+    // Import popover: file picker and drag-and-drop (also onto the toolbar itself)
+    attachPopoverToggle(importButton, importPopover, {
+      onOpen: () => {
+        if (importStatus) importStatus.style.display = 'none';
+      },
+    });
+
+    const setImportStatus = (message: string, isError: boolean) => {
+      if (!importStatus) return;
+      importStatus.textContent = message;
+      importStatus.style.color = isError ? '#c62828' : '#2e7d32';
+      importStatus.style.display = 'block';
+    };
+
+    const importFiles = async (files: FileList | null) => {
+      if (!polygonTool || !files || !files.length) return;
+
+      const mapProjection = map?.getView?.()?.getProjection?.()?.getCode?.();
+      const importHeight = parseFloat(heightInput?.value ?? '');
+      const imported: PolygonData[] = [];
+      const errors: string[] = [];
+
+      for (const file of Array.from(files)) {
+        try {
+          const parseOptions = {
+            fallbackCrs: mapProjection,
+            dxfCrs: importDxfCrsSelect?.value,
+            dxfHeightOffset: importDxfCrsSelect ? heightOffsetFor(importDxfCrsSelect.value) : 0,
+            heightOffsetFor,
+            defaultHeight: Number.isFinite(importHeight) && importHeight > 0 ? importHeight : defaultHeight,
+          };
+          const geojson = /\.kmz$/i.test(file.name)
+            ? parseKMZ(await file.arrayBuffer(), parseOptions)
+            : parsePolygonFile(file.name, await file.text(), parseOptions);
+          const polygons: PolygonData[] = polygonTool.importGeoJSON(geojson);
+          if (!polygons.length) {
+            errors.push(`${file.name}: inga polygoner hittades`);
+          }
+          imported.push(...polygons);
+        } catch (e) {
+          console.warn(`[Globe] Could not import ${file.name}:`, e);
+          errors.push(`${file.name}: ${e instanceof Error ? e.message : 'kunde inte läsas'}`);
+        }
+      }
+
+      if (errors.length) {
+        setImportStatus(errors.join('\n'), true);
+      } else {
+        setImportStatus(`${imported.length} polygon${imported.length === 1 ? '' : 'er'} importerade`, false);
+      }
+
+      if (imported.length) {
+        flyToPolygons(imported);
+      }
+      requestSceneRender();
+    };
+
+    // Coordinates popover: a polygon from a pasted list of corners
+    attachPopoverToggle(coordinatesButton, coordinatesPopover, {
+      onOpen: () => {
+        if (coordinatesStatus) coordinatesStatus.style.display = 'none';
+        coordinatesText?.focus();
+      },
+    });
+
+    const setCoordinatesStatus = (message: string, isError: boolean) => {
+      if (!coordinatesStatus) return;
+      coordinatesStatus.textContent = message;
+      coordinatesStatus.style.color = isError ? '#c62828' : '#2e7d32';
+      coordinatesStatus.style.display = 'block';
+    };
+
+    coordinatesCreateButton?.addEventListener('click', () => {
+      if (!polygonTool || !coordinatesText || !coordinatesCrsSelect) return;
+      const crs = coordinatesCrsSelect.value;
+      try {
+        const { coordinates, errors } = parseCoordinateList(
+          coordinatesText.value, crs, (coordinatesOrderSelect?.value || 'auto') as CoordinateOrder);
+        if (errors.length) {
+          setCoordinatesStatus(errors.join('\n'), true);
+          return;
+        }
+        if (coordinates.length < 3) {
+          setCoordinatesStatus('Ange minst tre punkter', true);
+          return;
+        }
+        polygonTool.setHeight(parseFloat(heightInput?.value ?? '') || defaultHeight);
+        const polygon: PolygonData | null = polygonTool.createPolygonFromCoordinates(coordinates, heightOffsetFor(crs));
+        if (!polygon) {
+          setCoordinatesStatus('Polygonen kunde inte skapas', true);
+          return;
+        }
+        setCoordinatesStatus(`${polygon.name} skapad (${coordinates.length} hörn)`, false);
+        coordinatesText.value = '';
+        flyToPolygons([polygon]);
+      } catch (e) {
+        console.warn('[Globe] Could not create polygon from coordinates:', e);
+        setCoordinatesStatus(e instanceof Error ? e.message : 'Koordinaterna kunde inte läsas', true);
+      }
+      requestSceneRender();
+    });
+
+    if (importDropzone && importFileInput) {
+      importDropzone.addEventListener('click', () => importFileInput.click());
+      importFileInput.addEventListener('change', () => {
+        importFiles(importFileInput.files).then(() => {
+          importFileInput.value = '';
+        });
+      });
+    }
+
+    if (showImport) {
+      const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).indexOf('Files') !== -1;
+      const setDropHighlight = (active: boolean) => {
+        if (importDropzone) importDropzone.style.borderColor = active ? 'hsl(210, 100%, 40%)' : '#ccc';
+      };
+
+      polygonToolbarEl.addEventListener('dragover', (e: DragEvent) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+        setDropHighlight(true);
+      });
+      polygonToolbarEl.addEventListener('dragleave', () => setDropHighlight(false));
+      polygonToolbarEl.addEventListener('drop', (e: DragEvent) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDropHighlight(false);
+        importPopover?.classList.add('o-active');
+        importFiles(e.dataTransfer?.files ?? null);
+      });
+    }
+
+    if (downloadGlbButton) {
+      downloadGlbButton.addEventListener('click', () => {
+        if (!polygonTool) return;
+        const glb = polygonTool.getGLB();
+        if (!glb) return;
+        const blob = new Blob([glb], { type: 'model/gltf-binary' });
+        downloadBlob(blob, `${exportBaseName()}.glb`);
         // Close popover
         downloadPopover?.classList.remove('o-active');
       });
     }
 
+    const downloadKml = (kmz: boolean) => {
+      if (!polygonTool) return;
+      const blob = kmz
+        ? new Blob([polygonTool.getKMZ()], { type: 'application/vnd.google-earth.kmz' })
+        : new Blob([polygonTool.getKML()], { type: 'application/vnd.google-earth.kml+xml' });
+      downloadBlob(blob, `${exportBaseName()}.${kmz ? 'kmz' : 'kml'}`);
+      // Close popover
+      downloadPopover?.classList.remove('o-active');
+    };
+    downloadKmlButton?.addEventListener('click', () => downloadKml(false));
+    downloadKmzButton?.addEventListener('click', () => downloadKml(true));
+
+    downloadCsvButton?.addEventListener('click', () => {
+      if (!polygonTool) return;
+      const csv = buildMetricsCsv(polygonTool.getAllPolygons(), { storeyHeight, crs: metricsCrs });
+      // BOM so Excel reads the file as UTF-8
+      const blob = new Blob(['\ufeff', csv], { type: 'text/csv;charset=utf-8' });
+      downloadBlob(blob, `${exportBaseName()}_schema.csv`);
+      // Close popover
+      downloadPopover?.classList.remove('o-active');
+    });
+
     // Wire up dynamic DXF buttons
     const dxfButtons = document.querySelectorAll('.polygon-download-dxf-btn');
     dxfButtons.forEach((btn) => {
       btn.addEventListener('click', () => {
         if (!polygonTool) return;
         const crs = (btn as HTMLElement).dataset.crs || 'EPSG:3006';
-        const dxf = polygonTool.getDXF(crs);
+        let dxf: string;
+        try {
+          const polyfaceCheckbox = document.getElementById('polygon-download-dxf-polyface') as HTMLInputElement | null;
+          dxf = polygonTool.getDXF(crs, {
+            heightOffset: heightOffsetFor(crs),
+            polyfaceMesh: !!polyfaceCheckbox?.checked,
+          });
+        } catch (e) {
+          console.error('[Globe] DXF export failed:', e);
+          alert(`Kunde inte exportera DXF: ${e instanceof Error ? e.message : e}`);
+          return;
+        }
         const blob = new Blob([dxf], { type: 'application/dxf' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
         const safeCrs = crs.replace(/[^a-zA-Z0-9]/g, '_');
-        a.download = `drawn_polygons_${safeCrs}.dxf`;
-        document.body.appendChild(a);
-        a.click();
-        setTimeout(() => {
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-        }, 100);
+        downloadBlob(blob, `${exportBaseName()}_${safeCrs}.dxf`);
+        // Close popover
+        downloadPopover?.classList.remove('o-active');
+      });
+    });
+
+    // Wire up dynamic CityJSON buttons
+    const cityJsonButtons = document.querySelectorAll('.polygon-download-cityjson-btn');
+    cityJsonButtons.forEach((btn) => {
+      btn.addEventListener('click', () => {
+        if (!polygonTool) return;
+        const crs = (btn as HTMLElement).dataset.crs || 'EPSG:3006';
+        let cityJson: any;
+        try {
+          cityJson = polygonTool.getCityJSON(crs, { heightOffset: heightOffsetFor(crs), verticalCrs: verticalCrsFor(crs) });
+        } catch (e) {
+          console.error('[Globe] CityJSON export failed:', e);
+          alert(`Kunde inte exportera CityJSON: ${e instanceof Error ? e.message : e}`);
+          return;
+        }
+        const blob = new Blob([JSON.stringify(cityJson)], { type: 'application/city+json' });
+        const safeCrs = crs.replace(/[^a-zA-Z0-9]/g, '_');
+        downloadBlob(blob, `${exportBaseName()}_${safeCrs}.city.json`);
         // Close popover
         downloadPopover?.classList.remove('o-active');
       });
@@ -631,32 +1251,48 @@ export const createPolygonUi = (deps: {
       setTimeout(closePopup, 3000);
     };
 
-    if (shareButton) {
-      shareButton.addEventListener('click', async () => {
-        if (!polygonTool) return;
-        // All polygons (including imported shared ones) are now in polygonTool
-        const geojson = polygonTool.getGeoJSON();
-        const features = Array.isArray(geojson?.features) ? geojson.features : [];
-
-        if (features.length === 0) {
-          shareButton.title = 'No polygons to share';
-          return;
-        }
-
-        const roundedGeojson = roundGeoJsonForShare({ type: 'FeatureCollection', features }, 6);
-        const encoded = encodeCompressedJsonToBase64Url(roundedGeojson);
+    // Shares the scene with the given polygons, by default those of the active scenario
+    const shareScene = async (geojson: GeoJsonFeatureCollection, scenarioName?: string) => {
+      const features = Array.isArray(geojson?.features) ? geojson.features : [];
 
-        const url = new URL(window.location.href);
-        url.searchParams.set('display3dDrawing', 'true');
-        url.searchParams.set('polygon', encoded);
+      if (features.length === 0 && !getSceneState) {
+        if (shareButton) shareButton.title = 'No polygons to share';
+        return;
+      }
 
-        const shareUrl = url.toString();
-        try {
-          await navigator.clipboard.writeText(shareUrl);
-          showSharePopup();
-        } catch {
-          window.prompt('Kopiera denna länk:', shareUrl);
+      const state: SceneState = {
+        v: SCENE_STATE_VERSION,
+        ...getSceneState?.(),
+        ...(features.length ? { polygons: { type: 'FeatureCollection', features } } : {}),
+        ...(features.length && scenarioName ? { scenario: scenarioName } : {}),
+      };
+      const fullUrl = buildSceneShareUrl(state);
+      const shareUrl = shareEndpoint
+        ? createShortShareUrl(shareEndpoint, state).catch(e => {
+          console.warn('[Globe] Short share link failed, using the full URL', e);
+          return fullUrl;
+        })
+        : Promise.resolve(fullUrl);
+      try {
+        // Handing the clipboard a pending item keeps the write inside the click's user gesture
+        if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+          await navigator.clipboard.write([
+            new ClipboardItem({ 'text/plain': shareUrl.then(url => new Blob([url], { type: 'text/plain' })) }),
+          ]);
+        } else {
+          await navigator.clipboard.writeText(await shareUrl);
         }
+        showSharePopup();
+      } catch {
+        window.prompt('Kopiera denna länk:', await shareUrl);
+      }
+    };
+
+    if (shareButton) {
+      shareButton.addEventListener('click', () => {
+        // All polygons (including imported shared ones) are now in polygonTool
+        if (!polygonTool) return;
+        void shareScene(getPolygonsGeoJSON(), scenarios?.getActiveName());
       });
     }
 
@@ -692,6 +1328,21 @@ export const createPolygonUi = (deps: {
       },
     });
 
+    attachPopoverToggle(snapButton, snapPopover);
+    watchSnapFields('polygon-snap', polygonTool);
+
+    attachPopoverToggle(roofButton, roofPopover);
+    watchRoofFields('polygon-roof', () => {
+      polygonTool?.setRoof(readRoofFields('polygon-roof'));
+    });
+
+    const defaultBase = polygonTool.getBaseHeightMode();
+    writeBaseFields('polygon-base', defaultBase.mode, defaultBase.fixedHeight);
+    watchBaseFields('polygon-base', () => {
+      const { mode, fixedHeight } = readBaseFields('polygon-base');
+      polygonTool?.setBaseHeightMode(mode, fixedHeight);
+    });
+
     attachPopoverToggle(colorButton, colorPopover);
 
     if (colorSelect) {
@@ -742,8 +1393,18 @@ export const createPolygonUi = (deps: {
       });
     }
 
-    // Helper to stop both drawing modes
+    // Helper to stop all drawing modes
     const stopAllDrawing = () => {
+      if (circleToolIsDrawing) {
+        polygonTool?.stopDrawingCircle();
+        circleToolIsDrawing = false;
+        circleButton?.classList.remove('active');
+      }
+      if (wallToolIsDrawing) {
+        polygonTool?.stopDrawingWall();
+        wallToolIsDrawing = false;
+        wallButton?.classList.remove('active');
+      }
       if (polygonToolIsDrawing && typeof (polygonTool as any).stopDrawing === 'function') {
         (polygonTool as any).stopDrawing();
         polygonToolIsDrawing = false;
@@ -754,11 +1415,20 @@ export const createPolygonUi = (deps: {
         rectangleToolIsDrawing = false;
         rectangleButton?.classList.remove('active');
       }
+      updateSegmentInput();
     };
 
     // ESC key cancels drawing
     const onEscKey = (e: KeyboardEvent) => {
-      if (e.code === 'Escape' && (polygonToolIsDrawing || rectangleToolIsDrawing)) {
+      if (e.code === 'Escape' && polygonTool?.isCuttingHole?.()) {
+        e.preventDefault();
+        e.stopPropagation();
+        polygonTool.stopCuttingHole();
+        requestSceneRender();
+        return;
+      }
+
+      if (e.code === 'Escape' && (polygonToolIsDrawing || rectangleToolIsDrawing || wallToolIsDrawing || circleToolIsDrawing)) {
         e.preventDefault();
         e.stopPropagation();
         
@@ -774,17 +1444,58 @@ export const createPolygonUi = (deps: {
     document.addEventListener('keydown', onEscKey, true); // Use capture phase
     registerCleanup(() => document.removeEventListener('keydown', onEscKey, true));
 
+    // Undo/redo buttons follow the tool's history state
+    const setHistoryButtonEnabled = (btn: HTMLButtonElement | null, enabled: boolean) => {
+      if (!btn) return;
+      btn.disabled = !enabled;
+      btn.style.opacity = enabled ? '1' : '0.4';
+    };
+
+    polygonTool.onHistoryChange(({ canUndo, canRedo }: { canUndo: boolean; canRedo: boolean }) => {
+      setHistoryButtonEnabled(undoButton, canUndo);
+      setHistoryButtonEnabled(redoButton, canRedo);
+    });
+
+    undoButton?.addEventListener('click', () => {
+      polygonTool?.undo();
+      requestSceneRender();
+    });
+
+    redoButton?.addEventListener('click', () => {
+      polygonTool?.redo();
+      requestSceneRender();
+    });
+
+    // Ctrl+Z undoes, Ctrl+Y / Ctrl+Shift+Z redoes (leave text fields to the browser)
+    const onUndoRedoKey = (e: KeyboardEvent) => {
+      if (!polygonTool || polygonToolbarEl?.style.display === 'none') return;
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(target.tagName) !== -1)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        polygonTool.undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        polygonTool.redo();
+      } else {
+        return;
+      }
+      requestSceneRender();
+    };
+    document.addEventListener('keydown', onUndoRedoKey);
+    registerCleanup(() => document.removeEventListener('keydown', onUndoRedoKey));
+
     if (drawButton) {
       drawButton.addEventListener('click', () => {
         if (!polygonTool || !heightInput) return;
 
         if (!polygonToolIsDrawing) {
-          // Stop rectangle drawing if active
-          if (rectangleToolIsDrawing) {
-            (polygonTool as any).stopDrawingRectangle?.();
-            rectangleToolIsDrawing = false;
-            rectangleButton?.classList.remove('active');
-          }
+          // Stop the other drawing modes
+          stopAllDrawing();
 
           const height = parseFloat(heightInput.value) || 10;
           polygonTool.setHeight(height);
@@ -799,6 +1510,7 @@ export const createPolygonUi = (deps: {
           drawButton.classList.remove('active');
           heightInput.disabled = false;
         }
+        updateSegmentInput();
         requestSceneRender();
       });
     }
@@ -808,12 +1520,8 @@ export const createPolygonUi = (deps: {
         if (!polygonTool || !heightInput) return;
 
         if (!rectangleToolIsDrawing) {
-          // Stop polygon drawing if active
-          if (polygonToolIsDrawing) {
-            (polygonTool as any).stopDrawing?.();
-            polygonToolIsDrawing = false;
-            drawButton?.classList.remove('active');
-          }
+          // Stop the other drawing modes
+          stopAllDrawing();
 
           const height = parseFloat(heightInput.value) || 10;
           polygonTool.setHeight(height);
@@ -828,10 +1536,71 @@ export const createPolygonUi = (deps: {
           rectangleButton.classList.remove('active');
           heightInput.disabled = false;
         }
+        updateSegmentInput();
         requestSceneRender();
       });
     }
 
+    if (wallButton) {
+      wallButton.addEventListener('click', () => {
+        if (!polygonTool || !heightInput) return;
+
+        if (!wallToolIsDrawing) {
+          // Stop the other drawing modes
+          stopAllDrawing();
+
+          const height = parseFloat(heightInput.value) || 10;
+          polygonTool.setHeight(height);
+          polygonTool.setWallThickness(parseFloat(wallThicknessInput?.value ?? '') || polygonTool.getWallThickness());
+          polygonTool.startDrawingWall();
+          wallToolIsDrawing = true;
+          wallButton.classList.add('active');
+        } else {
+          polygonTool.stopDrawingWall();
+          wallToolIsDrawing = false;
+          wallButton.classList.remove('active');
+        }
+        requestSceneRender();
+      });
+    }
+
+    if (circleButton) {
+      circleButton.addEventListener('click', () => {
+        if (!polygonTool || !heightInput) return;
+
+        if (!circleToolIsDrawing) {
+          // Stop the other drawing modes
+          stopAllDrawing();
+
+          const height = parseFloat(heightInput.value) || 10;
+          polygonTool.setHeight(height);
+          polygonTool.setCircleSegments(parseInt(circleSegmentsInput?.value ?? '', 10) || polygonTool.getCircleSegments());
+          polygonTool.startDrawingCircle();
+          circleToolIsDrawing = true;
+          circleButton.classList.add('active');
+        } else {
+          polygonTool.stopDrawingCircle();
+          circleToolIsDrawing = false;
+          circleButton.classList.remove('active');
+        }
+        requestSceneRender();
+      });
+    }
+
+    if (circleSegmentsInput) {
+      circleSegmentsInput.addEventListener('input', () => {
+        const segments = parseInt(circleSegmentsInput.value, 10);
+        if (segments > 0) polygonTool?.setCircleSegments(segments);
+      });
+    }
+
+    if (wallThicknessInput) {
+      wallThicknessInput.addEventListener('input', () => {
+        const thickness = parseFloat(wallThicknessInput.value);
+        if (thickness > 0) polygonTool?.setWallThickness(thickness);
+      });
+    }
+
     if (clearButton) {
       clearButton.addEventListener('click', () => {
         // All polygons (including imported shared ones) are now managed by polygonTool
@@ -842,6 +1611,106 @@ export const createPolygonUi = (deps: {
       });
     }
 
+    if (clearSessionsButton && clearStoredSessions) {
+      clearSessionsButton.addEventListener('click', () => clearStoredSessions());
+    }
+
+    // Scenario switches replace the draw tool contents
+    const replaceActivePolygons = (geojson: GeoJsonFeatureCollection) => {
+      if (!polygonTool) return;
+      stopAllDrawing();
+      polygonTool.clear();
+      polygonTool.importGeoJSON(geojson);
+      // Switching is not an edit, and undo must not reach into the previous scenario
+      polygonTool.clearHistory();
+      requestSceneRender();
+    };
+
+    const scenarioButtonStyle = 'padding: 2px 6px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white; font-size: 12px;';
+
+    const scenarioButton = (label: string, title: string, onClick: () => void, disabled = false) => {
+      const btn = document.createElement('button');
+      btn.textContent = label;
+      btn.title = title;
+      btn.disabled = disabled;
+      btn.setAttribute('style', scenarioButtonStyle);
+      btn.addEventListener('click', onClick);
+      return btn;
+    };
+
+    const downloadScenarioGeoJSON = (id: string, name: string) => {
+      if (!scenarios) return;
+      const blob = new Blob([JSON.stringify(scenarios.getScenarioGeoJSON(id), null, 2)], { type: 'application/json' });
+      downloadBlob(blob, `drawn_polygons_${name.replace(/[^a-zA-Z0-9åäöÅÄÖ_-]+/g, '_')}_EPSG4326.geojson`);
+    };
+
+    renderScenarioList = () => {
+      if (!scenarios || !scenariosList) return;
+      const items = scenarios.list();
+      scenariosList.innerHTML = '';
+
+      items.forEach(item => {
+        const row = document.createElement('div');
+        row.style.cssText = 'display: flex; align-items: center; gap: 4px; white-space: nowrap;';
+
+        const nameButton = scenarioButton(`${item.name} (${item.polygonCount})`, item.active ? 'Visas och redigeras' : 'Visa och redigera', () => {
+          scenarios?.switchTo(item.id);
+        });
+        nameButton.style.flex = '1';
+        nameButton.style.textAlign = 'left';
+        nameButton.style.fontWeight = item.active ? 'bold' : 'normal';
+        if (item.compared) nameButton.style.borderColor = 'hsl(210, 100%, 40%)';
+        row.appendChild(nameButton);
+
+        row.appendChild(scenarioButton('✎', 'Byt namn', () => {
+          const name = window.prompt('Nytt namn på scenariot:', item.name);
+          if (name !== null) scenarios?.rename(item.id, name);
+        }));
+        row.appendChild(scenarioButton('⧉', 'Duplicera', () => scenarios?.duplicate(item.id)));
+        if (showGeojson) {
+          row.appendChild(scenarioButton('GeoJSON', 'Ladda ner scenariot som GeoJSON', () => downloadScenarioGeoJSON(item.id, item.name)));
+        }
+        if (showShare) {
+          row.appendChild(scenarioButton('Dela', 'Dela vyn med det här scenariot', () => {
+            if (scenarios) void shareScene(scenarios.getScenarioGeoJSON(item.id), item.name);
+          }));
+        }
+        row.appendChild(scenarioButton('×', 'Ta bort scenariot', () => {
+          if (item.polygonCount && !window.confirm(`Ta bort ${item.name} med ${item.polygonCount} polygon${item.polygonCount === 1 ? '' : 'er'}?`)) return;
+          scenarios?.remove(item.id);
+        }, items.length === 1));
+
+        scenariosList.appendChild(row);
+      });
+
+      if (scenariosCompareSelect) {
+        scenariosCompareSelect.innerHTML = '';
+        const none = document.createElement('option');
+        none.value = '';
+        none.textContent = 'Inget';
+        scenariosCompareSelect.appendChild(none);
+        items.filter(item => !item.active).forEach(item => {
+          const option = document.createElement('option');
+          option.value = item.id;
+          option.textContent = item.name;
+          option.selected = item.compared;
+          scenariosCompareSelect.appendChild(option);
+        });
+      }
+    };
+
+    attachPopoverToggle(scenariosButton, scenariosPopover, { onOpen: () => renderScenarioList?.() });
+
+    scenariosNewButton?.addEventListener('click', () => scenarios?.create());
+
+    const applyCompare = () => {
+      scenarios?.setCompare(scenariosCompareSelect?.value || null, scenariosCompareColor?.value);
+      renderScenarioList?.();
+      requestSceneRender();
+    };
+    scenariosCompareSelect?.addEventListener('change', applyCompare);
+    scenariosCompareColor?.addEventListener('change', applyCompare);
+
     if (heightInput) {
       heightInput.addEventListener('input', () => {
         if (!polygonTool) return;
@@ -862,7 +1731,7 @@ export const createPolygonUi = (deps: {
     if (polygonEditPanelEl) return;
     if (!scene) return;
 
-    polygonEditPanelEl = injectIntoMap(polygonEditPanelHtml()) ?? null;
+    polygonEditPanelEl = injectIntoMap(polygonEditPanelHtml(storeyHeight, Boolean(maskConfig), showFixedBase)) ?? null;
     if (!polygonEditPanelEl) return;
     polygonEditPanelEl.style.display = 'none';
 
@@ -870,15 +1739,31 @@ export const createPolygonUi = (deps: {
     const heightButton = document.getElementById('polygon-edit-height-button') as HTMLButtonElement | null;
     const heightPopover = document.getElementById('polygon-edit-height-popover') as HTMLElement | null;
     const heightInput = document.getElementById('polygon-edit-height-input') as HTMLInputElement | null;
+    const thicknessInput = document.getElementById('polygon-edit-thickness-input') as HTMLInputElement | null;
+    const radiusInput = document.getElementById('polygon-edit-radius-input') as HTMLInputElement | null;
+    const segmentsInput = document.getElementById('polygon-edit-segments-input') as HTMLInputElement | null;
+    const roofButton = document.getElementById('polygon-edit-roof-button') as HTMLButtonElement | null;
+    const roofPopover = document.getElementById('polygon-edit-roof-popover') as HTMLElement | null;
     const colorButton = document.getElementById('polygon-edit-color-button') as HTMLButtonElement | null;
     const colorPopover = document.getElementById('polygon-edit-color-popover') as HTMLElement | null;
     const colorSelect = document.getElementById('polygon-edit-color-select') as HTMLSelectElement | null;
+    const materialButton = document.getElementById('polygon-edit-material-button') as HTMLButtonElement | null;
+    const materialPopover = document.getElementById('polygon-edit-material-popover') as HTMLElement | null;
     const opacityButton = document.getElementById('polygon-edit-opacity-toggle') as HTMLButtonElement | null;
     const rotateButton = document.getElementById('polygon-edit-rotate-button') as HTMLButtonElement | null;
     const rotatePopover = document.getElementById('polygon-edit-rotate-popover') as HTMLElement | null;
+    const metricsButton = document.getElementById('polygon-edit-metrics-button') as HTMLButtonElement | null;
+    const metricsPopover = document.getElementById('polygon-edit-metrics-popover') as HTMLElement | null;
+    const duplicateButton = document.getElementById('polygon-edit-duplicate') as HTMLButtonElement | null;
+    const maskTilesButton = document.getElementById('polygon-edit-mask-tiles') as HTMLButtonElement | null;
+    const arrayButton = document.getElementById('polygon-edit-array-button') as HTMLButtonElement | null;
+    const arrayPopover = document.getElementById('polygon-edit-array-popover') as HTMLElement | null;
+    const storeyHeightInput = document.getElementById('polygon-edit-storey-height') as HTMLInputElement | null;
     const rotateInput = document.getElementById('polygon-edit-rotate-input') as HTMLInputElement | null;
     const rotateCcwButton = document.getElementById('polygon-rotate-ccw') as HTMLButtonElement | null;
     const rotateCwButton = document.getElementById('polygon-rotate-cw') as HTMLButtonElement | null;
+    const verticesButton = document.getElementById('polygon-edit-vertices') as HTMLButtonElement | null;
+    const holeButton = document.getElementById('polygon-edit-hole') as HTMLButtonElement | null;
     const deleteButton = document.getElementById('polygon-edit-delete') as HTMLButtonElement | null;
     const deselectButton = document.getElementById('polygon-edit-deselect') as HTMLButtonElement | null;
 
@@ -911,8 +1796,12 @@ export const createPolygonUi = (deps: {
         } else {
           // Close any other open edit popovers first
           document.getElementById('polygon-edit-height-popover')?.classList.remove('o-active');
+          document.getElementById('polygon-edit-roof-popover')?.classList.remove('o-active');
           document.getElementById('polygon-edit-color-popover')?.classList.remove('o-active');
+          document.getElementById('polygon-edit-material-popover')?.classList.remove('o-active');
           document.getElementById('polygon-edit-rotate-popover')?.classList.remove('o-active');
+          document.getElementById('polygon-edit-array-popover')?.classList.remove('o-active');
+          document.getElementById('polygon-edit-metrics-popover')?.classList.remove('o-active');
           
           popoverEl.classList.add('o-active');
           options.onOpen?.();
@@ -936,8 +1825,26 @@ export const createPolygonUi = (deps: {
       },
     });
 
+    attachEditPopoverToggle(roofButton, roofPopover);
     attachEditPopoverToggle(colorButton, colorPopover);
+    attachEditPopoverToggle(materialButton, materialPopover);
     attachEditPopoverToggle(rotateButton, rotatePopover);
+    attachEditPopoverToggle(arrayButton, arrayPopover, {
+      onOpen: () => {
+        const status = document.getElementById('polygon-edit-array-status');
+        if (status) status.textContent = '';
+      },
+    });
+    attachEditPopoverToggle(metricsButton, metricsPopover, { onOpen: () => renderMetrics() });
+
+    if (storeyHeightInput) {
+      storeyHeightInput.addEventListener('input', () => {
+        const value = parseFloat(storeyHeightInput.value);
+        if (!(value > 0)) return;
+        storeyHeight = value;
+        renderMetrics();
+      });
+    }
 
     // Name change handler
     if (nameInput) {
@@ -960,6 +1867,50 @@ export const createPolygonUi = (deps: {
       });
     }
 
+    // Wall thickness change handler
+    if (thicknessInput) {
+      thicknessInput.addEventListener('input', () => {
+        if (!polygonTool) return;
+        const selected = polygonTool.getSelectedPolygon?.();
+        const thickness = parseFloat(thicknessInput.value);
+        if (!selected?.wall || !(thickness > 0)) return;
+        polygonTool.setPolygonThickness(selected.id, thickness);
+        renderMetrics();
+      });
+    }
+
+    // Circle radius and segment count change handlers
+    const onCircleInput = () => {
+      if (!polygonTool || !radiusInput || !segmentsInput) return;
+      const selected = polygonTool.getSelectedPolygon?.();
+      const radius = parseFloat(radiusInput.value);
+      const segments = parseInt(segmentsInput.value, 10);
+      if (!selected?.circle || !(radius > 0) || !(segments > 0)) return;
+      polygonTool.setPolygonCircle(selected.id, { radius, segments });
+      renderMetrics();
+    };
+    radiusInput?.addEventListener('input', onCircleInput);
+    segmentsInput?.addEventListener('input', onCircleInput);
+
+    // Base height change handler
+    watchBaseFields('polygon-edit-base', () => {
+      if (!polygonTool) return;
+      const selected = polygonTool.getSelectedPolygon?.();
+      if (!selected) return;
+      const { mode, fixedHeight } = readBaseFields('polygon-edit-base');
+      polygonTool.setPolygonBaseHeightMode(selected.id, mode, mode === 'fixed' ? fixedHeight : undefined);
+      renderMetrics();
+    });
+
+    // Roof change handler
+    watchRoofFields('polygon-edit-roof', () => {
+      if (!polygonTool) return;
+      const selected = polygonTool.getSelectedPolygon?.();
+      if (!selected) return;
+      polygonTool.setPolygonRoof?.(selected.id, readRoofFields('polygon-edit-roof'));
+      renderMetrics();
+    });
+
     // Color change handler
     if (colorSelect) {
       colorSelect.addEventListener('change', () => {
@@ -971,6 +1922,17 @@ export const createPolygonUi = (deps: {
       });
     }
 
+    // Material change handler
+    const onMaterialInput = () => {
+      if (!polygonTool) return;
+      const selected = polygonTool.getSelectedPolygon?.();
+      if (!selected) return;
+      polygonTool.setPolygonMaterial(selected.id, readMaterialFields());
+    };
+    ['polygon-edit-material-facade', 'polygon-edit-material-roof', 'polygon-edit-material-windows']
+      .forEach(id => document.getElementById(id)?.addEventListener('change', onMaterialInput));
+    document.getElementById('polygon-edit-material-storey-height')?.addEventListener('input', onMaterialInput);
+
     // Opacity toggle handler
     if (opacityButton) {
       opacityButton.addEventListener('click', () => {
@@ -984,12 +1946,26 @@ export const createPolygonUi = (deps: {
       });
     }
 
+    // Hide existing buildings toggle handler
+    if (maskTilesButton) {
+      maskTilesButton.addEventListener('click', () => {
+        if (!polygonTool) return;
+        const selected = polygonTool.getSelectedPolygon?.();
+        if (!selected) return;
+        const mask = !selected.maskTiles;
+        polygonTool.setPolygonMaskTiles(selected.id, mask);
+        maskTilesButton.classList.toggle('active', mask);
+      });
+    }
+
     // Rotation handlers
     const applyRotation = (angle: number) => {
       if (!polygonTool) return;
       const selected = polygonTool.getSelectedPolygon?.();
       if (!selected) return;
       polygonTool.rotatePolygon?.(selected.id, angle);
+      // A set ridge direction turns with the polygon
+      writeRoofFields('polygon-edit-roof', selected.roof);
       requestSceneRender();
     };
 
@@ -1007,6 +1983,99 @@ export const createPolygonUi = (deps: {
       });
     }
 
+    // Duplicate and array handlers
+    duplicateButton?.addEventListener('click', () => {
+      if (!polygonTool) return;
+      const selected = polygonTool.getSelectedPolygon?.();
+      if (!selected) return;
+      polygonTool.duplicatePolygon(selected.id);
+      requestSceneRender();
+    });
+
+    const arrayTypeSelect = document.getElementById('polygon-edit-array-type') as HTMLSelectElement | null;
+    const arrayCountLabel = document.getElementById('polygon-edit-array-count-label');
+    const showArrayFields = () => {
+      const grid = arrayTypeSelect?.value === 'grid';
+      if (arrayCountLabel) arrayCountLabel.textContent = grid ? 'Kolumner:' : 'Kopior:';
+      ['polygon-edit-array-rows-row', 'polygon-edit-array-row-spacing-row'].forEach(id => {
+        const row = document.getElementById(id);
+        if (row) row.style.display = grid ? 'flex' : 'none';
+      });
+    };
+    arrayTypeSelect?.addEventListener('change', showArrayFields);
+
+    document.getElementById('polygon-edit-array-create')?.addEventListener('click', (e) => {
+      stopDomEvent(e);
+      if (!polygonTool) return;
+      const selected = polygonTool.getSelectedPolygon?.();
+      if (!selected) return;
+      const status = document.getElementById('polygon-edit-array-status');
+      const readNumber = (id: string) => parseFloat((document.getElementById(id) as HTMLInputElement | null)?.value ?? '');
+      const optionalNumber = (id: string) => {
+        const value = readNumber(id);
+        return value >= 0 ? value : undefined;
+      };
+
+      const grid = arrayTypeSelect?.value === 'grid';
+      const count = Math.round(readNumber('polygon-edit-array-count'));
+      const rows = grid ? Math.round(readNumber('polygon-edit-array-rows')) : 1;
+      if (!(count >= 1) || !(rows >= 1)) {
+        if (status) status.textContent = 'Ange antal kopior';
+        return;
+      }
+      const copies = polygonTool.arrayPolygon(selected.id, {
+        // A row counts its copies, a grid its columns with the original included
+        columns: grid ? count : count + 1,
+        rows,
+        spacing: optionalNumber('polygon-edit-array-spacing'),
+        rowSpacing: grid ? optionalNumber('polygon-edit-array-row-spacing') : undefined,
+        bearing: readNumber('polygon-edit-array-bearing') || 0,
+      });
+      if (status) {
+        status.textContent = copies.length
+          ? `${copies.length} kopior skapade`
+          : `Inga kopior skapade (högst ${MAX_ARRAY_COPIES})`;
+      }
+      requestSceneRender();
+    });
+
+    // Vertex edit toggle
+    if (verticesButton) {
+      verticesButton.addEventListener('click', () => {
+        if (!polygonTool) return;
+        const selected = polygonTool.getSelectedPolygon?.();
+        if (!selected) return;
+        if (polygonTool.isVertexEditing?.()) {
+          polygonTool.stopVertexEdit?.();
+        } else {
+          polygonTool.startVertexEdit?.(selected.id);
+          holeButton?.classList.remove('active');
+        }
+        verticesButton.classList.toggle('active', Boolean(polygonTool.isVertexEditing?.()));
+        requestSceneRender();
+      });
+    }
+
+    // Cut hole toggle
+    if (holeButton) {
+      holeButton.addEventListener('click', () => {
+        if (!polygonTool) return;
+        const selected = polygonTool.getSelectedPolygon?.();
+        if (!selected) return;
+        if (polygonTool.isCuttingHole?.()) {
+          polygonTool.stopCuttingHole?.();
+        } else {
+          polygonTool.startCuttingHole?.(selected.id, () => {
+            holeButton.classList.remove('active');
+            requestSceneRender();
+          });
+          holeButton.classList.add('active');
+          verticesButton?.classList.remove('active');
+        }
+        requestSceneRender();
+      });
+    }
+
     // Mount translate arrows overlay
     mountTranslateArrowsIfNeeded();
 
@@ -1033,23 +2102,8 @@ export const createPolygonUi = (deps: {
     }
   };
 
-  const loadSharedPolygonsFromUrl = (): CleanupFn | void => {
-    const params = new URLSearchParams(window.location.search);
-    if (params.get('display3dDrawing') !== 'true') return;
-
-    const polygonParam = params.get('polygon');
-    if (!polygonParam) return;
-
-    let geojson: any;
-    try {
-      geojson = decodeCompressedBase64UrlToJson(polygonParam);
-    } catch {
-      console.warn('Invalid polygon share URL');
-      return;
-    }
-
-    const features: any[] = Array.isArray(geojson?.features) ? geojson.features : [];
-    if (!features.length) return;
+  const loadSharedPolygons = (geojson: GeoJsonFeatureCollection, flyTo = true, scenarioName?: string): CleanupFn | void => {
+    if (!geojson || typeof geojson !== 'object') return;
 
     // Ensure polygon tool is initialized
     mountPolygonToolbarIfNeeded();
@@ -1058,47 +2112,24 @@ export const createPolygonUi = (deps: {
       return;
     }
 
-    // Import each shared polygon into the polygon tool (making them editable)
-    const importedPolygons: PolygonData[] = [];
-    for (const feature of features) {
-      const imported = polygonTool.importPolygonFromGeoJSON(feature);
-      if (imported) {
-        importedPolygons.push(imported);
+    // Keep shared scenarios apart from what is already drawn
+    const active = scenarios?.list().find(item => item.active);
+    if (scenarioName && scenarios && active) {
+      if (active.polygonCount) {
+        scenarios.create(scenarioName);
+      } else {
+        scenarios.rename(active.id, scenarioName);
       }
     }
 
+    // Import the shared polygons into the polygon tool (making them editable).
+    // Multi-part features become grouped polygons.
+    const importedPolygons: PolygonData[] = polygonTool.importGeoJSON(geojson);
+
     if (!importedPolygons.length) return;
 
-    // Fly to imported polygons
-    const allPositions: Cesium.Cartesian3[] = [];
-    for (const polygon of importedPolygons) {
-      allPositions.push(...polygon.positions);
-    }
-
-    if (allPositions.length) {
-      const rect = Cesium.Rectangle.fromCartesianArray(allPositions);
-
-      // Pad the extent so we don't zoom in too tight
-      const width = rect.east - rect.west;
-      const height = rect.north - rect.south;
-      const minPad = Cesium.Math.toRadians(0.002);
-      const padX = Math.max(Math.abs(width) * 0.25, minPad);
-      const padY = Math.max(Math.abs(height) * 0.25, minPad);
-
-      const paddedRect = new Cesium.Rectangle(
-        Math.max(-Math.PI, rect.west - padX),
-        Math.max(-Cesium.Math.PI_OVER_TWO, rect.south - padY),
-        Math.min(Math.PI, rect.east + padX),
-        Math.min(Cesium.Math.PI_OVER_TWO, rect.north + padY)
-      );
-
-      scene.camera.flyTo({
-        destination: paddedRect,
-        duration: 2.0,
-        complete: requestSceneRender,
-      });
-      requestSceneRender();
-    }
+    // Fly to imported polygons unless the link also restores the camera
+    if (flyTo) flyToPolygons(importedPolygons);
 
     // Enable selection so user can edit imported polygons
     polygonTool.enableSelection((polygon: PolygonData | null) => {
@@ -1119,25 +2150,77 @@ export const createPolygonUi = (deps: {
     return registeredCleanup;
   };
 
+  const getPolygonsGeoJSON = (): GeoJsonFeatureCollection => {
+    const geojson = polygonTool?.getGeoJSON();
+    return { type: 'FeatureCollection', features: Array.isArray(geojson?.features) ? geojson.features : [] };
+  };
+
+  const getScenarios = () => scenarios?.getScenarios() ?? null;
+
+  const getSnapTargets = (): Cesium.Cartesian3[][] => {
+    const rings: Cesium.Cartesian3[][] = [];
+    polygonTool?.getAllPolygons().forEach((p: PolygonData) => rings.push(p.positions, ...(p.holes || [])));
+    return rings;
+  };
+
+  const restoreScenarios = (stored: StoredScenario[], activeIndex: number) => {
+    mountPolygonToolbarIfNeeded();
+    if (!polygonTool) return;
+    if (!scenarios) {
+      // Scenarios are turned off, keep the one that was active
+      const active = stored[activeIndex] ?? stored[0];
+      if (active?.polygons) loadSharedPolygons(active.polygons);
+      return;
+    }
+    scenarios.setScenarios(stored, activeIndex);
+    flyToPolygons(polygonTool.getAllPolygons());
+    polygonTool.enableSelection((polygon: PolygonData | null) => {
+      if (polygon) {
+        showEditPanel(polygon);
+      } else {
+        hideEditPanel();
+      }
+    });
+  };
+
+  const onPolygonsChange = (callback: (() => void) | null) => {
+    polygonsChangeCallback = callback;
+  };
+
   const destroy = () => {
+    scenarios?.destroy();
+    scenarios = null;
+    footprintMask?.destroy();
+    footprintMask = null;
+    renderScenarioList = null;
     polygonTool?.destroy();
     polygonTool = null;
     polygonToolbarEl = null;
     polygonEditPanelEl = null;
     polygonTranslateArrowsEl = null;
+    segmentInputEl = null;
     polygonToolIsDrawing = false;
     selectedPolygonForArrows = null;
     if (cameraChangeListener) {
       cameraChangeListener();
       cameraChangeListener = null;
     }
+    if (editStatusTimer !== undefined) {
+      clearTimeout(editStatusTimer);
+      editStatusTimer = undefined;
+    }
     // All polygons (including imported shared ones) are now managed by polygonTool.destroy()
   };
 
   return {
     mountPolygonToolbarIfNeeded,
     setPolygonToolbarVisible,
-    loadSharedPolygonsFromUrl,
+    loadSharedPolygons,
+    getPolygonsGeoJSON,
+    getScenarios,
+    restoreScenarios,
+    onPolygonsChange,
+    getSnapTargets,
     destroy,
   };
 };
@@ -0,0 +1,263 @@
+/**
+ * Named scenarios ("Alternativ A", "Alternativ B", ...) of drawn volumes. The active scenario lives in the
+ * draw tool where it can be edited; the others are kept as GeoJSON. One other scenario can be shown at the
+ * same time in a compare colour by a second, read-only draw tool.
+ */
+
+import * as Cesium from 'cesium';
+
+import polygonDrawTool from '../functions/polygonDrawTool';
+
+import type { GeoJsonFeatureCollection } from './types';
+
+export interface ScenarioInfo {
+  id: string;
+  name: string;
+  polygonCount: number;
+  active: boolean;
+  compared: boolean;
+}
+
+/** Scenario as stored in a session */
+export interface StoredScenario {
+  name: string;
+  polygons: GeoJsonFeatureCollection;
+}
+
+export interface ScenarioManagerApi {
+  list(): ScenarioInfo[];
+  getActiveName(): string;
+  /** Creates an empty scenario and switches to it */
+  create(name?: string): void;
+  rename(id: string, name: string): void;
+  /** Copies a scenario and switches to the copy */
+  duplicate(id: string): void;
+  /** The last scenario cannot be removed */
+  remove(id: string): void;
+  switchTo(id: string): void;
+  /** Shows another scenario next to the active one, or hides it with null */
+  setCompare(id: string | null, colorName?: string): void;
+  getScenarioGeoJSON(id: string): GeoJsonFeatureCollection;
+  getScenarios(): { scenarios: StoredScenario[]; activeIndex: number };
+  setScenarios(scenarios: StoredScenario[], activeIndex: number): void;
+  /** Only `onChange` is called for scenario-level changes; edits inside the active scenario are not seen here */
+  onChange(callback: (() => void) | null): void;
+  destroy(): void;
+}
+
+interface Scenario {
+  id: string;
+  name: string;
+  /** Stale while the scenario is active, the draw tool has the current polygons */
+  polygons: GeoJsonFeatureCollection;
+}
+
+const COMPARE_FILL_ALPHA = 0.5;
+
+const emptyCollection = (): GeoJsonFeatureCollection => ({ type: 'FeatureCollection', features: [] });
+
+const cloneCollection = (geojson: GeoJsonFeatureCollection): GeoJsonFeatureCollection =>
+  JSON.parse(JSON.stringify(geojson));
+
+/** Same names as the draw tool's colour select */
+const compareColorCss = (colorName: string): string => {
+  switch (colorName) {
+    case 'white': return Cesium.Color.WHITE.toCssColorString();
+    case 'red': return Cesium.Color.RED.toCssColorString();
+    case 'green': return Cesium.Color.LIME.toCssColorString();
+    case 'blue': return Cesium.Color.DODGERBLUE.toCssColorString();
+    case 'yellow': return Cesium.Color.YELLOW.toCssColorString();
+    default: return Cesium.Color.CYAN.toCssColorString();
+  }
+};
+
+/** Recolours every polygon, including the parts of grouped features */
+const tintCollection = (geojson: GeoJsonFeatureCollection, css: string): GeoJsonFeatureCollection => {
+  const tinted = cloneCollection(geojson);
+  tinted.features.forEach((feature: any) => {
+    if (!feature || typeof feature !== 'object') return;
+    feature.properties = { ...feature.properties, color: css, fillAlpha: COMPARE_FILL_ALPHA };
+    if (Array.isArray(feature.properties.parts)) {
+      feature.properties.parts = feature.properties.parts.map((part: any) => ({ ...part, color: css, fillAlpha: COMPARE_FILL_ALPHA }));
+    }
+  });
+  return tinted;
+};
+
+/** "Alternativ A", "Alternativ B", ... skipping names in use */
+const nextScenarioName = (names: string[]): string => {
+  for (let i = 0; ; i++) {
+    const suffix = i < 26 ? String.fromCharCode(65 + i) : String(i + 1);
+    const name = `Alternativ ${suffix}`;
+    if (names.indexOf(name) === -1) return name;
+  }
+};
+
+export const createScenarioManager = (deps: {
+  scene: Cesium.Scene;
+  getActivePolygons: () => GeoJsonFeatureCollection;
+  /** Replaces the draw tool contents with the given polygons */
+  loadActivePolygons: (geojson: GeoJsonFeatureCollection) => void;
+}): ScenarioManagerApi => {
+  const { scene, getActivePolygons, loadActivePolygons } = deps;
+
+  let idCounter = 0;
+  const newId = () => `scenario-${idCounter++}`;
+
+  const scenarios: Scenario[] = [{ id: newId(), name: nextScenarioName([]), polygons: emptyCollection() }];
+  let activeId = scenarios[0].id;
+  let compareId: string | null = null;
+  let compareColor = 'cyan';
+  let compareTool: ReturnType<typeof polygonDrawTool> | null = null;
+  let changeCallback: (() => void) | null = null;
+
+  const find = (id: string) => scenarios.find(s => s.id === id);
+  const getActive = () => find(activeId) as Scenario;
+
+  const polygonsOf = (scenario: Scenario) =>
+    scenario.id === activeId ? getActivePolygons() : scenario.polygons;
+
+  const notify = () => changeCallback?.();
+
+  const renderCompare = () => {
+    compareTool?.clear();
+    const compared = compareId ? find(compareId) : undefined;
+    if (!compared) {
+      scene.requestRender();
+      return;
+    }
+    if (!compareTool) {
+      compareTool = polygonDrawTool(scene);
+      compareTool.setLabelsVisible(false);
+    }
+    compareTool.importGeoJSON(tintCollection(compared.polygons, compareColorCss(compareColor)));
+    compareTool.clearHistory();
+    scene.requestRender();
+  };
+
+  const activate = (id: string) => {
+    const target = find(id);
+    if (!target || id === activeId) return;
+    const previous = getActive();
+    previous.polygons = getActivePolygons();
+
+    loadActivePolygons(target.polygons);
+    activeId = id;
+
+    // Switching to the compared scenario swaps the pair, so A and B stay side by side
+    if (compareId === id) {
+      compareId = previous.id;
+      renderCompare();
+    }
+    notify();
+  };
+
+  const list = (): ScenarioInfo[] =>
+    scenarios.map(s => ({
+      id: s.id,
+      name: s.name,
+      polygonCount: polygonsOf(s).features.length,
+      active: s.id === activeId,
+      compared: s.id === compareId,
+    }));
+
+  const create = (name?: string) => {
+    const scenario = {
+      id: newId(),
+      name: name?.trim() || nextScenarioName(scenarios.map(s => s.name)),
+      polygons: emptyCollection(),
+    };
+    scenarios.push(scenario);
+    activate(scenario.id);
+  };
+
+  const rename = (id: string, name: string) => {
+    const scenario = find(id);
+    const trimmed = name.trim();
+    if (!scenario || !trimmed || trimmed === scenario.name) return;
+    scenario.name = trimmed;
+    notify();
+  };
+
+  const duplicate = (id: string) => {
+    const source = find(id);
+    if (!source) return;
+    const copy = { id: newId(), name: `${source.name} (kopia)`, polygons: cloneCollection(polygonsOf(source)) };
+    scenarios.splice(scenarios.indexOf(source) + 1, 0, copy);
+    activate(copy.id);
+  };
+
+  const remove = (id: string) => {
+    const index = scenarios.findIndex(s => s.id === id);
+    if (index === -1 || scenarios.length === 1) return;
+    if (id === activeId) {
+      const neighbour = scenarios[index + 1] ?? scenarios[index - 1];
+      if (compareId === neighbour.id) compareId = null;
+      activate(neighbour.id);
+    }
+    scenarios.splice(scenarios.findIndex(s => s.id === id), 1);
+    if (compareId === id) compareId = null;
+    renderCompare();
+    notify();
+  };
+
+  const setCompare = (id: string | null, colorName?: string) => {
+    if (colorName) compareColor = colorName;
+    compareId = id && id !== activeId && find(id) ? id : null;
+    renderCompare();
+  };
+
+  const getScenarioGeoJSON = (id: string): GeoJsonFeatureCollection => {
+    const scenario = find(id);
+    return scenario ? cloneCollection(polygonsOf(scenario)) : emptyCollection();
+  };
+
+  const getScenarios = () => ({
+    scenarios: scenarios.map(s => ({ name: s.name, polygons: polygonsOf(s) })),
+    activeIndex: scenarios.findIndex(s => s.id === activeId),
+  });
+
+  const setScenarios = (stored: StoredScenario[], activeIndex: number) => {
+    const valid = (Array.isArray(stored) ? stored : []).filter(s => s && Array.isArray(s.polygons?.features));
+    if (!valid.length) return;
+
+    scenarios.length = 0;
+    valid.forEach((s, i) => scenarios.push({
+      id: newId(),
+      name: typeof s.name === 'string' && s.name.trim() ? s.name.trim() : nextScenarioName(valid.slice(0, i).map(v => v.name)),
+      polygons: cloneCollection(s.polygons),
+    }));
+    const active = scenarios[activeIndex] ?? scenarios[0];
+    activeId = active.id;
+    loadActivePolygons(active.polygons);
+    compareId = null;
+    renderCompare();
+    notify();
+  };
+
+  const onChange = (callback: (() => void) | null) => {
+    changeCallback = callback;
+  };
+
+  const destroy = () => {
+    changeCallback = null;
+    compareTool?.destroy();
+    compareTool = null;
+  };
+
+  return {
+    list,
+    getActiveName: () => getActive().name,
+    create,
+    rename,
+    duplicate,
+    remove,
+    switchTo: activate,
+    setCompare,
+    getScenarioGeoJSON,
+    getScenarios,
+    setScenarios,
+    onChange,
+    destroy,
+  };
+};
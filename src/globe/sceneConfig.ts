@@ -95,8 +95,8 @@ export const loadTerrainProvider = async (
   }
 };
 
-export const load3DTiles = (scene: Cesium.Scene, map: any, ionToken?: string): void => {
-  add3DTile(scene, map, ionToken ?? '');
+export const load3DTiles = (scene: Cesium.Scene, map: any, ionToken?: string): Promise<void> => {
+  return add3DTile(scene, map, ionToken ?? '');
 };
 
 export const loadGltfAssets = (scene: Cesium.Scene, gltfAssets?: GLTFAsset[]): void => {
@@ -11,6 +11,9 @@ import { createPolygonUi } from './polygonUi';
 import { createMeasureUi } from './measureUi';
 import { configureGlobeAppearance, configureScene, loadGltfAssets, loadTerrainProvider, load3DTiles } from './sceneConfig';
 import { createGlobeHelpers } from './globeHelpers';
+import { resolveSharedSceneState } from './shareCodec';
+import { applySharedSceneState } from './sceneShare';
+import { isGlobeActive } from './globeStateManager';
 
 import type { ResolvedGlobeOptions, DrawToolOptions } from './configValidation';
 import type { PolygonUiApi } from './polygonUi';
@@ -119,6 +122,7 @@ function createTools(
     requestSceneRender,
     registerCleanup,
     stopDomEvent,
+    getSnapTargets: polygonUi.getSnapTargets,
   });
 
   measureUi.mountMeasureToolbarIfNeeded();
@@ -232,15 +236,34 @@ export function initializeGlobeScene(ctx: SceneInitContext): SceneInitResult {
   }).catch((error) => console.error('Failed to load terrain provider', error));
 
   // Load 3D tiles and GLTF assets
-  load3DTiles(scene, map, options.cesiumIontoken);
+  const threedTilesLoaded = load3DTiles(scene, map, options.cesiumIontoken);
   loadGltfAssets(scene, options.gltf);
 
-  // Try to load shared polygons from URL
-  try {
-    registerOptionalCleanup(polygonUi?.loadSharedPolygonsFromUrl());
-  } catch (e) {
-    // ignore
-  }
+  // Restore a scene shared through the URL
+  const shareOptions = options.drawToolConfig?.options?.share;
+  resolveSharedSceneState(typeof shareOptions === 'object' ? shareOptions.endpoint : undefined)
+    .then(shared => {
+      if (!shared) return;
+      applySharedSceneState(shared, {
+        scene,
+        map,
+        polygonUi,
+        measureUi,
+        isGlobeActive: () => isGlobeActive(oGlobe),
+        toggleGlobe: () => {
+          oGlobe.setEnabled(!isGlobeActive(oGlobe));
+          helpers.setActiveControls(oGlobe, viewer);
+        },
+        getFlatpickr,
+        setShadowsActive: (active) => {
+          if (scene.shadowMap) scene.shadowMap.enabled = active;
+        },
+        threedTilesLoaded,
+        registerOptionalCleanup,
+        requestSceneRender,
+      });
+    })
+    .catch(e => console.warn('[Globe] Could not restore shared scene', e));
 
   return {
     oGlobe,
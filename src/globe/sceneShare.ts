@@ -0,0 +1,185 @@
+/**
+ * Capture and restore of the scene parts in a share link: camera, THREEDTILE layers,
+ * measurements and viewshed positions. The payload itself is defined in shareCodec.
+ */
+
+import * as Cesium from 'cesium';
+
+import type { Measurement } from '../functions/measureTool';
+import type { ViewshedSetup } from '../functions/ViewShed';
+import type { SceneState, SharedCamera, SharedLayer, SharedMeasurement, SharedPosition, SharedViewshed } from './shareCodec';
+import type { PolygonUiApi } from './polygonUi';
+import type { MeasureUiApi } from './measureUi';
+import type { CleanupFn } from './types';
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+export const toSharedPosition = (position: Cesium.Cartesian3): SharedPosition => {
+  const carto = Cesium.Cartographic.fromCartesian(position);
+  return [
+    round(Cesium.Math.toDegrees(carto.longitude), 7),
+    round(Cesium.Math.toDegrees(carto.latitude), 7),
+    round(carto.height, 2),
+  ];
+};
+
+export const fromSharedPosition = (position: unknown): Cesium.Cartesian3 | null => {
+  if (!Array.isArray(position) || !position.slice(0, 3).every(isFiniteNumber)) return null;
+  return Cesium.Cartesian3.fromDegrees(position[0], position[1], position[2] ?? 0);
+};
+
+export const captureCamera = (scene: Cesium.Scene): SharedCamera => {
+  const camera = scene.camera;
+  const carto = camera.positionCartographic;
+  return {
+    lon: round(Cesium.Math.toDegrees(carto.longitude), 7),
+    lat: round(Cesium.Math.toDegrees(carto.latitude), 7),
+    height: round(carto.height, 2),
+    heading: round(Cesium.Math.toDegrees(camera.heading), 2),
+    pitch: round(Cesium.Math.toDegrees(camera.pitch), 2),
+    roll: round(Cesium.Math.toDegrees(camera.roll), 2),
+  };
+};
+
+export const applyCamera = (scene: Cesium.Scene, camera: SharedCamera): void => {
+  const { lon, lat, height, heading, pitch, roll } = camera;
+  if (![lon, lat, height, heading, pitch, roll].every(isFiniteNumber)) return;
+  scene.camera.setView({
+    destination: Cesium.Cartesian3.fromDegrees(lon, lat, height),
+    orientation: {
+      heading: Cesium.Math.toRadians(heading),
+      pitch: Cesium.Math.toRadians(pitch),
+      roll: Cesium.Math.toRadians(roll),
+    },
+  });
+  scene.requestRender();
+};
+
+const getThreedTileLayers = (map: any): any[] =>
+  (map?.getLayers?.().getArray() ?? []).filter((layer: any) => layer.get('type') === 'THREEDTILE' && layer.get('name'));
+
+export const captureThreedTileLayers = (map: any): SharedLayer[] =>
+  getThreedTileLayers(map).map(layer => ({
+    name: layer.get('name'),
+    visible: Boolean(layer.getVisible()),
+    opacity: round(layer.getOpacity(), 2),
+  }));
+
+/**
+ * Sets visibility and opacity of THREEDTILE layers by name. Layers not in the list are left as they are.
+ */
+export const applyThreedTileLayers = (map: any, layers: SharedLayer[]): void => {
+  if (!Array.isArray(layers)) return;
+  const byName = new Map<string, any>();
+  getThreedTileLayers(map).forEach(layer => byName.set(layer.get('name'), layer));
+
+  layers.forEach(shared => {
+    const layer = byName.get(shared?.name);
+    if (!layer) return;
+    // ThreedTile.setVisible toggles the Cesium objects, so only call it on an actual change
+    if (typeof shared.visible === 'boolean' && shared.visible !== Boolean(layer.getVisible())) {
+      layer.setVisible(shared.visible);
+    }
+    if (isFiniteNumber(shared.opacity) && shared.opacity !== layer.getOpacity()) {
+      layer.setOpacity(Math.min(1, Math.max(0, shared.opacity)));
+    }
+  });
+};
+
+export const toSharedMeasurements = (measurements: Measurement[]): SharedMeasurement[] =>
+  measurements.map(({ mode, positions }) => ({ mode, positions: positions.map(toSharedPosition) }));
+
+export const fromSharedMeasurements = (measurements: SharedMeasurement[]): Measurement[] => {
+  if (!Array.isArray(measurements)) return [];
+  return measurements
+    .map(measurement => ({
+      mode: measurement?.mode,
+      positions: (Array.isArray(measurement?.positions) ? measurement.positions : [])
+        .map(fromSharedPosition)
+        .filter((p): p is Cesium.Cartesian3 => p !== null),
+    }))
+    .filter(measurement => ['distance', 'height', 'footprint', 'surface'].indexOf(measurement.mode) >= 0);
+};
+
+export const toSharedViewshed = (setup: ViewshedSetup): SharedViewshed => ({
+  start: toSharedPosition(setup.start),
+  end: toSharedPosition(setup.end),
+});
+
+export const fromSharedViewshed = (viewshed: SharedViewshed): ViewshedSetup | null => {
+  const start = fromSharedPosition(viewshed?.start);
+  const end = fromSharedPosition(viewshed?.end);
+  return start && end ? { start, end } : null;
+};
+
+/** What a restored scene is applied to; the parts a caller lacks are skipped */
+export interface SharedSceneTarget {
+  scene: Cesium.Scene;
+  map: any;
+  polygonUi: PolygonUiApi | null;
+  measureUi: MeasureUiApi | null;
+  isGlobeActive: () => boolean;
+  toggleGlobe: () => void;
+  getFlatpickr: () => { setDate(date: Date, triggerChange?: boolean): void } | null;
+  setShadowsActive: (active: boolean) => void;
+  /** Resolves once the THREEDTILE layers are loaded */
+  threedTilesLoaded: Promise<void>;
+  restoreViewshed?: (setup: ViewshedSetup) => void;
+  registerOptionalCleanup: (fn?: CleanupFn | void) => void;
+  requestSceneRender: () => void;
+}
+
+/**
+ * Restores a scene from a share link. Run it after globeOnStart so the link decides whether the globe is on.
+ */
+export const applySharedSceneState = (state: SceneState, target: SharedSceneTarget): void => {
+  const { scene, map, polygonUi, measureUi, registerOptionalCleanup, requestSceneRender } = target;
+
+  if (typeof state.globe === 'boolean' && state.globe !== target.isGlobeActive()) {
+    target.toggleGlobe();
+  }
+  const globeActive = target.isGlobeActive();
+
+  const fp = target.getFlatpickr();
+  if (state.time && fp) {
+    const date = new Date(state.time);
+    if (!isNaN(date.getTime())) fp.setDate(date, true);
+  }
+  if (typeof state.shadows === 'boolean' && state.shadows !== Boolean(scene.shadowMap?.enabled)) {
+    target.setShadowsActive(state.shadows);
+  }
+
+  if (state.layers) {
+    const layers = state.layers;
+    // Opacity is applied to the Cesium objects, which exist once the layers are loaded
+    void target.threedTilesLoaded.catch(() => undefined).then(() => {
+      applyThreedTileLayers(map, layers);
+      requestSceneRender();
+    });
+  }
+
+  if (state.camera && globeActive) {
+    applyCamera(scene, state.camera);
+  }
+
+  if (state.polygons) {
+    registerOptionalCleanup(polygonUi?.loadSharedPolygons(state.polygons, !(state.camera && globeActive),
+      typeof state.scenario === 'string' ? state.scenario : undefined));
+  }
+
+  if (state.measurements) {
+    measureUi?.addMeasurements(fromSharedMeasurements(state.measurements));
+  }
+
+  const viewshed = state.viewshed && fromSharedViewshed(state.viewshed);
+  if (viewshed && target.restoreViewshed && globeActive) {
+    target.restoreViewshed(viewshed);
+  }
+
+  requestSceneRender();
+};
@@ -0,0 +1,165 @@
+import { clearSessions, deleteSession, loadSession, saveSession, StoredSession } from '../functions/sessionStore';
+import { sessionRestorePromptHtml } from '../uiTemplates';
+
+type SessionContent = Pick<StoredSession, 'polygons' | 'measurements' | 'scenarios' | 'activeScenario'>;
+
+export interface SessionPersistenceApi {
+  /**
+   * Offers the stored session, then saves every change. With `fromShareLink` the shared scene is
+   * shown instead, and a stored session is only replaced once the user agrees.
+   */
+  start(fromShareLink: boolean): void;
+  /** Call after every change to the polygons or measurements; saves are debounced */
+  notifyChange(): void;
+  clearStoredSessions(): void;
+  destroy(): void;
+}
+
+const SAVE_DELAY_MS = 1000;
+
+const countPolygons = (session: SessionContent) => session.scenarios
+  ? session.scenarios.reduce((sum, scenario) => sum + (scenario.polygons?.features?.length ?? 0), 0)
+  : session.polygons?.features?.length ?? 0;
+
+const hasContent = (session: SessionContent | null) =>
+  !!session && (countPolygons(session) > 0 || (session.measurements?.length ?? 0) > 0);
+
+export const createSessionPersistence = (deps: {
+  /** One stored session per key, normally per map configuration */
+  storageKey: string;
+  captureSession: () => SessionContent;
+  restoreSession: (session: StoredSession) => void;
+  injectIntoMap: (markup: string) => HTMLElement | undefined;
+  stopDomEvent: (event: Event) => void;
+}): SessionPersistenceApi => {
+  const { storageKey, captureSession, restoreSession, injectIntoMap, stopDomEvent } = deps;
+
+  // Changes are not saved until the restore prompt is answered, so they cannot overwrite the stored session
+  let saving = false;
+  let started = false;
+  let destroyed = false;
+  let saveTimer: number | null = null;
+  let promptEl: HTMLElement | null = null;
+
+  const save = () => {
+    saveTimer = null;
+    const content = captureSession();
+    const done = hasContent(content)
+      ? saveSession({ key: storageKey, savedAt: new Date().toISOString(), ...content })
+      : deleteSession(storageKey);
+    done.catch(e => console.warn('[Globe] Could not store drawing session', e));
+  };
+
+  const flush = () => {
+    if (saveTimer === null) return;
+    window.clearTimeout(saveTimer);
+    save();
+  };
+
+  const notifyChange = () => {
+    if (!saving || destroyed) return;
+    if (saveTimer !== null) window.clearTimeout(saveTimer);
+    saveTimer = window.setTimeout(save, SAVE_DELAY_MS);
+  };
+
+  const closePrompt = () => {
+    promptEl?.remove();
+    promptEl = null;
+    saving = true;
+  };
+
+  // Saving starts with what is already drawn, e.g. a shared scene loaded before the prompt was answered
+  const startSavingNow = () => {
+    saving = true;
+    notifyChange();
+  };
+
+  const showPrompt = (session: StoredSession, fromShareLink: boolean) => {
+    const polygonCount = countPolygons(session);
+    const scenarioCount = session.scenarios?.length ?? 0;
+    const measurementCount = session.measurements?.length ?? 0;
+    const summary = [
+      polygonCount ? `${polygonCount} ${polygonCount === 1 ? 'polygon' : 'polygoner'}${scenarioCount > 1 ? ` i ${scenarioCount} scenarier` : ''}` : '',
+      measurementCount ? `${measurementCount} ${measurementCount === 1 ? 'mätning' : 'mätningar'}` : '',
+    ].filter(Boolean).join(' och ');
+    const savedAt = new Date(session.savedAt).toLocaleString('sv-SE');
+
+    promptEl = injectIntoMap(sessionRestorePromptHtml(summary, savedAt, fromShareLink)) ?? null;
+    if (!promptEl) {
+      // Without a prompt the stored session is kept rather than replaced by a shared scene
+      if (!fromShareLink) saving = true;
+      return;
+    }
+    ['click', 'mousedown', 'pointerdown'].forEach(type => promptEl?.addEventListener(type, stopDomEvent));
+
+    if (fromShareLink) {
+      document.getElementById('globe-session-restore-yes')?.addEventListener('click', () => {
+        closePrompt();
+        startSavingNow();
+      });
+      // Keeping the stored session leaves saving off for this page, so it is offered again next time
+      document.getElementById('globe-session-restore-no')?.addEventListener('click', () => {
+        promptEl?.remove();
+        promptEl = null;
+      });
+      return;
+    }
+
+    document.getElementById('globe-session-restore-yes')?.addEventListener('click', () => {
+      try {
+        restoreSession(session);
+      } catch (e) {
+        console.warn('[Globe] Could not restore drawing session', e);
+      }
+      closePrompt();
+    });
+    document.getElementById('globe-session-restore-no')?.addEventListener('click', closePrompt);
+  };
+
+  const start = (fromShareLink: boolean) => {
+    if (started) return;
+    started = true;
+    loadSession(storageKey)
+      .then(session => {
+        if (destroyed) return;
+        if (session && hasContent(session)) {
+          showPrompt(session, fromShareLink);
+        } else {
+          startSavingNow();
+        }
+      })
+      .catch(e => {
+        // An unreadable session is not replaced by a shared scene either
+        console.warn('[Globe] Could not read stored drawing session', e);
+        if (!fromShareLink) saving = true;
+      });
+  };
+
+  const clearStoredSessions = () => {
+    if (!window.confirm('Ta bort alla sparade ritningar och mätningar i den här webbläsaren?')) return;
+    if (saveTimer !== null) {
+      window.clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    if (promptEl) closePrompt();
+    clearSessions().catch(e => console.warn('[Globe] Could not clear stored sessions', e));
+  };
+
+  // Debounced saves may not have run when the page is closed
+  window.addEventListener('pagehide', flush);
+
+  const destroy = () => {
+    flush();
+    destroyed = true;
+    window.removeEventListener('pagehide', flush);
+    promptEl?.remove();
+    promptEl = null;
+  };
+
+  return {
+    start,
+    notifyChange,
+    clearStoredSessions,
+    destroy,
+  };
+};
@@ -1,5 +1,60 @@
 import pako from 'pako';
 
+import type { MeasureMode } from '../functions/measureTool';
+import type { GeoJsonFeatureCollection } from './types';
+
+/** Current scene-state payload version. Version 0 is the older polygon-only `polygon` link. */
+export const SCENE_STATE_VERSION = 1;
+export const SCENE_STATE_PARAM = 'globeState';
+/** Id of a payload stored at the draw tool's `share.endpoint` */
+export const SHORT_LINK_PARAM = 'globeShare';
+
+/** [lon, lat, height] in degrees and meters */
+export type SharedPosition = [number, number, number];
+
+export interface SharedCamera {
+  lon: number;
+  lat: number;
+  height: number;
+  /** Degrees */
+  heading: number;
+  pitch: number;
+  roll: number;
+}
+
+export interface SharedLayer {
+  name: string;
+  visible: boolean;
+  opacity: number;
+}
+
+export interface SharedMeasurement {
+  mode: MeasureMode;
+  positions: SharedPosition[];
+}
+
+export interface SharedViewshed {
+  start: SharedPosition;
+  end: SharedPosition;
+}
+
+export interface SceneState {
+  v: number;
+  polygons?: GeoJsonFeatureCollection;
+  /** Name of the scenario the polygons belong to */
+  scenario?: string;
+  camera?: SharedCamera;
+  /** 3D globe on/off */
+  globe?: boolean;
+  /** ISO date of the time picker, used for sun position and shadows */
+  time?: string;
+  shadows?: boolean;
+  /** THREEDTILE layers by name */
+  layers?: SharedLayer[];
+  measurements?: SharedMeasurement[];
+  viewshed?: SharedViewshed;
+}
+
 const roundCoord = (coord: number, decimals = 6) => {
   const factor = 10 ** decimals;
   return Math.round(coord * factor) / factor;
@@ -7,7 +62,7 @@ const roundCoord = (coord: number, decimals = 6) => {
 
 const roundPolygonCoordinates = (coordinates: any, decimals = 6) => {
   if (!Array.isArray(coordinates)) return coordinates;
-  // Polygon coordinates: [ [ [lng, lat], ... ] , ... ]
+  // Polygon coordinates: [ outerRing, ...holes ], each ring [ [lng, lat], ... ]
   return coordinates.map((ring: any) => {
     if (!Array.isArray(ring)) return ring;
     return ring.map((pos: any) => {
@@ -25,6 +80,25 @@ export const roundGeoJsonForShare = (geojson: any, decimals = 6) => {
   return {
     ...geojson,
     features: features.map((f: any) => {
+      if (f?.geometry?.type === 'MultiPolygon' && Array.isArray(f.geometry.coordinates)) {
+        return {
+          ...f,
+          geometry: {
+            ...f.geometry,
+            coordinates: f.geometry.coordinates.map((polygon: any) => roundPolygonCoordinates(polygon, decimals)),
+          },
+        };
+      }
+      // Walls: a LineString is rounded like a single ring
+      if (f?.geometry?.type === 'LineString' && Array.isArray(f.geometry.coordinates)) {
+        return {
+          ...f,
+          geometry: {
+            ...f.geometry,
+            coordinates: roundPolygonCoordinates([f.geometry.coordinates], decimals)[0],
+          },
+        };
+      }
       if (f?.geometry?.type !== 'Polygon') return f;
       return {
         ...f,
@@ -69,3 +143,125 @@ export const decodeCompressedBase64UrlToJson = (payload: string) => {
   const jsonStr = pako.inflate(bytes, { to: 'string' });
   return JSON.parse(jsonStr);
 };
+
+export const encodeSceneState = (state: SceneState) => {
+  const payload = state.polygons ? { ...state, polygons: roundGeoJsonForShare(state.polygons, 6) } : state;
+  return encodeCompressedJsonToBase64Url(payload);
+};
+
+export const decodeSceneState = (payload: string): SceneState | null => {
+  const value = decodeCompressedBase64UrlToJson(payload);
+  if (!value || typeof value !== 'object' || typeof value.v !== 'number') return null;
+  if (value.v > SCENE_STATE_VERSION) {
+    console.warn(`[Globe] Share link version ${value.v} is newer than supported (${SCENE_STATE_VERSION}), restoring known parts`);
+  }
+  return value as SceneState;
+};
+
+/** True if the URL carries a share link of any kind */
+export const hasSharedSceneParams = (search: string = window.location.search) => {
+  const params = new URLSearchParams(search);
+  return params.has(SCENE_STATE_PARAM) || params.has(SHORT_LINK_PARAM)
+    || (params.get('display3dDrawing') === 'true' && params.has('polygon'));
+};
+
+/**
+ * Reads the shared scene from `globeState`, or from the older `display3dDrawing` + `polygon` parameters
+ */
+export const readSharedSceneState = (search: string = window.location.search): SceneState | null => {
+  const params = new URLSearchParams(search);
+
+  const statePayload = params.get(SCENE_STATE_PARAM);
+  if (statePayload) {
+    try {
+      return decodeSceneState(statePayload);
+    } catch {
+      console.warn('Invalid scene share URL');
+      return null;
+    }
+  }
+
+  const polygonPayload = params.get('polygon');
+  if (params.get('display3dDrawing') !== 'true' || !polygonPayload) return null;
+  try {
+    const polygons = decodeCompressedBase64UrlToJson(polygonPayload);
+    return polygons && typeof polygons === 'object' ? { v: 0, polygons } : null;
+  } catch {
+    console.warn('Invalid polygon share URL');
+    return null;
+  }
+};
+
+/** Current page URL without any share parameters */
+const pageUrlWithoutShare = () => {
+  const url = new URL(window.location.href);
+  ['display3dDrawing', 'polygon', SCENE_STATE_PARAM, SHORT_LINK_PARAM].forEach(name => url.searchParams.delete(name));
+  return url;
+};
+
+const shortLinkUrl = (endpoint: string, id: string) => `${endpoint.replace(/\/+$/, '')}/${encodeURIComponent(id)}`;
+
+// ms before a short-link request is given up, so a hanging endpoint falls back to the full URL
+const SHORT_LINK_TIMEOUT = 3000;
+
+/** JSON body of a short-link endpoint request, aborted after SHORT_LINK_TIMEOUT */
+const fetchShortLinkJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SHORT_LINK_TIMEOUT);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) throw new Error(`Share endpoint responded ${response.status}`);
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Current page URL with the scene state, replacing any older share parameters
+ */
+export const buildSceneShareUrl = (state: SceneState) => {
+  const url = pageUrlWithoutShare();
+  url.searchParams.set(SCENE_STATE_PARAM, encodeSceneState(state));
+  return url.toString();
+};
+
+/**
+ * Stores the compressed scene at a short-link endpoint and returns a `globeShare=<id>` URL.
+ * Throws if the endpoint is unreachable, does not answer in time or answers without an id.
+ */
+export const createShortShareUrl = async (endpoint: string, state: SceneState): Promise<string> => {
+  const body = await fetchShortLinkJson(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ payload: encodeSceneState(state) }),
+  });
+  if (!body || typeof body.id !== 'string' || !body.id) throw new Error('Share endpoint returned no id');
+
+  const url = pageUrlWithoutShare();
+  url.searchParams.set(SHORT_LINK_PARAM, body.id);
+  return url.toString();
+};
+
+/**
+ * Like readSharedSceneState, but first resolves a `globeShare` id through the short-link endpoint
+ */
+export const resolveSharedSceneState = async (
+  endpoint?: string,
+  search: string = window.location.search
+): Promise<SceneState | null> => {
+  const id = new URLSearchParams(search).get(SHORT_LINK_PARAM);
+  if (!id) return readSharedSceneState(search);
+  if (!endpoint) {
+    console.warn('[Globe] Share link needs drawTool share.endpoint to be resolved');
+    return null;
+  }
+
+  try {
+    const body = await fetchShortLinkJson(shortLinkUrl(endpoint, id));
+    return typeof body?.payload === 'string' ? decodeSceneState(body.payload) : null;
+  } catch (e) {
+    console.warn('[Globe] Could not resolve share link', e);
+    return null;
+  }
+};
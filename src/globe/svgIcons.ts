@@ -67,6 +67,11 @@ export const GLOBE_ICONS: Record<string, SvgIconDef> = {
     viewBox: '0 0 24 24',
     svg: '<path d="M5 20h14v-2H5v2zm7-18c-.55 0-1 .45-1 1v10.59l-3.29-3.29c-.63-.63-1.71-.18-1.71.71 0 .39.16.77.44 1.06l5 5c.39.39 1.02.39 1.41 0l5-5c.28-.29.44-.67.44-1.06 0-.89-1.08-1.34-1.71-.71L13 13.59V3c0-.55-.45-1-1-1z" />',
   },
+  upload: {
+    id: 'ic_upload_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M5 20h14v-2H5v2zm7-18c-.26 0-.51.1-.71.29l-5 5c-.63.63-.18 1.71.71 1.71.27 0 .52-.11.71-.29L11 5.41V16c0 .55.45 1 1 1s1-.45 1-1V5.41l3.29 3.3c.19.18.44.29.71.29.89 0 1.34-1.08.71-1.71l-5-5C12.51 2.1 12.26 2 12 2z" />',
+  },
   flash: {
     id: 'ic_flash_24px',
     viewBox: '0 0 24 24',
@@ -82,6 +87,86 @@ export const GLOBE_ICONS: Record<string, SvgIconDef> = {
     viewBox: '0 0 25 25',
     svg: '<ellipse cx="7" cy="4" rx="1.5" ry="2"/><ellipse cx="10.5" cy="3" rx="1.5" ry="2.2"/><ellipse cx="14" cy="3.5" rx="1.4" ry="2"/><ellipse cx="17" cy="4.5" rx="1.3" ry="1.8"/><ellipse cx="19.5" cy="6" rx="1.2" ry="1.6"/><ellipse cx="12.5" cy="11" rx="7" ry="5"/><ellipse cx="10" cy="18" rx="4.5" ry="6"/>',
   },
+  undo: {
+    id: 'ic_undo_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M12.5 8c-2.65 0-5.05.99-6.9 2.6L2 7v9h9l-3.62-3.62c1.39-1.16 3.16-1.88 5.12-1.88 3.54 0 6.55 2.31 7.6 5.5l2.37-.78C21.08 11.03 17.15 8 12.5 8z" />',
+  },
+  redo: {
+    id: 'ic_redo_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M18.4 10.6C16.55 8.99 14.15 8 11.5 8c-4.65 0-8.58 3.03-9.96 7.22L3.9 16c1.05-3.19 4.05-5.5 7.6-5.5 1.95 0 3.73.72 5.12 1.88L13 16h9V7l-3.6 3.6z" />',
+  },
+  history: {
+    id: 'ic_history_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z" />',
+  },
+  hole: {
+    id: 'ic_hole_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path fill-rule="evenodd" d="M3 3h18v18H3V3zm5 5v8h8V8H8z" />',
+  },
+  layers: {
+    id: 'ic_layers_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M11.99 18.54l-7.37-5.73L3 14.07l9 7 9-7-1.63-1.27-7.38 5.74zM12 16l7.36-5.73L21 9l-9-7-9 7 1.63 1.27L12 16z" />',
+  },
+  roofing: {
+    id: 'ic_roofing_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M13 18h-2v-2h2v2zm2-4H9v6h6v-6zm4-4.7V4h-3v2.6L12 3 2 12h3l7-6.31L19 12h3l-3-2.7z" />',
+  },
+  circle: {
+    id: 'ic_circle_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M12 2C6.47 2 2 6.47 2 12s4.47 10 10 10 10-4.47 10-10S17.53 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8z" />',
+  },
+  fence: {
+    id: 'ic_fence_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M21 12v-2h-2V7l-3-3-2 2-2-2-2 2-2-2-3 3v3H3v2h2v2H3v2h2v4h14v-4h2v-2h-2v-2h2zm-5-5.17l1 1V10h-2V7.83l1-1zm-4 0l1 1V10h-2V7.83l1-1zM11 14v-2h2v2h-2zm2 2v2h-2v-2h2zM7 7.83l1-1 1 1V10H7V7.83zM7 12h2v2H7v-2zm0 4h2v2H7v-2zm10 2h-2v-2h2v2zm0-4h-2v-2h2v2z" />',
+  },
+  formatListNumbered: {
+    id: 'ic_format_list_numbered_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M2 17h2v.5H3v1h1v.5H2v1h3v-4H2v1zm1-9h1V4H2v1h1v3zm-1 3h1.8L2 13.1v.9h3v-1H3.2L5 10.9V10H2v1zm5-6v2h14V5H7zm0 14h14v-2H7v2zm0-6h14v-2H7v2z" />',
+  },
+  gpsFixed: {
+    id: 'ic_gps_fixed_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M12 8c-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4-1.79-4-4-4zm8.94 3c-.46-4.17-3.77-7.48-7.94-7.94V1h-2v2.06C6.83 3.52 3.52 6.83 3.06 11H1v2h2.06c.46 4.17 3.77 7.48 7.94 7.94V23h2v-2.06c4.17-.46 7.48-3.77 7.94-7.94H23v-2h-2.06zM12 19c-3.87 0-7-3.13-7-7s3.13-7 7-7 7 3.13 7 7-3.13 7-7 7z" />',
+  },
+  straighten: {
+    id: 'ic_straighten_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M21 6H3c-1.1 0-2 .9-2 2v8c0 1.1.9 2 2 2h18c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2zm0 10H3V8h2v4h2V8h2v4h2V8h2v4h2V8h2v4h2V8h2v8z" />',
+  },
+  contentCopy: {
+    id: 'ic_content_copy_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M16 1H4c-1.1 0-2 .9-2 2v14h2V3h12V1zm3 4H8c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h11c1.1 0 2-.9 2-2V7c0-1.1-.9-2-2-2zm0 16H8V7h11v14z" />',
+  },
+  viewModule: {
+    id: 'ic_view_module_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M4 11h5V5H4v6zm0 7h5v-6H4v6zm6 0h5v-6h-5v6zm6 0h5v-6h-5v6zm-6-7h5V5h-5v6zm6-6v6h5V5h-5z" />',
+  },
+  texture: {
+    id: 'ic_texture_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M19.51 3.08L3.08 19.51c.09.34.27.65.51.9.25.24.56.42.9.51L20.93 4.49c-.19-.69-.73-1.23-1.42-1.41zM11.88 3L3 11.88v2.83L14.71 3h-2.83zM5 3c-1.1 0-2 .9-2 2v2l4-4H5zm14 18c.55 0 1.05-.22 1.41-.59.37-.36.59-.86.59-1.41v-2l-4 4h2zm-9.71 0h2.83L21 12.12V9.29L9.29 21z" />',
+  },
+  domainDisabled: {
+    id: 'ic_domain_disabled_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M8 5h2v2h-.9L12 9.9V9h8v8.9l2 2V7H12V3H5.1L8 5.9zm8 6h2v2h-2zM1.3 1.8L.03 3.07 2 5.04V21h15.96l2 2 1.27-1.27L1.3 1.8zM6 19H4v-2h2v2zm0-4H4v-2h2v2zm0-4H4V9h2v2zm4 8H8v-2h2v2zm-2-4v-2h2v2H8zm4 4v-2h1.96l2 2H12z" />',
+  },
+  vectorPolygon: {
+    id: 'ic_vector_polygon_24px',
+    viewBox: '0 0 24 24',
+    svg: '<path d="M2,2V8H4.28L5.57,16H4V22H10V20.06L15,20.05V22H21V16H19.17L20,9H22V3H16V6.53L14.8,8H9.59L8,5.82V2M4,4H6V6H4M18,5H20V7H18M6.31,8H7.11L9,10.59V14H15V10.91L16.57,9H18L17.16,16H15V18.06H10V16H7.6M11,10H13V12H11M6,18H8V20H6M17,18H19V20H17" />',
+  },
 };
 
 // ============================================================================
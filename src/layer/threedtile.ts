@@ -35,6 +35,7 @@ import {
   ModelDefinition,
   ThreedTileLayer as BaseThreedTileLayer,
   applyMask,
+  removeMask,
   toggleMask
 } from '../functions/tileClipping';
 
@@ -166,6 +167,67 @@ export default async function load3DLayers(
   );
 }
 
+/**
+ * Mask from footprints that change while the map is open, e.g. drawn proposals that replace existing
+ * buildings. `mask` has the same form as a layer's mask option; the footprints take the place of its
+ * models or polygon file. Tilesets that are still loading are masked once they are ready.
+ */
+export function createFootprintMask(
+  scene: Scene,
+  map: OLMap,
+  mask: Record<string, number | MaskConfig>
+) {
+  const options: Record<string, unknown> = { name: 'footprint-mask', mask };
+  const maskLayer: BaseThreedTileLayer = { get: <T>(key: string) => options[key] as T };
+  let footprintsKey = '[]';
+  let removeWaitListener: (() => void) | null = null;
+
+  const threedLayers = () =>
+    (map.getLayers().getArray() as unknown as ThreedTileLayer[]).filter((layer) => layer.get('type') === 'THREEDTILE');
+
+  const tilesetsReady = () => Object.keys(mask).every((name) =>
+    threedLayers().some((layer) => layer.get('name') === name && layer.CesiumTileset));
+
+  function apply() {
+    const layers = threedLayers();
+    removeMask(maskLayer, layers);
+    if (maskLayer.MaskFootprints?.length) {
+      void applyMask(scene, maskLayer, layers, bufferPositions);
+    }
+    scene.requestRender();
+  }
+
+  function waitForTilesets() {
+    if (removeWaitListener || tilesetsReady()) return;
+    removeWaitListener = scene.postRender.addEventListener(() => {
+      if (!tilesetsReady()) return;
+      removeWaitListener?.();
+      removeWaitListener = null;
+      apply();
+    });
+  }
+
+  return {
+    /** Masks the tilesets under these footprints instead of the previous ones */
+    setFootprints(footprints: Cartesian3[][]) {
+      const key = JSON.stringify(footprints.map((ring) => ring.map((p) => [p.x, p.y, p.z])));
+      if (key === footprintsKey) return;
+      footprintsKey = key;
+      maskLayer.MaskFootprints = footprints;
+      apply();
+      if (footprints.length) waitForTilesets();
+    },
+    destroy() {
+      removeWaitListener?.();
+      removeWaitListener = null;
+      removeMask(maskLayer, threedLayers());
+      scene.requestRender();
+    },
+  };
+}
+
+export type FootprintMask = ReturnType<typeof createFootprintMask>;
+
 async function ensureLayerInitialized(
   scene: Scene,
   map: OLMap,
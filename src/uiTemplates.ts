@@ -1,3 +1,33 @@
+// Snapping toggle and tolerance, shared by the draw and measure toolbars
+const snapPopoverHtml = (idPrefix: string) => `
+    <div class="o-popover-container">
+      <button id="${idPrefix}-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip active" aria-label="Fäst" tabindex="0" title="Fäst mot hörn, kanter, byggnader och räta vinklar">
+        <span class="icon">
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_gps_fixed_24px"></use>
+          </svg>
+        </span>
+        <span data-tooltip="Fäst" data-placement="south"></span>
+      </button>
+      <div id="${idPrefix}-popover" class="o-popover" style="width: min-content; left: 80px;">
+        <div style="padding: 0.25rem 0.75rem; display: flex; flex-direction: column; gap: 4px; font-size: 12px; white-space: nowrap;">
+          <label style="display: flex; align-items: center; gap: 6px;">
+            <input id="${idPrefix}-enabled" type="checkbox" checked />
+            Fäst punkter
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px;" title="Sök kanten på 3D-byggnader under markören (kräver mer av datorn)">
+            <input id="${idPrefix}-tile-edges" type="checkbox" />
+            Byggnadskanter
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px;" title="Hur nära markören (pixlar) en punkt fästs">
+            Tolerans:
+            <input id="${idPrefix}-tolerance" type="number" value="10" min="1" max="50" step="1" style="width: 4rem;" />
+            px
+          </label>
+        </div>
+      </div>
+    </div>`;
+
 export const measureToolbarHtml = () => `
   <div
     id="measureToolbar"
@@ -39,6 +69,7 @@ export const measureToolbarHtml = () => `
       </span>
       <span data-tooltip="Yta" data-placement="south"></span>
     </button>
+${snapPopoverHtml('measure-snap')}
 
     <div style="width: 1px; background: #ccc; margin: 4px 2px;"></div>
 
@@ -65,16 +96,86 @@ export const measureToolbarHtml = () => `
 export interface PolygonToolbarOptions {
   showGeojson?: boolean;
   showDxf?: boolean;
+  showGlb?: boolean;
+  showCityJson?: boolean;
+  showKml?: boolean;
+  showCsv?: boolean;
   dxfCrs?: string[];
   showShare?: boolean;
+  showImport?: boolean;
+  /** Button that removes locally stored sessions */
+  showClearSessions?: boolean;
+  showScenarios?: boolean;
+  /** Fixed RH2000 base heights, when `geoidHeight` is configured */
+  showFixedBase?: boolean;
 }
 
+// Roof type, ridge height and ridge direction; the same fields for new polygons and the selected one
+const roofFieldsHtml = (idPrefix: string) => `
+        <div style="padding: 0.25rem 0.75rem; display: flex; flex-direction: column; gap: 4px; font-size: 12px; white-space: nowrap;">
+          <select id="${idPrefix}-type" style="width: 8rem;">
+            <option value="flat" selected>Platt tak</option>
+            <option value="gable">Sadeltak</option>
+            <option value="hip">Valmat tak</option>
+            <option value="shed">Pulpettak</option>
+            <option value="mansard">Mansardtak</option>
+          </select>
+          <label style="display: flex; align-items: center; gap: 6px;">
+            Nockhöjd:
+            <input id="${idPrefix}-height" type="number" value="3" min="0.1" step="0.5" style="width: 4rem;" />
+            m
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px;" title="Nockens riktning i grader från norr (tomt = längs längsta sidan)">
+            Nockriktning:
+            <input id="${idPrefix}-direction" type="number" placeholder="auto" min="0" max="360" step="15" style="width: 4rem;" />
+            °
+          </label>
+        </div>`;
+
+// Facade and roof materials; empty keeps the polygon's colour
+const materialOptionsHtml = `
+              <option value="" selected>Färg</option>
+              <option value="brick">Tegel</option>
+              <option value="plaster">Puts</option>
+              <option value="glass">Glas</option>
+              <option value="wood">Trä</option>
+              <option value="concrete">Betong</option>`;
+
+// Base height mode of the toolbar ('polygon-base') or edit panel ('polygon-edit-base') height popover.
+// The fixed RH2000 height is only offered when the height system (`geoidHeight`) is configured.
+const baseHeightFieldsHtml = (idPrefix: string, showFixed: boolean) => `
+          <div id="${idPrefix}-row" style="display: flex; flex-direction: column; gap: 4px;">
+            <label style="display: flex; align-items: center; gap: 6px;" title="Hur volymens underkant bestäms">
+              Bas:
+              <select id="${idPrefix}-mode" style="width: 8rem;">
+                <option value="clicked" selected>Klickade punkter</option>
+                <option value="lowest">Lägsta marken</option>
+                <option value="highest">Högsta marken</option>
+                <option value="average">Markens medelhöjd</option>${showFixed ? `
+                <option value="fixed">Fast höjd</option>` : ''}
+              </select>
+            </label>
+            <label id="${idPrefix}-fixed-row" style="display: none; align-items: center; gap: 6px;" title="Underkantens höjd i RH2000">
+              Höjd:
+              <input id="${idPrefix}-fixed" type="number" value="0" step="0.1" style="width: 5rem;" />
+              m (RH2000)
+            </label>
+          </div>`;
+
 export const polygonToolbarHtml = (options: PolygonToolbarOptions = {}) => {
   const {
     showGeojson = true,
     showDxf = true,
+    showGlb = true,
+    showCityJson = true,
+    showKml = true,
+    showCsv = true,
     dxfCrs = ['EPSG:3006'],
     showShare = true,
+    showImport = true,
+    showClearSessions = false,
+    showScenarios = true,
+    showFixedBase = false,
   } = options;
 
   // Generate download buttons
@@ -82,15 +183,32 @@ export const polygonToolbarHtml = (options: PolygonToolbarOptions = {}) => {
   if (showGeojson) {
     downloadButtons.push(`<button id="polygon-download-geojson" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">GeoJSON 2D (EPSG:4326)</button>`);
   }
+  if (showKml) {
+    downloadButtons.push(`<button id="polygon-download-kml" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">KML (Google Earth)</button>`);
+    downloadButtons.push(`<button id="polygon-download-kmz" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">KMZ (Google Earth)</button>`);
+  }
+  if (showCityJson && dxfCrs.length > 0) {
+    dxfCrs.forEach(crs => {
+      const safeId = crs.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase();
+      downloadButtons.push(`<button id="polygon-download-cityjson-${safeId}" data-crs="${crs}" class="polygon-download-cityjson-btn" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">CityJSON LoD1 (${crs})</button>`);
+    });
+  }
+  if (showCsv) {
+    downloadButtons.push(`<button id="polygon-download-csv" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">Ytor och volymer (CSV)</button>`);
+  }
+  if (showGlb) {
+    downloadButtons.push(`<button id="polygon-download-glb" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">GLB 3D (lokalt ENU)</button>`);
+  }
   if (showDxf && dxfCrs.length > 0) {
     dxfCrs.forEach(crs => {
       const safeId = crs.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase();
       downloadButtons.push(`<button id="polygon-download-dxf-${safeId}" data-crs="${crs}" class="polygon-download-dxf-btn" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">DXF 3D (${crs})</button>`);
     });
+    downloadButtons.push(`<label style="display: flex; align-items: center; gap: 4px; font-size: 12px; white-space: nowrap;"><input id="polygon-download-dxf-polyface" type="checkbox"> DXF som slutna solider (POLYFACE MESH)</label>`);
   }
 
   const shareButtonHtml = showShare ? `
-    <button id="polygon-share" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Dela" tabindex="0" title="Dela ritade polygoner">
+    <button id="polygon-share" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Dela" tabindex="0" title="Dela vy, ritade polygoner och mätningar">
       <span class="icon">
         <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(210, 100%, 40%)">
           <use xlink:href="#ic_screen_share_outline_24px"></use>
@@ -100,6 +218,36 @@ export const polygonToolbarHtml = (options: PolygonToolbarOptions = {}) => {
     </button>
   ` : '';
 
+  const importCrsOptions = (dxfCrs.length > 0 ? dxfCrs : ['EPSG:3006'])
+    .map(crs => `<option value="${crs}">${crs}</option>`)
+    .join('');
+
+  const importSectionHtml = showImport ? `
+    <div class="o-popover-container">
+      <button id="polygon-import-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Importera" tabindex="0" title="Importera polygoner från fil">
+        <span class="icon">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_upload_24px"></use>
+          </svg>
+        </span>
+        <span data-tooltip="Importera" data-placement="south"></span>
+      </button>
+      <div id="polygon-import-popover" class="o-popover" style="width: min-content; left: 90px;">
+        <div style="padding: 0.25rem 0.5rem; display: flex; flex-direction: column; gap: 6px;">
+          <div id="polygon-import-dropzone" style="padding: 12px 8px; border: 2px dashed #ccc; border-radius: 4px; text-align: center; font-size: 12px; white-space: nowrap; cursor: pointer;">
+            Släpp GeoJSON/CityJSON/KML/KMZ/DXF här<br>eller klicka för att välja fil
+          </div>
+          <input id="polygon-import-file" type="file" accept=".geojson,.json,.kml,.kmz,.dxf" multiple style="display: none;">
+          <label style="display: flex; align-items: center; gap: 6px; font-size: 12px; white-space: nowrap;">
+            DXF-koordinater:
+            <select id="polygon-import-dxf-crs" style="font-size: 12px;">${importCrsOptions}</select>
+          </label>
+          <div id="polygon-import-status" style="font-size: 12px; white-space: pre-line; display: none;"></div>
+        </div>
+      </div>
+    </div>
+  ` : '';
+
   const downloadSectionHtml = downloadButtons.length > 0 ? `
     <div class="o-popover-container">
       <button id="polygon-download-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Ladda ner" tabindex="0" title="Ladda ner ritade polygoner">
@@ -118,6 +266,73 @@ export const polygonToolbarHtml = (options: PolygonToolbarOptions = {}) => {
     </div>
   ` : '';
 
+  const coordinatesSectionHtml = `
+    <div class="o-popover-container">
+      <button id="polygon-coordinates-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Koordinater" tabindex="0" title="Skapa polygon från inklistrade koordinater">
+        <span class="icon">
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_format_list_numbered_24px"></use>
+          </svg>
+        </span>
+        <span data-tooltip="Koordinater" data-placement="south"></span>
+      </button>
+      <div id="polygon-coordinates-popover" class="o-popover" style="width: min-content; left: 90px;">
+        <div style="padding: 0.25rem 0.5rem; display: flex; flex-direction: column; gap: 6px; font-size: 12px; white-space: nowrap;">
+          <textarea id="polygon-coordinates-text" rows="6" style="width: 16rem; font-family: monospace; font-size: 12px;" placeholder="En punkt per rad, t.ex.&#10;6580012.35 153420.10&#10;6580020.80 153431.55&#10;6580008.12 153438.90"></textarea>
+          <label style="display: flex; align-items: center; gap: 6px;">
+            Koordinatsystem:
+            <select id="polygon-coordinates-crs" style="font-size: 12px;">${importCrsOptions}<option value="EPSG:4326">EPSG:4326 (WGS84)</option></select>
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px;" title="Automatiskt: det större värdet är nordlig koordinat">
+            Ordning:
+            <select id="polygon-coordinates-order" style="font-size: 12px;">
+              <option value="auto" selected>Automatisk</option>
+              <option value="ne">Nordlig, östlig (N E)</option>
+              <option value="en">Östlig, nordlig (E N)</option>
+            </select>
+          </label>
+          <button id="polygon-coordinates-create" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">Skapa polygon</button>
+          <div id="polygon-coordinates-status" style="font-size: 12px; white-space: pre-line; display: none;"></div>
+        </div>
+      </div>
+    </div>
+  `;
+
+  // Rows are filled in by polygonUi, scenario names are user input
+  const scenarioSectionHtml = showScenarios ? `
+    <div class="o-popover-container">
+      <button id="polygon-scenarios-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Scenarier" tabindex="0" title="Scenarier: växla och jämför alternativ">
+        <span class="icon">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_layers_24px"></use>
+          </svg>
+        </span>
+        <span data-tooltip="Scenarier" data-placement="south"></span>
+      </button>
+      <div id="polygon-scenarios-popover" class="o-popover" style="width: min-content; left: 90px;">
+        <div style="padding: 0.25rem 0.5rem; display: flex; flex-direction: column; gap: 6px; font-size: 12px;">
+          <div id="polygon-scenarios-list" style="display: flex; flex-direction: column; gap: 4px;"></div>
+          <button id="polygon-scenarios-new" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white; white-space: nowrap;">+ Nytt scenario</button>
+          <label style="display: flex; align-items: center; gap: 6px; white-space: nowrap;">
+            Jämför med:
+            <select id="polygon-scenarios-compare" style="font-size: 12px;"></select>
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px; white-space: nowrap;">
+            Jämförelsefärg:
+            <select id="polygon-scenarios-compare-color" style="font-size: 12px;">
+              <option value="cyan" selected>Cyan</option>
+              <option value="red">Röd</option>
+              <option value="green">Grön</option>
+              <option value="blue">Blå</option>
+              <option value="yellow">Gul</option>
+              <option value="white">Vit</option>
+            </select>
+          </label>
+        </div>
+      </div>
+    </div>
+  ` : '';
+
   return `
   <div
     id="polygonDrawToolbar"
@@ -142,6 +357,26 @@ export const polygonToolbarHtml = (options: PolygonToolbarOptions = {}) => {
       <span data-tooltip="Rektangel" data-placement="south"></span>
     </button>
 
+    <button id="wall-draw" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Vägg" tabindex="0" title="Rita vägg eller staket (Vänsterklick: lägg till punkter, Högerklick: avsluta)">
+      <span class="icon">
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_fence_24px"></use>
+        </svg>
+      </span>
+      <span data-tooltip="Vägg" data-placement="south"></span>
+    </button>
+
+    <button id="circle-draw" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Cirkel" tabindex="0" title="Rita cirkel eller cylinder (Tryck i mitten och dra ut radien, eller klicka i mitten och sedan på radien)">
+      <span class="icon">
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_circle_24px"></use>
+        </svg>
+      </span>
+      <span data-tooltip="Cirkel" data-placement="south"></span>
+    </button>
+${snapPopoverHtml('polygon-snap')}
+    ${coordinatesSectionHtml}
+
     <div class="o-popover-container">
       <button id="polygon-height-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Höjd" tabindex="0" title="Extruderingshöjd (meter)">
         <span class="icon">
@@ -152,7 +387,7 @@ export const polygonToolbarHtml = (options: PolygonToolbarOptions = {}) => {
         <span data-tooltip="Höjd" data-placement="south"></span>
       </button>
       <div id="polygon-height-popover" class="o-popover" style="width: min-content; left: 80px;">
-        <div style="padding: 0.25rem 0.75rem;">
+        <div style="padding: 0.25rem 0.75rem; display: flex; flex-direction: column; gap: 4px; font-size: 12px; white-space: nowrap;">
           <input
             id="polygon-height-compact"
             type="number"
@@ -161,10 +396,32 @@ export const polygonToolbarHtml = (options: PolygonToolbarOptions = {}) => {
             step="1"
             style="width: 6rem;"
           />
+          <label style="display: flex; align-items: center; gap: 6px;" title="Tjocklek för nya väggar">
+            Väggtjocklek:
+            <input id="polygon-wall-thickness" type="number" value="0.3" min="0.05" step="0.05" style="width: 4rem;" />
+            m
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px;" title="Antal hörn för nya cirklar">
+            Cirkelsegment:
+            <input id="polygon-circle-segments" type="number" value="32" min="3" max="256" step="1" style="width: 4rem;" />
+          </label>${baseHeightFieldsHtml('polygon-base', showFixedBase)}
         </div>
       </div>
     </div>
 
+    <div class="o-popover-container">
+      <button id="polygon-roof-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Tak" tabindex="0" title="Taktyp för nya polygoner">
+        <span class="icon">
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_roofing_24px"></use>
+          </svg>
+        </span>
+        <span data-tooltip="Tak" data-placement="south"></span>
+      </button>
+      <div id="polygon-roof-popover" class="o-popover" style="width: min-content; left: 80px;">${roofFieldsHtml('polygon-roof')}
+      </div>
+    </div>
+
     <div class="o-popover-container">
       <button id="polygon-color-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Färg" tabindex="0" title="Fyllnadsfärg">
         <span class="icon">
@@ -215,13 +472,87 @@ export const polygonToolbarHtml = (options: PolygonToolbarOptions = {}) => {
       <span data-tooltip="Etiketter" data-placement="south"></span>
     </button>
 
+    <button id="polygon-undo" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Ångra" tabindex="0" title="Ångra (Ctrl+Z)" disabled>
+      <span class="icon">
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_undo_24px"></use>
+        </svg>
+      </span>
+      <span data-tooltip="Ångra" data-placement="south"></span>
+    </button>
+
+    <button id="polygon-redo" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Gör om" tabindex="0" title="Gör om (Ctrl+Y)" disabled>
+      <span class="icon">
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_redo_24px"></use>
+        </svg>
+      </span>
+      <span data-tooltip="Gör om" data-placement="south"></span>
+    </button>
+
+    ${scenarioSectionHtml}
+    ${importSectionHtml}
     ${shareButtonHtml}
     ${downloadSectionHtml}
+    ${showClearSessions ? `
+    <button id="polygon-clear-sessions" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Rensa sparade sessioner" tabindex="0" title="Rensa sparade sessioner i webbläsaren">
+      <span class="icon">
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_history_24px"></use>
+        </svg>
+      </span>
+      <span data-tooltip="Rensa sparade sessioner" data-placement="south"></span>
+    </button>` : ''}
   </div>
 `;
 };
 
-export const polygonEditPanelHtml = () => `
+/**
+ * Typed length and angle of the next segment, shown while drawing polygons and rectangles
+ */
+export const segmentInputHtml = () => `
+  <div
+    id="polygon-segment-input"
+    class="flex fixed bottom-center bg-inverted z-index-ontop-high no-print"
+    style="display: none; margin-bottom: 60px; gap: 8px; padding: 6px 10px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; align-items: center; border-radius: 4px; font-size: 12px; white-space: nowrap;"
+  >
+    <label style="display: flex; align-items: center; gap: 4px;" title="Längd på nästa sträcka (tomt = till markören)">
+      Längd:
+      <input id="polygon-segment-length" type="number" min="0" step="0.1" style="width: 5rem;" />
+      m
+    </label>
+    <label style="display: flex; align-items: center; gap: 4px;" title="Riktning på nästa sträcka (tomt = mot markören)">
+      Vinkel:
+      <input id="polygon-segment-angle" type="number" step="1" style="width: 4rem;" />
+      °
+    </label>
+    <select id="polygon-segment-angle-mode" style="font-size: 12px;">
+      <option value="bearing" selected>från norr</option>
+      <option value="turn">mot föregående kant</option>
+    </select>
+    <button id="polygon-segment-add" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;" title="Lägg till punkten (Enter)">Lägg till</button>
+  </div>
+`;
+
+/**
+ * Offer to restore the drawings stored from a previous visit
+ */
+// With a share link open, the prompt asks whether the shared scene may replace the stored session
+export const sessionRestorePromptHtml = (summary: string, savedAt: string, sharedScene = false) => `
+  <div
+    id="globe-session-restore"
+    class="flex fixed bottom-center bg-inverted z-index-ontop-high no-print"
+    style="margin-bottom: 60px; gap: 8px; padding: 8px 12px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; align-items: center; border-radius: 4px; font-size: 13px;"
+  >
+    <span>${sharedScene
+      ? `Länken visar en delad scen. Din sparade session (${summary}, sparad ${savedAt}) behålls tills du väljer att ersätta den.`
+      : `Återställa föregående session? ${summary}, sparad ${savedAt}.`}</span>
+    <button id="globe-session-restore-yes" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">${sharedScene ? 'Ersätt med delad scen' : 'Återställ'}</button>
+    <button id="globe-session-restore-no" style="padding: 4px 8px; cursor: pointer; border: 1px solid #ccc; border-radius: 3px; background: white;">${sharedScene ? 'Behåll min session' : 'Ignorera'}</button>
+  </div>
+`;
+
+export const polygonEditPanelHtml = (storeyHeight = 3, showMaskTiles = false, showFixedBase = false) => `
   <div
     id="polygonEditPanel"
     class="flex fixed bottom-center divider-horizontal bg-inverted z-index-ontop-high no-print"
@@ -243,7 +574,7 @@ export const polygonEditPanelHtml = () => `
         </span>
       </button>
       <div id="polygon-edit-height-popover" class="o-popover" style="width: min-content; left: 80px; bottom: 40px;">
-        <div style="padding: 0.25rem 0.75rem;">
+        <div style="padding: 0.25rem 0.75rem; display: flex; flex-direction: column; gap: 4px; font-size: 12px; white-space: nowrap;">
           <input
             id="polygon-edit-height-input"
             type="number"
@@ -252,10 +583,38 @@ export const polygonEditPanelHtml = () => `
             step="1"
             style="width: 6rem;"
           />
+          <label id="polygon-edit-thickness-row" style="display: none; align-items: center; gap: 6px;" title="Väggens tjocklek">
+            Tjocklek:
+            <input id="polygon-edit-thickness-input" type="number" value="0.3" min="0.05" step="0.05" style="width: 4rem;" />
+            m
+          </label>
+          <div id="polygon-edit-circle-row" style="display: none; flex-direction: column; gap: 4px;">
+            <label style="display: flex; align-items: center; gap: 6px;" title="Cirkelns radie">
+              Radie:
+              <input id="polygon-edit-radius-input" type="number" value="5" min="0.1" step="0.5" style="width: 4rem;" />
+              m
+            </label>
+            <label style="display: flex; align-items: center; gap: 6px;" title="Antal hörn">
+              Segment:
+              <input id="polygon-edit-segments-input" type="number" value="32" min="3" max="256" step="1" style="width: 4rem;" />
+            </label>
+          </div>${baseHeightFieldsHtml('polygon-edit-base', showFixedBase)}
         </div>
       </div>
     </div>
 
+    <div class="o-popover-container">
+      <button id="polygon-edit-roof-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Tak" tabindex="0" title="Ändra tak">
+        <span class="icon">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_roofing_24px"></use>
+          </svg>
+        </span>
+      </button>
+      <div id="polygon-edit-roof-popover" class="o-popover" style="width: min-content; left: 80px; bottom: 40px;">${roofFieldsHtml('polygon-edit-roof')}
+      </div>
+    </div>
+
     <div class="o-popover-container">
       <button id="polygon-edit-color-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Färg" tabindex="0" title="Ändra färg">
         <span class="icon">
@@ -278,6 +637,42 @@ export const polygonEditPanelHtml = () => `
       </div>
     </div>
 
+    <div class="o-popover-container">
+      <button id="polygon-edit-material-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Material" tabindex="0" title="Fasad- och takmaterial, fönster">
+        <span class="icon">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_texture_24px"></use>
+          </svg>
+        </span>
+      </button>
+      <div id="polygon-edit-material-popover" class="o-popover" style="width: min-content; left: 74px; bottom: 40px;">
+        <div style="padding: 0.25rem 0.75rem; display: flex; flex-direction: column; gap: 4px; font-size: 12px; white-space: nowrap;">
+          <label style="display: flex; align-items: center; gap: 6px; justify-content: space-between;">
+            Fasad:
+            <select id="polygon-edit-material-facade" style="width: 7rem;">${materialOptionsHtml}
+            </select>
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px; justify-content: space-between;">
+            Tak:
+            <select id="polygon-edit-material-roof" style="width: 7rem;">${materialOptionsHtml}
+            </select>
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px; justify-content: space-between;" title="Fönster på fasaderna, våning för våning (inte på glasfasader)">
+            Fönster:
+            <select id="polygon-edit-material-windows" style="width: 7rem;">
+              <option value="none" selected>Inga</option>
+              <option value="punched">Enskilda</option>
+              <option value="ribbon">Fönsterband</option>
+            </select>
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px; justify-content: space-between;" title="Höjd per våning i fönsterrutnätet">
+            Våningshöjd:
+            <span><input id="polygon-edit-material-storey-height" type="number" value="${storeyHeight}" min="1" step="0.1" style="width: 4rem;" /> m</span>
+          </label>
+        </div>
+      </div>
+    </div>
+
     <button id="polygon-edit-opacity-toggle" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Opacitet" tabindex="0" title="Växla ogenomskinlig/genomskinlig">
       <span class="icon">
         <svg width="16" height="16" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
@@ -312,6 +707,104 @@ export const polygonEditPanelHtml = () => `
       </div>
     </div>
 
+    <button id="polygon-edit-duplicate" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Duplicera" tabindex="0" title="Duplicera (kopian markeras och kan dras på plats)">
+      <span class="icon">
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_content_copy_24px"></use>
+        </svg>
+      </span>
+    </button>
+
+    <div class="o-popover-container">
+      <button id="polygon-edit-array-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Kopior" tabindex="0" title="Rad eller rutnät av kopior">
+        <span class="icon">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_view_module_24px"></use>
+          </svg>
+        </span>
+      </button>
+      <div id="polygon-edit-array-popover" class="o-popover" style="width: min-content; left: 60px; bottom: 40px;">
+        <div style="padding: 0.25rem 0.75rem; display: flex; flex-direction: column; gap: 6px; font-size: 12px; white-space: nowrap;">
+          <label style="display: flex; align-items: center; gap: 6px;">
+            Typ:
+            <select id="polygon-edit-array-type">
+              <option value="linear">Rad</option>
+              <option value="grid">Rutnät</option>
+            </select>
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px;" title="Antal kopior (rad) eller kolumner (rutnät, originalet inräknat)">
+            <span id="polygon-edit-array-count-label">Kopior:</span>
+            <input id="polygon-edit-array-count" type="number" value="3" min="1" step="1" style="width: 4rem;" />
+          </label>
+          <label id="polygon-edit-array-rows-row" style="display: none; align-items: center; gap: 6px;" title="Antal rader, originalets rad inräknad">
+            Rader:
+            <input id="polygon-edit-array-rows" type="number" value="2" min="1" step="1" style="width: 4rem;" />
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px;" title="Avstånd mellan kopiorna; tomt = kopiorna ligger kant i kant">
+            Avstånd:
+            <input id="polygon-edit-array-spacing" type="number" min="0" step="0.5" placeholder="auto" style="width: 4rem;" />
+            m
+          </label>
+          <label id="polygon-edit-array-row-spacing-row" style="display: none; align-items: center; gap: 6px;" title="Avstånd mellan raderna; tomt = raderna ligger kant i kant">
+            Radavstånd:
+            <input id="polygon-edit-array-row-spacing" type="number" min="0" step="0.5" placeholder="auto" style="width: 4rem;" />
+            m
+          </label>
+          <label style="display: flex; align-items: center; gap: 6px;" title="Riktning medurs från norr; raderna läggs till höger om riktningen">
+            Riktning:
+            <input id="polygon-edit-array-bearing" type="number" value="90" min="0" max="360" step="15" style="width: 4rem;" />
+            °
+          </label>
+          <button id="polygon-edit-array-create" style="padding: 4px 8px; cursor: pointer;">Skapa kopior</button>
+          <div id="polygon-edit-array-status" style="white-space: normal; max-width: 14rem;"></div>
+        </div>
+      </div>
+    </div>
+
+    <div class="o-popover-container">
+      <button id="polygon-edit-metrics-button" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Nyckeltal" tabindex="0" title="Yta, omkrets, volym och BTA">
+        <span class="icon">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+            <use xlink:href="#ic_straighten_24px"></use>
+          </svg>
+        </span>
+      </button>
+      <div id="polygon-edit-metrics-popover" class="o-popover" style="width: min-content; left: 60px; bottom: 40px;">
+        <div style="padding: 0.25rem 0.75rem; display: flex; flex-direction: column; gap: 6px; font-size: 12px; white-space: nowrap;">
+          <table id="polygon-edit-metrics-table" style="border-collapse: collapse;"></table>
+          <label style="display: flex; align-items: center; gap: 6px;">
+            Våningshöjd:
+            <input id="polygon-edit-storey-height" type="number" value="${storeyHeight}" min="0.5" step="0.1" style="width: 4rem;" />
+            m
+          </label>
+        </div>
+      </div>
+    </div>
+
+    ${showMaskTiles ? `<button id="polygon-edit-mask-tiles" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Dölj befintliga byggnader" tabindex="0" title="Dölj befintliga byggnader under fotavtrycket">
+      <span class="icon">
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_domain_disabled_24px"></use>
+        </svg>
+      </span>
+    </button>
+
+    ` : ''}<button id="polygon-edit-vertices" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Redigera hörn" tabindex="0" title="Redigera hörn (dra i ett hörn för att flytta det, dra i en kantmitt för att lägga till ett hörn, högerklicka på ett hörn för att ta bort det)">
+      <span class="icon">
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_vector_polygon_24px"></use>
+        </svg>
+      </span>
+    </button>
+
+    <button id="polygon-edit-hole" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Skär ut hål" tabindex="0" title="Skär ut hål (klicka punkter inuti polygonen, högerklicka för att slutföra, Esc avbryter)">
+      <span class="icon">
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="hsl(0, 0%, 29%)">
+          <use xlink:href="#ic_hole_24px"></use>
+        </svg>
+      </span>
+    </button>
+
     <button id="polygon-edit-delete" class="padding-small icon-smaller round light box-shadow relative o-tooltip" aria-label="Ta bort" tabindex="0" title="Ta bort denna polygon">
       <span class="icon">
         <svg width="16" height="16" viewBox="0 0 24 24" fill="hsl(0, 100%, 40%)">
@@ -327,6 +820,8 @@ export const polygonEditPanelHtml = () => `
         </svg>
       </span>
     </button>
+
+    <div id="polygon-edit-status" style="position: absolute; bottom: 100%; left: 0; margin-bottom: 4px; padding: 4px 8px; font-size: 12px; color: #c62828; background: white; border-radius: 4px; white-space: nowrap; display: none;"></div>
   </div>
 `;
 
@@ -0,0 +1,107 @@
+/**
+ * Reference short-link server for the draw tool's `share.endpoint`, for testing.
+ * Payloads are kept in a local JSON file; use a real database in production.
+ *
+ *   POST /share       { "payload": "<compressed scene>" }  ->  { "id": "k3x9q2ab" }
+ *   GET  /share/<id>                                       ->  { "payload": "<compressed scene>" }
+ *
+ * Usage: npm run share-server  (SHARE_PORT, default 9010, and SHARE_STORE, default ./share-store.json)
+ */
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const port = Number(process.env.SHARE_PORT) || 9010;
+const storeFile = path.resolve(process.env.SHARE_STORE || 'share-store.json');
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const ID_PATTERN = /^[a-z0-9]{8}$/;
+
+const readStore = () => {
+  try {
+    return JSON.parse(fs.readFileSync(storeFile, 'utf8'));
+  } catch (e) {
+    return {};
+  }
+};
+
+const store = readStore();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const newId = () => {
+  let id;
+  do {
+    id = crypto.randomBytes(6).readUIntBE(0, 6).toString(36).padStart(8, '0').slice(-8);
+  } while (store[id]);
+  return id;
+};
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/share') {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        send(res, 413, { error: 'Payload too large' });
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) return;
+      let payload;
+      try {
+        payload = JSON.parse(Buffer.concat(chunks).toString('utf8')).payload;
+      } catch (e) {
+        send(res, 400, { error: 'Invalid JSON' });
+        return;
+      }
+      if (typeof payload !== 'string' || !/^[A-Za-z0-9_-]+$/.test(payload)) {
+        send(res, 400, { error: 'Missing or invalid payload' });
+        return;
+      }
+      const id = newId();
+      store[id] = { payload, created: new Date().toISOString() };
+      fs.writeFileSync(storeFile, JSON.stringify(store));
+      send(res, 201, { id });
+    });
+    return;
+  }
+
+  const match = pathname.match(/^\/share\/([^/]+)$/);
+  if (req.method === 'GET' && match) {
+    // Ids never need percent-decoding, so the raw segment is checked as is
+    const id = match[1];
+    const entry = ID_PATTERN.test(id) ? store[id] : undefined;
+    if (!entry) {
+      send(res, 404, { error: 'Not found' });
+      return;
+    }
+    send(res, 200, { payload: entry.payload });
+    return;
+  }
+
+  send(res, 404, { error: 'Not found' });
+});
+
+server.listen(port, () => {
+  console.log(`Share server on http://localhost:${port}/share, storing in ${storeFile}`);
+});